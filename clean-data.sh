@@ -66,16 +66,18 @@ TRUNCATE TABLE "clubs" CASCADE;
 TRUNCATE TABLE "players" CASCADE;
 TRUNCATE TABLE "game_sessions" CASCADE;
 TRUNCATE TABLE "user_events" CASCADE;
-TRUNCATE TABLE "system_settings" CASCADE;
+-- Список владельцев с прошлого запуска сохраняем, иначе сверка вернет права владельца
+-- всем из TELEGRAM_OWNER_IDS и откатит передачи прав
+DELETE FROM "system_settings" WHERE "key" <> 'last_owner_ids';
 
--- Удаляем всех админов, кроме главного (из переменной окружения)
-DELETE FROM "admin_users" WHERE "telegram_id" != '$TELEGRAM_ADMIN_ID';
+-- Удаляем всех админов, кроме владельцев
+DELETE FROM "admin_users" WHERE "is_owner" = false;
 
--- Сбрасываем роли пользователей, кроме главного админа
-UPDATE "users" SET "role" = 'user' WHERE "telegram_id" != '$TELEGRAM_ADMIN_ID';
+-- Сбрасываем роли пользователей, кроме владельцев
+UPDATE "users" SET "role" = 'user' WHERE "telegram_id" NOT IN (SELECT "telegram_id" FROM "admin_users");
 
--- Устанавливаем роль админа для главного админа
-UPDATE "users" SET "role" = 'admin' WHERE "telegram_id" = '$TELEGRAM_ADMIN_ID';
+-- Устанавливаем роль админа для владельцев
+UPDATE "users" SET "role" = 'admin' WHERE "telegram_id" IN (SELECT "telegram_id" FROM "admin_users");
 
 -- Включаем проверку внешних ключей
 SET session_replication_role = 'origin';
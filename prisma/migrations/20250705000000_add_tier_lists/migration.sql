@@ -0,0 +1,42 @@
+-- CreateTable
+CREATE TABLE "tier_lists" (
+    "id" TEXT NOT NULL,
+    "telegram_id" TEXT NOT NULL,
+    "club_id" TEXT,
+    "session_id" TEXT,
+    "categories" JSONB NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "tier_lists_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "tier_list_placements" (
+    "id" TEXT NOT NULL,
+    "tier_list_id" TEXT NOT NULL,
+    "player_id" TEXT NOT NULL,
+    "category_name" TEXT NOT NULL,
+    "category_index" INTEGER NOT NULL,
+    "position" INTEGER NOT NULL,
+
+    CONSTRAINT "tier_list_placements_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "tier_lists_telegram_id_idx" ON "tier_lists"("telegram_id");
+
+-- CreateIndex
+CREATE INDEX "tier_lists_club_id_idx" ON "tier_lists"("club_id");
+
+-- CreateIndex
+CREATE INDEX "tier_list_placements_tier_list_id_idx" ON "tier_list_placements"("tier_list_id");
+
+-- CreateIndex
+CREATE INDEX "tier_list_placements_player_id_idx" ON "tier_list_placements"("player_id");
+
+-- AddForeignKey
+ALTER TABLE "tier_lists" ADD CONSTRAINT "tier_lists_telegram_id_fkey" FOREIGN KEY ("telegram_id") REFERENCES "users"("telegram_id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "tier_list_placements" ADD CONSTRAINT "tier_list_placements_tier_list_id_fkey" FOREIGN KEY ("tier_list_id") REFERENCES "tier_lists"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,19 @@
+-- AlterTable
+ALTER TABLE "clubs" ADD COLUMN     "default_template_id" TEXT;
+
+-- CreateTable
+CREATE TABLE "tier_templates" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "categories" JSONB NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "tier_templates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "tier_templates_name_key" ON "tier_templates"("name");
+
+-- AddForeignKey
+ALTER TABLE "clubs" ADD CONSTRAINT "clubs_default_template_id_fkey" FOREIGN KEY ("default_template_id") REFERENCES "tier_templates"("id") ON DELETE SET NULL ON UPDATE CASCADE;
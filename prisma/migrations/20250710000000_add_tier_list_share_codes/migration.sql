@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "tier_lists" ADD COLUMN     "share_code" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "tier_lists_share_code_key" ON "tier_lists"("share_code");
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "game_sessions" ADD COLUMN     "draft" JSONB,
+ADD COLUMN     "draft_updated_at" TIMESTAMP(3);
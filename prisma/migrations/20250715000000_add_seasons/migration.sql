@@ -0,0 +1,54 @@
+-- AlterTable
+ALTER TABLE "players" ADD COLUMN     "is_active" BOOLEAN NOT NULL DEFAULT true;
+
+-- AlterTable
+ALTER TABLE "game_sessions" ADD COLUMN     "season_id" TEXT;
+
+-- CreateTable
+CREATE TABLE "seasons" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "start_date" TIMESTAMP(3) NOT NULL,
+    "end_date" TIMESTAMP(3),
+    "is_current" BOOLEAN NOT NULL DEFAULT false,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "seasons_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "club_season_rosters" (
+    "id" TEXT NOT NULL,
+    "season_id" TEXT NOT NULL,
+    "club_id" TEXT NOT NULL,
+    "player_id" TEXT NOT NULL,
+    "joined_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "left_at" TIMESTAMP(3),
+
+    CONSTRAINT "club_season_rosters_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "seasons_name_key" ON "seasons"("name");
+
+-- CreateIndex
+CREATE INDEX "club_season_rosters_club_id_season_id_idx" ON "club_season_rosters"("club_id", "season_id");
+
+-- CreateIndex
+CREATE INDEX "club_season_rosters_player_id_idx" ON "club_season_rosters"("player_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "club_season_rosters_season_id_club_id_player_id_key" ON "club_season_rosters"("season_id", "club_id", "player_id");
+
+-- AddForeignKey
+ALTER TABLE "game_sessions" ADD CONSTRAINT "game_sessions_season_id_fkey" FOREIGN KEY ("season_id") REFERENCES "seasons"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "club_season_rosters" ADD CONSTRAINT "club_season_rosters_season_id_fkey" FOREIGN KEY ("season_id") REFERENCES "seasons"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "club_season_rosters" ADD CONSTRAINT "club_season_rosters_club_id_fkey" FOREIGN KEY ("club_id") REFERENCES "clubs"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "club_season_rosters" ADD CONSTRAINT "club_season_rosters_player_id_fkey" FOREIGN KEY ("player_id") REFERENCES "players"("id") ON DELETE CASCADE ON UPDATE CASCADE;
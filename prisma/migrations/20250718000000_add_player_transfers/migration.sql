@@ -0,0 +1,24 @@
+-- CreateTable
+CREATE TABLE "player_transfers" (
+    "id" TEXT NOT NULL,
+    "player_id" TEXT NOT NULL,
+    "from_club_id" TEXT,
+    "to_club_id" TEXT,
+    "transferred_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "transferred_by" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "player_transfers_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "player_transfers_player_id_idx" ON "player_transfers"("player_id");
+
+-- AddForeignKey
+ALTER TABLE "player_transfers" ADD CONSTRAINT "player_transfers_player_id_fkey" FOREIGN KEY ("player_id") REFERENCES "players"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "player_transfers" ADD CONSTRAINT "player_transfers_from_club_id_fkey" FOREIGN KEY ("from_club_id") REFERENCES "clubs"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "player_transfers" ADD CONSTRAINT "player_transfers_to_club_id_fkey" FOREIGN KEY ("to_club_id") REFERENCES "clubs"("id") ON DELETE SET NULL ON UPDATE CASCADE;
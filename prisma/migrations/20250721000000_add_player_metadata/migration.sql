@@ -0,0 +1,19 @@
+-- CreateEnum
+CREATE TYPE "PlayerPosition" AS ENUM ('goalkeeper', 'defender', 'midfielder', 'forward');
+
+-- AlterTable
+ALTER TABLE "players" ADD COLUMN     "birth_date" TIMESTAMP(3),
+ADD COLUMN     "display_order" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "nationality" TEXT,
+ADD COLUMN     "position" "PlayerPosition",
+ADD COLUMN     "shirt_number" INTEGER;
+
+-- AlterTable
+ALTER TABLE "tier_templates" ADD COLUMN     "show_position" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "show_shirt_number" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateIndex
+CREATE INDEX "players_club_id_display_order_idx" ON "players"("club_id", "display_order");
+
+-- CreateIndex
+CREATE INDEX "players_position_idx" ON "players"("position");
@@ -0,0 +1,37 @@
+-- CreateTable
+CREATE TABLE "leagues" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "country" TEXT,
+    "logo" TEXT NOT NULL,
+    "season_id" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "leagues_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "club_leagues" (
+    "id" TEXT NOT NULL,
+    "league_id" TEXT NOT NULL,
+    "club_id" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "club_leagues_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "club_leagues_club_id_idx" ON "club_leagues"("club_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "club_leagues_league_id_club_id_key" ON "club_leagues"("league_id", "club_id");
+
+-- AddForeignKey
+ALTER TABLE "leagues" ADD CONSTRAINT "leagues_season_id_fkey" FOREIGN KEY ("season_id") REFERENCES "seasons"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "club_leagues" ADD CONSTRAINT "club_leagues_league_id_fkey" FOREIGN KEY ("league_id") REFERENCES "leagues"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "club_leagues" ADD CONSTRAINT "club_leagues_club_id_fkey" FOREIGN KEY ("club_id") REFERENCES "clubs"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,41 @@
+-- AlterTable
+ALTER TABLE "tier_lists" ADD COLUMN     "collection_id" TEXT;
+
+-- CreateTable
+CREATE TABLE "player_collections" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "player_collections_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "player_collection_items" (
+    "id" TEXT NOT NULL,
+    "collection_id" TEXT NOT NULL,
+    "player_id" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+
+    CONSTRAINT "player_collection_items_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "tier_lists_collection_id_idx" ON "tier_lists"("collection_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "player_collections_name_key" ON "player_collections"("name");
+
+-- CreateIndex
+CREATE INDEX "player_collection_items_player_id_idx" ON "player_collection_items"("player_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "player_collection_items_collection_id_player_id_key" ON "player_collection_items"("collection_id", "player_id");
+
+-- AddForeignKey
+ALTER TABLE "player_collection_items" ADD CONSTRAINT "player_collection_items_collection_id_fkey" FOREIGN KEY ("collection_id") REFERENCES "player_collections"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "player_collection_items" ADD CONSTRAINT "player_collection_items_player_id_fkey" FOREIGN KEY ("player_id") REFERENCES "players"("id") ON DELETE CASCADE ON UPDATE CASCADE;
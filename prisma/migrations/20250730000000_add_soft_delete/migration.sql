@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "clubs" ADD COLUMN     "deleted_at" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "players" ADD COLUMN     "deleted_at" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "clubs_deleted_at_idx" ON "clubs"("deleted_at");
+
+-- CreateIndex
+CREATE INDEX "players_deleted_at_idx" ON "players"("deleted_at");
@@ -0,0 +1,10 @@
+-- CreateEnum
+CREATE TYPE "ClubStatus" AS ENUM ('draft', 'published', 'archived');
+
+-- AlterTable
+ALTER TABLE "clubs" ADD COLUMN     "publish_at" TIMESTAMP(3),
+ADD COLUMN     "status" "ClubStatus" NOT NULL DEFAULT 'published',
+ADD COLUMN     "unpublish_at" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "clubs_status_idx" ON "clubs"("status");
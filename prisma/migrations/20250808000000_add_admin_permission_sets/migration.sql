@@ -0,0 +1,5 @@
+-- CreateEnum
+CREATE TYPE "AdminPermissionSet" AS ENUM ('superadmin', 'content_editor', 'analyst', 'support');
+
+-- AlterTable
+ALTER TABLE "admin_users" ADD COLUMN     "permission_set" "AdminPermissionSet" NOT NULL DEFAULT 'superadmin';
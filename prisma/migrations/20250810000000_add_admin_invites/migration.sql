@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "admin_invites" (
+    "id" TEXT NOT NULL,
+    "token" TEXT NOT NULL,
+    "permission_set" "AdminPermissionSet" NOT NULL,
+    "created_by" TEXT NOT NULL,
+    "expires_at" TIMESTAMP(3) NOT NULL,
+    "used_at" TIMESTAMP(3),
+    "used_by" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "admin_invites_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "admin_invites_token_key" ON "admin_invites"("token");
+
+-- CreateIndex
+CREATE INDEX "admin_invites_created_by_idx" ON "admin_invites"("created_by");
@@ -0,0 +1,19 @@
+-- AlterTable
+ALTER TABLE "admin_users" ADD COLUMN     "is_owner" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "ownership_transfers" (
+    "id" TEXT NOT NULL,
+    "from_telegram_id" TEXT NOT NULL,
+    "to_telegram_id" TEXT NOT NULL,
+    "requested_by" TEXT NOT NULL,
+    "expires_at" TIMESTAMP(3) NOT NULL,
+    "confirmed_at" TIMESTAMP(3),
+    "cancelled_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ownership_transfers_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ownership_transfers_from_telegram_id_idx" ON "ownership_transfers"("from_telegram_id");
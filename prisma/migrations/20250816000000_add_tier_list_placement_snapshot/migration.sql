@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "tier_list_placements" ADD COLUMN     "player_avatar" TEXT,
+ADD COLUMN     "player_name" TEXT;
@@ -3,6 +3,32 @@ import { config } from '../config/env';
 import { logger } from '../utils/logger';
 import fs from 'fs';
 import path from 'path';
+import { TierListService } from '../services/tierList.service';
+import { imageGenerationService } from '../services/imageGeneration.service';
+import { redisService } from '../services/redis.service';
+import {
+	AdminInviteService,
+	ADMIN_INVITE_START_PREFIX,
+} from '../services/adminInvite.service';
+import { AuditLogService, AUDIT_ACTIONS } from '../services/auditLog.service';
+import {
+	AdminConfirmationService,
+	PendingOperation,
+} from '../services/adminConfirmation.service';
+import {
+	TIER_LIST_START_PREFIX,
+	buildTierListWebAppUrl,
+	isValidShareCode,
+} from '../utils/shareLinks';
+
+// Telegram file_id изображения тир-листа хранится, чтобы не генерировать его повторно
+const TIER_LIST_PHOTO_CACHE_PREFIX = 'tier_list_photo:';
+const TIER_LIST_PHOTO_CACHE_TTL = 30 * 24 * 60 * 60; // 30 дней
+
+// Префиксы callback_data кнопок подтверждения опасных операций админа
+const CONFIRM_OPERATION_PREFIX = 'op_confirm:';
+const CANCEL_OPERATION_PREFIX = 'op_cancel:';
+const CONFIRMATION_QUEUE_INTERVAL = 1000;
 
 /**
  * Класс для управления Telegram ботом
@@ -11,6 +37,7 @@ import path from 'path';
 export class TelegramBotService {
 	private bot: TelegramBot | null = null;
 	private isClusterMaster: boolean;
+	private confirmationQueueInterval: NodeJS.Timeout | null = null;
 
 	constructor() {
 		// Проверяем, является ли процесс master в кластере
@@ -50,6 +77,7 @@ export class TelegramBotService {
 
 			this.setupCommands();
 			this.setupErrorHandlers();
+			this.startConfirmationQueueProcessor();
 
 			logger.info('✅ Telegram бот успешно инициализирован', 'TELEGRAM_BOT');
 		} catch (error) {
@@ -98,6 +126,27 @@ export class TelegramBotService {
 					`📱 Команда /start от пользователя: ${userName} (${chatId})`,
 					'TELEGRAM_BOT',
 				);
+
+				// Ссылка на тир-лист: /start tl_<code>
+				const startParam = msg.text?.match(/^\/start(?:@\w+)?\s+(\S+)/)?.[1];
+				if (startParam?.startsWith(TIER_LIST_START_PREFIX)) {
+					await this.sendSharedTierList(
+						chatId,
+						startParam.slice(TIER_LIST_START_PREFIX.length),
+					);
+					return;
+				}
+
+				// Приглашение в админы: /start invite_<token>
+				if (startParam?.startsWith(ADMIN_INVITE_START_PREFIX) && msg.from) {
+					await this.redeemAdminInvite(
+						chatId,
+						msg.from,
+						startParam.slice(ADMIN_INVITE_START_PREFIX.length),
+					);
+					return;
+				}
+
 				await this.sendWebAppButton(chatId);
 			} catch (error) {
 				logger.error(
@@ -108,6 +157,19 @@ export class TelegramBotService {
 			}
 		});
 
+		// Кнопки подтверждения опасных операций админа
+		this.bot.on('callback_query', async (query) => {
+			try {
+				await this.handleOperationCallback(query);
+			} catch (error) {
+				logger.error(
+					'❌ Ошибка обработки подтверждения операции:',
+					'TELEGRAM_BOT',
+					error,
+				);
+			}
+		});
+
 		// Обработчик для всех остальных команд
 		this.bot.on('message', async (msg) => {
 			if (msg.text && !msg.text.startsWith('/start')) {
@@ -165,6 +227,285 @@ export class TelegramBotService {
 		}
 	}
 
+	/**
+	 * Отправляет изображение тир-листа по коду ссылки с кнопкой для его открытия
+	 */
+	private async sendSharedTierList(chatId: number, code: string) {
+		if (!this.bot) return;
+
+		try {
+			const tierList = isValidShareCode(code)
+				? await TierListService.getTierListByShareCode(code)
+				: null;
+
+			if (!tierList || !(tierList.clubId || tierList.collectionId)) {
+				await this.bot.sendMessage(
+					chatId,
+					'😔 Тир-лист не найден или был удален',
+				);
+				await this.sendWebAppButton(chatId);
+				return;
+			}
+
+			const inlineKeyboard = [];
+			if (config.webApp.url.startsWith('https://')) {
+				inlineKeyboard.push(
+					[
+						{
+							text: '👀 Открыть тир-лист',
+							web_app: { url: buildTierListWebAppUrl(code) },
+						},
+					],
+					[
+						{
+							text: '🎯 Создать свой тир-лист',
+							web_app: { url: config.webApp.url },
+						},
+					],
+				);
+			}
+
+			// Повторно используем уже загруженное в Telegram изображение
+			const cacheKey = `${TIER_LIST_PHOTO_CACHE_PREFIX}${code}`;
+			const cached = await redisService.get(cacheKey);
+
+			if (cached) {
+				const { fileId, caption } = JSON.parse(cached);
+				await this.bot.sendPhoto(chatId, fileId, {
+					caption,
+					reply_markup: { inline_keyboard: inlineKeyboard },
+				});
+			} else {
+				const { imageBuffer, club } =
+					await imageGenerationService.generateResultsImage(
+						{
+							clubId: tierList.clubId || undefined,
+							collectionId: tierList.collectionId || undefined,
+							categories: tierList.categories,
+							categorizedPlayerIds: tierList.categorizedPlayerIds,
+						},
+						{ optimizeForSpeed: false },
+					);
+				const caption = `🏆 ТИР-ЛИСТ "${club.name.toUpperCase()}"`;
+
+				const message = await this.bot.sendPhoto(chatId, imageBuffer, {
+					caption,
+					reply_markup: { inline_keyboard: inlineKeyboard },
+				});
+
+				const fileId = message.photo?.[message.photo.length - 1]?.file_id;
+				if (fileId) {
+					await redisService.set(
+						cacheKey,
+						JSON.stringify({ fileId, caption }),
+						TIER_LIST_PHOTO_CACHE_TTL,
+					);
+				}
+			}
+
+			logger.info(
+				`✅ Тир-лист ${code} отправлен пользователю ${chatId}`,
+				'TELEGRAM_BOT',
+			);
+		} catch (error) {
+			logger.error(
+				`❌ Ошибка отправки тир-листа ${code}:`,
+				'TELEGRAM_BOT',
+				error,
+			);
+		}
+	}
+
+	/**
+	 * Принимает приглашение в админы и уведомляет пригласившего
+	 */
+	private async redeemAdminInvite(
+		chatId: number,
+		from: TelegramBot.User,
+		token: string,
+	) {
+		if (!this.bot) return;
+
+		const telegramId = from.id.toString();
+		const invitee = from.username
+			? `@${from.username}`
+			: `${from.first_name} (${telegramId})`;
+
+		try {
+			const result = await AdminInviteService.redeemInvite(token, {
+				telegramId,
+				username: from.username || null,
+			});
+
+			if (!result.success || !result.invite) {
+				await this.bot.sendMessage(chatId, `😔 ${result.message}`);
+				return;
+			}
+
+			const { invite } = result;
+
+			await AuditLogService.recordForActor(telegramId, {
+				action: AUDIT_ACTIONS.ADMIN_INVITE_REDEEM,
+				targetType: 'admin_invite',
+				targetId: invite.id,
+				after: {
+					telegramId,
+					username: from.username || null,
+					permissionSet: invite.permissionSet,
+					invitedBy: invite.createdBy,
+				},
+			});
+
+			await this.bot.sendMessage(
+				chatId,
+				`✅ Вы стали админом Myach Pro (набор прав: ${invite.permissionSet})`,
+			);
+			await this.sendWebAppButton(chatId);
+
+			logger.info(
+				`✅ Пользователь ${telegramId} принял приглашение ${invite.id}`,
+				'TELEGRAM_BOT',
+			);
+
+			// Пригласивший мог ни разу не писать боту, тогда уведомление не дойдет
+			await this.bot
+				.sendMessage(
+					Number(invite.createdBy),
+					`👤 ${invitee} принял приглашение и стал админом (набор прав: ${invite.permissionSet})`,
+				)
+				.catch(() => {
+					logger.warn(
+						`⚠️ Не удалось уведомить пригласившего ${invite.createdBy}`,
+						'TELEGRAM_BOT',
+					);
+				});
+		} catch (error) {
+			logger.error(
+				'❌ Ошибка при принятии приглашения в админы:',
+				'TELEGRAM_BOT',
+				error,
+			);
+			await this.bot
+				.sendMessage(
+					chatId,
+					'😔 Не удалось принять приглашение, попробуйте позже',
+				)
+				.catch(() => undefined);
+		}
+	}
+
+	/**
+	 * Запускает отправку запросов подтверждения, которые ставят в очередь любые процессы
+	 */
+	private startConfirmationQueueProcessor() {
+		let isProcessing = false;
+
+		this.confirmationQueueInterval = setInterval(async () => {
+			if (isProcessing) return;
+			isProcessing = true;
+
+			try {
+				let operation = await AdminConfirmationService.popQueuedOperation();
+				while (operation) {
+					await this.sendOperationConfirmation(operation);
+					operation = await AdminConfirmationService.popQueuedOperation();
+				}
+			} catch (error) {
+				logger.error(
+					'❌ Ошибка обработки очереди подтверждений:',
+					'TELEGRAM_BOT',
+					error,
+				);
+			} finally {
+				isProcessing = false;
+			}
+		}, CONFIRMATION_QUEUE_INTERVAL);
+	}
+
+	/**
+	 * Отправляет админу сообщение с кнопками подтверждения операции
+	 */
+	private async sendOperationConfirmation(operation: PendingOperation) {
+		if (!this.bot) return;
+
+		try {
+			const minutesLeft = Math.max(
+				1,
+				Math.round(
+					(new Date(operation.expiresAt).getTime() - Date.now()) / 60000,
+				),
+			);
+
+			await this.bot.sendMessage(
+				Number(operation.actorId),
+				`⚠️ ${operation.description}\n\nПодтвердите в течение ${minutesLeft} мин.`,
+				{
+					reply_markup: {
+						inline_keyboard: [
+							[
+								{
+									text: '✅ Подтвердить',
+									callback_data: `${CONFIRM_OPERATION_PREFIX}${operation.id}`,
+								},
+								{
+									text: '❌ Отменить',
+									callback_data: `${CANCEL_OPERATION_PREFIX}${operation.id}`,
+								},
+							],
+						],
+					},
+				},
+			);
+
+			logger.info(
+				`✅ Запрос подтверждения ${operation.type} отправлен админу ${operation.actorId}`,
+				'TELEGRAM_BOT',
+			);
+		} catch (error) {
+			logger.error(
+				`❌ Не удалось отправить запрос подтверждения админу ${operation.actorId}:`,
+				'TELEGRAM_BOT',
+				error,
+			);
+		}
+	}
+
+	/**
+	 * Обрабатывает нажатие кнопки подтверждения или отмены операции
+	 */
+	private async handleOperationCallback(query: TelegramBot.CallbackQuery) {
+		if (!this.bot || !query.data) return;
+
+		const isConfirm = query.data.startsWith(CONFIRM_OPERATION_PREFIX);
+		const isCancel = query.data.startsWith(CANCEL_OPERATION_PREFIX);
+		if (!isConfirm && !isCancel) return;
+
+		const operationId = query.data.slice(
+			(isConfirm ? CONFIRM_OPERATION_PREFIX : CANCEL_OPERATION_PREFIX).length,
+		);
+		const telegramId = query.from.id.toString();
+
+		// Отвечаем сразу, чтобы у кнопки пропал индикатор загрузки
+		await this.bot.answerCallbackQuery(query.id, {
+			text: isConfirm ? 'Выполняем операцию...' : 'Отменяем операцию...',
+		});
+
+		const result = isConfirm
+			? await AdminConfirmationService.confirm(operationId, telegramId)
+			: await AdminConfirmationService.cancel(operationId, telegramId);
+
+		const text = `${result.success ? '✅' : '😔'} ${result.message}`;
+
+		if (query.message) {
+			await this.bot.editMessageText(text, {
+				chat_id: query.message.chat.id,
+				message_id: query.message.message_id,
+			});
+		} else {
+			await this.bot.sendMessage(query.from.id, text);
+		}
+	}
+
 	/**
 	 * Отправка изображения через бота (для кроссплатформенного шэринга)
 	 */
@@ -531,6 +872,11 @@ export class TelegramBotService {
 	 * Graceful shutdown бота
 	 */
 	public async shutdown(): Promise<void> {
+		if (this.confirmationQueueInterval) {
+			clearInterval(this.confirmationQueueInterval);
+			this.confirmationQueueInterval = null;
+		}
+
 		if (this.bot && this.isClusterMaster) {
 			logger.info('🔄 Остановка Telegram бота...', 'TELEGRAM_BOT');
 			try {
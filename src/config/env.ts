@@ -43,13 +43,28 @@ const getRedisUrl = (): string => {
 	return 'redis://localhost:6379';
 };
 
+// Разбирает список значений, разделенных запятыми
+const getEnvList = (key: string): string[] =>
+	(process.env[key] || '')
+		.split(',')
+		.map((value) => value.trim())
+		.filter(Boolean);
+
+// Владельцы приложения: TELEGRAM_OWNER_IDS через запятую
+// TELEGRAM_ADMIN_ID остается для совместимости с окружениями с одним главным админом
+const getOwnerIds = (): string[] => {
+	const ownerIds = getEnvList('TELEGRAM_OWNER_IDS');
+	return ownerIds.length > 0 ? ownerIds : [getEnvVar('TELEGRAM_ADMIN_ID')];
+};
+
 // Типизированные переменные окружения
 export const config = {
 	port: parseInt(getEnvVar('PORT', '3001'), 10),
 	telegram: {
 		botToken: getEnvVar('TELEGRAM_BOT_TOKEN'),
-		adminId: getEnvVar('TELEGRAM_ADMIN_ID'),
+		ownerIds: getOwnerIds(),
 		botUsername: getEnvVar('TELEGRAM_BOT_USERNAME', 'emazov_myach_pro_bot'),
+		webAppShortName: getEnvVar('TELEGRAM_WEB_APP_SHORT_NAME', 'app'), // короткое имя Mini App для ссылок t.me/<bot>/<app>
 	},
 	webApp: {
 		url: getEnvVar('WEB_APP_URL'),
@@ -75,4 +90,24 @@ export const config = {
 	redis: {
 		url: getRedisUrl(),
 	},
+	moderation: {
+		// Дополнительные запрещенные слова для названий категорий (через запятую)
+		blockedWords: getEnvList('BLOCKED_WORDS'),
+	},
+	trash: {
+		// Через сколько дней удаленные клубы и игроки удаляются окончательно
+		retentionDays: parseInt(getEnvVar('TRASH_RETENTION_DAYS', '30'), 10),
+	},
+	adminInvites: {
+		// Сколько часов действует ссылка-приглашение в админы по умолчанию
+		ttlHours: parseInt(getEnvVar('ADMIN_INVITE_TTL_HOURS', '48'), 10),
+	},
+	analytics: {
+		// Через сколько дней события пользователей удаляются из базы (0 - хранить всегда)
+		retentionDays: parseInt(getEnvVar('ANALYTICS_RETENTION_DAYS', '0'), 10),
+		// archive - выгрузить в хранилище перед удалением, purge - просто удалить
+		retentionMode: (getEnvVar('ANALYTICS_RETENTION_MODE', 'archive') === 'purge'
+			? 'purge'
+			: 'archive') as 'archive' | 'purge',
+	},
 };
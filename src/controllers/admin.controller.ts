@@ -6,8 +6,20 @@ import {
 	invalidateAnalyticsCache,
 	invalidateAllDataCache,
 } from '../utils/cacheUtils';
-import { redisService } from '../services/redis.service';
-import { invalidateAllAdminCache } from '../middleware/checkAdminRole';
+import { AuditLogService, AUDIT_ACTIONS } from '../services/auditLog.service';
+import { AdminInviteService } from '../services/adminInvite.service';
+import { AdminConfirmationService } from '../services/adminConfirmation.service';
+import {
+	ADMIN_PERMISSION_SETS,
+	isAdminPermissionSet,
+} from '../utils/permissions';
+
+const PERMISSION_SET_ERROR = `Набор прав должен быть одним из: ${ADMIN_PERMISSION_SETS.join(
+	', ',
+)}`;
+
+// Максимальный срок действия приглашения - неделя
+const MAX_INVITE_TTL_HOURS = 7 * 24;
 
 /**
  * Получить список всех админов
@@ -36,13 +48,18 @@ export const addAdmin = async (
 ): Promise<void> => {
 	try {
 		const { telegramUser } = req.body;
-		const { telegramId, username } = req.body;
+		const { telegramId, username, permissionSet } = req.body;
 
 		if (!telegramId) {
 			res.status(400).json({ error: 'telegram_id обязателен' });
 			return;
 		}
 
+		if (permissionSet !== undefined && !isAdminPermissionSet(permissionSet)) {
+			res.status(400).json({ error: PERMISSION_SET_ERROR });
+			return;
+		}
+
 		if (!telegramUser) {
 			res.status(400).json({ error: 'Данные пользователя не найдены' });
 			return;
@@ -53,9 +70,20 @@ export const addAdmin = async (
 			telegramId,
 			username || null,
 			addedBy,
+			permissionSet,
 		);
 
 		if (result.success) {
+			await AuditLogService.record(req, {
+				action: AUDIT_ACTIONS.ADMIN_ADD,
+				targetType: 'admin',
+				targetId: String(telegramId),
+				after: {
+					telegramId: String(telegramId),
+					username: username || null,
+					permissionSet: permissionSet || 'superadmin',
+				},
+			});
 			// ИСПРАВЛЕНИЕ: AdminService уже инвалидирует конкретный кэш админа,
 			// здесь мы инвалидируем общие кэши данных
 			await invalidateAllDataCache();
@@ -95,6 +123,12 @@ export const removeAdmin = async (
 		const result = await AdminService.removeAdmin(telegramId, removedBy);
 
 		if (result.success) {
+			await AuditLogService.record(req, {
+				action: AUDIT_ACTIONS.ADMIN_REMOVE,
+				targetType: 'admin',
+				targetId: telegramId,
+				before: result.removedAdmin,
+			});
 			// ИСПРАВЛЕНИЕ: AdminService уже инвалидирует конкретный кэш админа,
 			// здесь мы инвалидируем общие кэши данных
 			await invalidateAllDataCache();
@@ -108,6 +142,115 @@ export const removeAdmin = async (
 	}
 };
 
+/**
+ * Изменить набор прав админа
+ */
+export const updateAdminPermissions = async (
+	req: TelegramRequest,
+	res: Response,
+	next: NextFunction,
+): Promise<void> => {
+	try {
+		const { telegramUser, permissionSet } = req.body;
+		const { telegramId } = req.params;
+
+		if (!telegramId) {
+			res.status(400).json({ error: 'telegram_id обязателен' });
+			return;
+		}
+
+		if (!isAdminPermissionSet(permissionSet)) {
+			res.status(400).json({ error: PERMISSION_SET_ERROR });
+			return;
+		}
+
+		if (!telegramUser) {
+			res.status(400).json({ error: 'Данные пользователя не найдены' });
+			return;
+		}
+
+		const changedBy = telegramUser.id.toString();
+		const result = await AdminService.updatePermissionSet(
+			telegramId,
+			permissionSet,
+			changedBy,
+		);
+
+		if (result.success) {
+			await AuditLogService.record(req, {
+				action: AUDIT_ACTIONS.ADMIN_PERMISSIONS_UPDATE,
+				targetType: 'admin',
+				targetId: telegramId,
+				before: { permissionSet: result.previousPermissionSet },
+				after: { permissionSet },
+			});
+			res.json({ ok: true, message: result.message, permissionSet });
+		} else {
+			res.status(400).json({ error: result.message });
+		}
+	} catch (error) {
+		console.error('Ошибка при изменении прав админа:', error);
+		res.status(500).json({ error: 'Ошибка сервера' });
+	}
+};
+
+/**
+ * Создать одноразовую ссылку-приглашение в админы
+ * Приглашение принимается в боте по команде /start, поэтому пользователю не нужно заранее заходить в приложение
+ */
+export const createAdminInvite = async (
+	req: TelegramRequest,
+	res: Response,
+	next: NextFunction,
+): Promise<void> => {
+	try {
+		const { telegramUser, permissionSet, expiresInHours } = req.body;
+
+		if (!isAdminPermissionSet(permissionSet)) {
+			res.status(400).json({ error: PERMISSION_SET_ERROR });
+			return;
+		}
+
+		const ttlHours =
+			expiresInHours !== undefined ? Number(expiresInHours) : undefined;
+
+		if (
+			ttlHours !== undefined &&
+			(!Number.isInteger(ttlHours) ||
+				ttlHours < 1 ||
+				ttlHours > MAX_INVITE_TTL_HOURS)
+		) {
+			res.status(400).json({
+				error: `Срок действия приглашения должен быть от 1 до ${MAX_INVITE_TTL_HOURS} часов`,
+			});
+			return;
+		}
+
+		if (!telegramUser) {
+			res.status(400).json({ error: 'Данные пользователя не найдены' });
+			return;
+		}
+
+		const invite = await AdminInviteService.createInvite(
+			telegramUser.id.toString(),
+			permissionSet,
+			ttlHours,
+		);
+
+		await AuditLogService.record(req, {
+			action: AUDIT_ACTIONS.ADMIN_INVITE_CREATE,
+			targetType: 'admin_invite',
+			targetId: invite.id,
+			after: { permissionSet, expiresAt: invite.expiresAt },
+		});
+
+		res.status(201).json({ ok: true, invite });
+	} catch (error) {
+		console.error('Ошибка при создании приглашения:', error);
+		res.status(500).json({ error: 'Ошибка сервера' });
+	}
+};
+
 /**
  * Поиск пользователей по username
  */
@@ -154,22 +297,36 @@ export const addAdminByUsername = async (
 ): Promise<void> => {
 	try {
 		const { telegramUser } = req.body;
-		const { username } = req.body;
+		const { username, permissionSet } = req.body;
 
 		if (!username) {
 			res.status(400).json({ error: 'username обязателен' });
 			return;
 		}
 
+		if (permissionSet !== undefined && !isAdminPermissionSet(permissionSet)) {
+			res.status(400).json({ error: PERMISSION_SET_ERROR });
+			return;
+		}
+
 		if (!telegramUser) {
 			res.status(400).json({ error: 'Данные пользователя не найдены' });
 			return;
 		}
 
 		const addedBy = telegramUser.id.toString();
-		const result = await AdminService.addAdminByUsername(username, addedBy);
+		const result = await AdminService.addAdminByUsername(
+			username,
+			addedBy,
+			permissionSet,
+		);
 
 		if (result.success) {
+			await AuditLogService.record(req, {
+				action: AUDIT_ACTIONS.ADMIN_ADD,
+				targetType: 'admin',
+				after: { username, permissionSet: permissionSet || 'superadmin' },
+			});
 			// ИСПРАВЛЕНИЕ: AdminService уже инвалидирует конкретный кэш админа,
 			// здесь мы инвалидируем общие кэши данных
 			await invalidateAllDataCache();
@@ -194,6 +351,12 @@ export const clearClubsCache = async (
 	try {
 		await invalidateClubsCache();
 
+		await AuditLogService.record(req, {
+			action: AUDIT_ACTIONS.CACHE_CLEAR,
+			targetType: 'cache',
+			targetId: 'clubs',
+		});
+
 		res.json({
 			ok: true,
 			message: 'Кеш клубов и игроков успешно очищен',
@@ -215,6 +378,12 @@ export const clearAnalyticsCache = async (
 	try {
 		await invalidateAnalyticsCache();
 
+		await AuditLogService.record(req, {
+			action: AUDIT_ACTIONS.CACHE_CLEAR,
+			targetType: 'cache',
+			targetId: 'analytics',
+		});
+
 		res.json({
 			ok: true,
 			message: 'Кеш аналитики успешно очищен',
@@ -226,7 +395,8 @@ export const clearAnalyticsCache = async (
 };
 
 /**
- * Очистить весь кеш (только для админов)
+ * Запросить очистку всего кеша (только для админов)
+ * Очистка выполняется после подтверждения админом в боте
  */
 export const clearAllCache = async (
 	req: TelegramRequest,
@@ -234,18 +404,59 @@ export const clearAllCache = async (
 	next: NextFunction,
 ): Promise<void> => {
 	try {
-		// КРИТИЧЕСКОЕ ИСПРАВЛЕНИЕ: Очищаем все типы кэша включая админский
-		await Promise.all([
-			redisService.flushAll(),
-			invalidateAllAdminCache(), // Дополнительно очищаем админский кэш
-		]);
+		const operation = await AdminConfirmationService.createPendingOperation(
+			req,
+			{
+				type: 'cache.clear_all',
+				params: {},
+				description: 'Подтвердить очистку всего кеша, включая админский?',
+				permission: 'cache:clear_all',
+			},
+		);
 
-		res.json({
+		res.status(202).json({
 			ok: true,
-			message: 'Весь кеш включая админский успешно очищен',
+			pending: true,
+			confirmationId: operation.id,
+			expiresAt: operation.expiresAt,
+			message: 'Подтвердите очистку кеша в боте',
 		});
 	} catch (error) {
-		console.error('Ошибка при полной очистке кеша:', error);
+		console.error('Ошибка при запросе полной очистки кеша:', error);
 		res.status(500).json({ error: 'Ошибка при очистке кеша' });
 	}
 };
+
+/**
+ * Получить статус операции, ожидающей подтверждения в боте
+ */
+export const getConfirmationStatus = async (
+	req: TelegramRequest,
+	res: Response,
+	next: NextFunction,
+): Promise<void> => {
+	try {
+		const { telegramUser } = req.body;
+		const { id } = req.params;
+
+		if (!telegramUser) {
+			res.status(400).json({ error: 'Данные пользователя не найдены' });
+			return;
+		}
+
+		const status = await AdminConfirmationService.getStatus(
+			id,
+			telegramUser.id.toString(),
+		);
+
+		if (!status) {
+			res.status(404).json({ error: 'Операция не найдена' });
+			return;
+		}
+
+		res.json({ ok: true, ...status });
+	} catch (error) {
+		console.error('Ошибка при получении статуса операции:', error);
+		res.status(500).json({ error: 'Ошибка сервера' });
+	}
+};
@@ -1,13 +1,25 @@
 import { Response, NextFunction } from 'express';
 import { TelegramRequest } from '../types/api';
 import { AnalyticsService, EventType } from '../services/analytics.service';
+import { TierListService } from '../services/tierList.service';
+import { ShareImageData } from '../services/imageGeneration.service';
 import {
 	withCache,
 	invalidateCache,
-	invalidateAnalyticsCache,
 	createCacheOptions,
 } from '../utils/cacheUtils';
 import { isUserAdmin, getTelegramIdFromRequest } from '../utils/roleUtils';
+import {
+	SHARE_DATA_LIMITS,
+	validateShareImageData,
+} from '../utils/shareDataValidator';
+import { sendShareDataValidationError } from '../middleware/validateShareData';
+import { AdminConfirmationService } from '../services/adminConfirmation.service';
+import {
+	parseAnalyticsScope,
+	serializeAnalyticsScope,
+	describeAnalyticsScope,
+} from '../utils/analyticsScope';
 
 // Константы для кэширования
 const CACHE_KEYS = {
@@ -50,7 +62,7 @@ export const logEvent = async (
 };
 
 /**
- * Начинает игровую сессию
+ * Начинает игровую сессию по клубу или по подборке игроков (collectionId)
  */
 export const startGameSession = async (
 	req: TelegramRequest,
@@ -59,15 +71,22 @@ export const startGameSession = async (
 ): Promise<void> => {
 	try {
 		const { telegramUser } = req.body;
-		const { clubId } = req.body;
+		const { clubId, collectionId } = req.body;
 
 		if (!telegramUser) {
 			res.status(400).json({ error: 'Данные пользователя не найдены' });
 			return;
 		}
 
-		if (!clubId) {
-			res.status(400).json({ error: 'ID клуба обязателен' });
+		if (!clubId && !collectionId) {
+			res.status(400).json({ error: 'ID клуба или подборки обязателен' });
+			return;
+		}
+
+		if (clubId && collectionId) {
+			res
+				.status(400)
+				.json({ error: 'Укажите только клуб или только подборку игроков' });
 			return;
 		}
 
@@ -83,20 +102,21 @@ export const startGameSession = async (
 
 		const sessionId = await AnalyticsService.startGameSession(
 			telegramId,
-			clubId,
+			clubId || null,
+			collectionId || null,
 		);
 
 		// Логируем событие запуска приложения только если нужно
 		if (shouldLogAppStart) {
 			await AnalyticsService.logEvent(telegramId, EventType.APP_START, {
-				clubId,
+				...(collectionId ? { collectionId } : { clubId }),
 			});
 		}
 
 		// Логируем событие начала игры только при создании новой сессии
 		if (sessionId) {
 			await AnalyticsService.logEvent(telegramId, EventType.GAME_START, {
-				clubId,
+				...(collectionId ? { collectionId } : { clubId }),
 				sessionId,
 			});
 		}
@@ -116,6 +136,7 @@ export const startGameSession = async (
 
 /**
  * Завершает игровую сессию
+ * Если клиент передал расстановку игроков, сохраняет её как тир-лист
  */
 export const completeGameSession = async (
 	req: TelegramRequest,
@@ -124,6 +145,7 @@ export const completeGameSession = async (
 ): Promise<void> => {
 	try {
 		const { telegramUser } = req.body;
+		const { categorizedPlayerIds, categories, templateId } = req.body;
 
 		if (!telegramUser) {
 			res.status(400).json({ error: 'Данные пользователя не найдены' });
@@ -131,14 +153,63 @@ export const completeGameSession = async (
 		}
 
 		const telegramId = telegramUser.id.toString();
-		await AnalyticsService.completeGameSession(telegramId);
+		const hasRanking = Boolean(
+			categorizedPlayerIds || categories || templateId,
+		);
+
+		// Валидируем результаты игры до завершения сессии
+		let shareData: ShareImageData | null = null;
+		if (hasRanking) {
+			// Клуб или подборка берутся из запроса, иначе из активной сессии
+			const activeSession =
+				req.body.clubId || req.body.collectionId
+					? null
+					: await AnalyticsService.getActiveSession(telegramId);
+			const collectionId = req.body.collectionId || activeSession?.collectionId;
+
+			const validation = await validateShareImageData({
+				categorizedPlayerIds,
+				categories,
+				templateId,
+				...(collectionId
+					? { collectionId }
+					: { clubId: req.body.clubId || activeSession?.clubId }),
+			});
+
+			if (!validation.valid) {
+				sendShareDataValidationError(res, validation.errors);
+				return;
+			}
+
+			shareData = validation.data;
+		}
+
+		const session = await AnalyticsService.completeGameSession(telegramId);
 
 		// Логируем событие завершения игры
 		await AnalyticsService.logEvent(telegramId, EventType.GAME_COMPLETED);
 
+		// Сохраняем тир-лист, если клиент передал результаты игры
+		let tierListId: string | null = null;
+
+		if (shareData) {
+			try {
+				const tierList = await TierListService.saveTierList(
+					telegramId,
+					shareData,
+					session?.id,
+				);
+				tierListId = tierList.id;
+			} catch (error) {
+				// Не прерываем завершение игры при ошибке сохранения тир-листа
+				console.error('Ошибка при сохранении тир-листа:', error);
+			}
+		}
+
 		// Инвалидируем кэш статистики при новых событиях
 		res.json({
 			ok: true,
+			tierListId,
 			message: 'Игровая сессия завершена',
 		});
 	} catch (error) {
@@ -181,6 +252,86 @@ export const forceCompleteAllSessions = async (
 	}
 };
 
+/**
+ * Сохраняет черновик тир-листа в активную игровую сессию
+ * Черновик может содержать только часть расставленных игроков
+ */
+export const saveGameDraft = async (
+	req: TelegramRequest,
+	res: Response,
+	next: NextFunction,
+): Promise<void> => {
+	try {
+		const { telegramUser } = req.body;
+		const { categorizedPlayerIds, categories, templateId } = req.body;
+
+		if (!telegramUser) {
+			res.status(400).json({ error: 'Данные пользователя не найдены' });
+			return;
+		}
+
+		const telegramId = telegramUser.id.toString();
+		const activeSession = await AnalyticsService.getActiveSession(telegramId);
+
+		if (!activeSession) {
+			res.status(404).json({ error: 'Активная игровая сессия не найдена' });
+			return;
+		}
+
+		if (!activeSession.clubId && !activeSession.collectionId) {
+			res
+				.status(400)
+				.json({ error: 'Клуб или подборка игровой сессии не найдены' });
+			return;
+		}
+
+		const draftSize = Buffer.byteLength(
+			JSON.stringify({ categorizedPlayerIds, categories, templateId }),
+		);
+		if (draftSize > SHARE_DATA_LIMITS.MAX_DRAFT_BYTES) {
+			res.status(413).json({
+				error: 'Черновик слишком большой',
+				code: 'DRAFT_TOO_LARGE',
+			});
+			return;
+		}
+
+		// Черновик проверяется по составу клуба или подборки так же, как готовый тир-лист
+		const validation = await validateShareImageData({
+			categorizedPlayerIds: categorizedPlayerIds || {},
+			categories,
+			templateId,
+			...(activeSession.collectionId
+				? { collectionId: activeSession.collectionId }
+				: { clubId: activeSession.clubId }),
+		});
+
+		if (!validation.valid) {
+			sendShareDataValidationError(res, validation.errors);
+			return;
+		}
+
+		const session = await AnalyticsService.saveSessionDraft(
+			activeSession.id,
+			validation.data,
+		);
+
+		if (!session) {
+			res.status(404).json({ error: 'Активная игровая сессия не найдена' });
+			return;
+		}
+
+		res.json({
+			ok: true,
+			sessionId: session.id,
+			draftUpdatedAt: session.draftUpdatedAt,
+		});
+	} catch (error) {
+		console.error('Ошибка при сохранении черновика:', error);
+		res.status(500).json({ error: 'Ошибка сервера' });
+	}
+};
+
 /**
  * Получает статус активной сессии пользователя
  */
@@ -203,6 +354,8 @@ export const getActiveSession = async (
 		res.json({
 			ok: true,
 			activeSession,
+			// Черновик для восстановления незавершенной игры
+			draft: activeSession?.draft || null,
 		});
 	} catch (error) {
 		console.error('Ошибка при получении активной сессии:', error);
@@ -249,9 +402,14 @@ export const getDetailedStats = async (
 	next: NextFunction,
 ): Promise<void> => {
 	try {
-		const { days } = req.query;
+		const { days, groupBy } = req.query;
 		const daysNumber = days ? parseInt(days as string) : 7;
 
+		if (groupBy !== undefined && groupBy !== 'league') {
+			res.status(400).json({ error: 'Группировка возможна только по league' });
+			return;
+		}
+
 		console.log('Запрос детальной статистики на', daysNumber, 'дней');
 
 		// Проверяем, является ли пользователь админом (админы всегда получают актуальные данные)
@@ -263,8 +421,10 @@ export const getDetailedStats = async (
 
 		// Используем кэширование для получения детальной статистики
 		const stats = await withCache(
-			async () => await AnalyticsService.getDetailedStats(daysNumber),
-			`${CACHE_KEYS.DETAILED_STATS}${daysNumber}`,
+			async () => await AnalyticsService.getDetailedStats(daysNumber, groupBy),
+			`${CACHE_KEYS.DETAILED_STATS}${daysNumber}${
+				groupBy ? `:${groupBy}` : ''
+			}`,
 			cacheOptions,
 		);
 
@@ -280,7 +440,42 @@ export const getDetailedStats = async (
 };
 
 /**
- * Сбрасывает всю аналитику (только для суперадминов)
+ * Показывает, сколько записей будет удалено при сбросе аналитики
+ * Область задается параметрами from, to, eventType, clubId, telegramId
+ */
+export const previewAnalyticsReset = async (
+	req: TelegramRequest,
+	res: Response,
+	next: NextFunction,
+): Promise<void> => {
+	try {
+		const scope = parseAnalyticsScope(req.query);
+		if (!scope.valid) {
+			res.status(400).json({ ok: false, error: scope.error });
+			return;
+		}
+
+		const preview = await AnalyticsService.previewReset(scope.data);
+
+		res.json({
+			ok: true,
+			scope: serializeAnalyticsScope(scope.data),
+			description: describeAnalyticsScope(scope.data),
+			preview,
+		});
+	} catch (error) {
+		console.error('Ошибка при подсчете записей для сброса аналитики:', error);
+		res.status(500).json({
+			ok: false,
+			error: 'Ошибка при подсчете записей для сброса аналитики',
+		});
+	}
+};
+
+/**
+ * Запрашивает сброс аналитики (только для суперадминов)
+ * Без параметров сбрасывается вся аналитика, иначе только область из параметров запроса
+ * Сброс выполняется после подтверждения админом в боте
  */
 export const resetAnalytics = async (
 	req: TelegramRequest,
@@ -293,44 +488,45 @@ export const resetAnalytics = async (
 			req.body.telegramUser?.id,
 		);
 
-		// Выполняем сброс аналитики
-		const result = await AnalyticsService.resetAnalytics();
-
-		// Инвалидируем весь кэш статистики
-		await invalidateAnalyticsCache();
+		const scope = parseAnalyticsScope(req.query);
+		if (!scope.valid) {
+			res.status(400).json({ ok: false, error: scope.error });
+			return;
+		}
 
-		console.log('Аналитика сброшена успешно:', result);
+		// Админ подтверждает сброс, уже зная, сколько записей будет удалено
+		const preview = await AnalyticsService.previewReset(scope.data);
+
+		const operation = await AdminConfirmationService.createPendingOperation(
+			req,
+			{
+				type: 'analytics.reset',
+				params: serializeAnalyticsScope(scope.data),
+				description:
+					`Подтвердить сброс аналитики (${describeAnalyticsScope(
+						scope.data,
+					)})?\n` +
+					`Событий: ${preview.userEvents}, сессий: ${preview.gameSessions}, пользователей: ${preview.users}` +
+					(preview.keptUsers > 0
+						? `\nПользователи с сохраненными тир-листами останутся: ${preview.keptUsers}`
+						: ''),
+				permission: 'analytics:reset',
+			},
+		);
 
-		res.json({
+		res.status(202).json({
 			ok: true,
-			message: 'Аналитика успешно сброшена',
-			data: {
-				deletedUserEvents: result.deletedUserEvents,
-				deletedGameSessions: result.deletedGameSessions,
-				deletedUsers: result.deletedUsers,
-			},
+			pending: true,
+			confirmationId: operation.id,
+			expiresAt: operation.expiresAt,
+			preview,
+			message: 'Подтвердите сброс аналитики в боте',
 		});
 	} catch (error: any) {
-		console.error('Ошибка при сбросе аналитики:', error);
-
-		// Более детальная информация об ошибке
-		const errorMessage = error.message || 'Неизвестная ошибка';
-		const errorCode = error.code || 'UNKNOWN';
-		const errorMeta = error.meta || {};
-
-		console.error(
-			`Детали ошибки: код ${errorCode}, сообщение: ${errorMessage}, мета:`,
-			errorMeta,
-		);
-
+		console.error('Ошибка при запросе сброса аналитики:', error);
 		res.status(500).json({
 			ok: false,
-			error: 'Ошибка при сбросе аналитики',
-			details: {
-				message: errorMessage,
-				code: errorCode,
-				...(Object.keys(errorMeta).length > 0 ? { meta: errorMeta } : {}),
-			},
+			error: 'Ошибка при запросе сброса аналитики',
 		});
 	}
 };
@@ -0,0 +1,67 @@
+import { Response, NextFunction } from 'express';
+import { TelegramRequest } from '../types/api';
+import { AuditLogService } from '../services/auditLog.service';
+
+const AUDIT_PAGE_LIMIT = {
+	DEFAULT: 50,
+	MAX: 100,
+};
+
+/**
+ * Получение журнала действий админов (только для админа)
+ * Фильтры: ?actorId=, ?action=, ?targetType=, ?targetId=, ?from=, ?to= (ISO даты)
+ * Постраничная выдача по курсору: ?limit= и ?cursor= (ID последней записи страницы)
+ */
+export const getAuditLog = async (
+	req: TelegramRequest,
+	res: Response,
+	next: NextFunction,
+): Promise<void> => {
+	try {
+		const { actorId, action, targetType, targetId, from, to, cursor } =
+			req.query;
+
+		const limit =
+			req.query.limit !== undefined
+				? parseInt(req.query.limit as string, 10)
+				: AUDIT_PAGE_LIMIT.DEFAULT;
+
+		if (isNaN(limit) || limit < 1 || limit > AUDIT_PAGE_LIMIT.MAX) {
+			res.status(400).json({
+				error: `Лимит должен быть от 1 до ${AUDIT_PAGE_LIMIT.MAX}`,
+			});
+			return;
+		}
+
+		const fromDate = from ? new Date(from as string) : undefined;
+		const toDate = to ? new Date(to as string) : undefined;
+
+		if (
+			(fromDate && isNaN(fromDate.getTime())) ||
+			(toDate && isNaN(toDate.getTime()))
+		) {
+			res.status(400).json({ error: 'Некорректная дата периода' });
+			return;
+		}
+
+		const result = await AuditLogService.getLogs(
+			{
+				actorId: actorId as string | undefined,
+				action: action as string | undefined,
+				targetType: targetType as string | undefined,
+				targetId: targetId as string | undefined,
+				from: fromDate,
+				to: toDate,
+			},
+			{ limit, cursor: cursor as string | undefined },
+		);
+
+		res.json({
+			ok: true,
+			...result,
+		});
+	} catch (err: any) {
+		console.error('Ошибка при получении журнала действий:', err);
+		res.status(500).json({ error: 'Ошибка при получении журнала действий' });
+	}
+};
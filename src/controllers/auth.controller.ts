@@ -3,7 +3,10 @@ import { TelegramRequest, AuthResponse } from '../types/api';
 import { config } from '../config/env';
 import { prisma } from '../prisma';
 import { AdminService } from '../services/admin.service';
-import { invalidateAdminCache } from '../middleware/checkAdminRole';
+import {
+	invalidateAdminCache,
+	getAdminPermissions,
+} from '../middleware/checkAdminRole';
 
 /**
  * Контроллер для авторизации пользователя через Telegram
@@ -73,9 +76,13 @@ export const authUser = async (
 			);
 		}
 
+		// Права нужны клиенту, чтобы скрыть недоступные разделы админки
+		const permissions = isAdmin ? await getAdminPermissions(telegramId) : [];
+
 		res.json({
 			ok: true,
 			role,
+			permissions,
 			user: {
 				id: user.id,
 				telegramId: user.telegramId,
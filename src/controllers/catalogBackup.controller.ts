@@ -0,0 +1,126 @@
+import { Response, NextFunction } from 'express';
+import path from 'path';
+import { TelegramRequest } from '../types/api';
+import {
+	CatalogBackupService,
+	CATALOG_BACKUP_FILE,
+} from '../services/catalogBackup.service';
+import { ZipArchive } from '../utils/zipReader';
+import { AuditLogService, AUDIT_ACTIONS } from '../services/auditLog.service';
+
+/**
+ * Экспорт каталога в резервную копию (только для админа)
+ * ?format=json - только данные (по умолчанию), ?format=zip - данные вместе с изображениями
+ */
+export const exportCatalog = async (
+	req: TelegramRequest,
+	res: Response,
+	next: NextFunction,
+): Promise<void> => {
+	try {
+		const format = (req.query.format as string) || 'json';
+
+		if (format !== 'json' && format !== 'zip') {
+			res.status(400).json({ error: 'Формат экспорта: json или zip' });
+			return;
+		}
+
+		const snapshot = await CatalogBackupService.createSnapshot();
+		const fileName = `catalog-${snapshot.exportedAt.slice(0, 10)}.${format}`;
+
+		const body =
+			format === 'zip'
+				? await CatalogBackupService.createArchive(snapshot)
+				: Buffer.from(JSON.stringify(snapshot, null, 2), 'utf8');
+
+		res.set({
+			'Content-Type': format === 'zip' ? 'application/zip' : 'application/json',
+			'Content-Length': body.length.toString(),
+			'Content-Disposition': `attachment; filename="${fileName}"`,
+			'Cache-Control': 'no-store',
+		});
+
+		res.send(body);
+	} catch (err: any) {
+		console.error('Ошибка при экспорте каталога:', err);
+		res.status(500).json({ error: 'Ошибка при экспорте каталога' });
+	}
+};
+
+/**
+ * Восстановление каталога из резервной копии в пустую базу (только для админа)
+ * Принимает JSON из экспорта или ZIP с изображениями
+ */
+export const restoreCatalog = async (
+	req: TelegramRequest,
+	res: Response,
+	next: NextFunction,
+): Promise<void> => {
+	try {
+		const file = req.file;
+
+		if (!file) {
+			res.status(400).json({ error: 'Файл резервной копии обязателен' });
+			return;
+		}
+
+		let archive: ZipArchive | null = null;
+		let content: string;
+
+		if (path.extname(file.originalname).toLowerCase() === '.zip') {
+			try {
+				archive = new ZipArchive(file.buffer);
+			} catch (error: any) {
+				res.status(400).json({
+					error: `Не удалось прочитать архив: ${error.message}`,
+				});
+				return;
+			}
+
+			const entry = archive.findEntry(CATALOG_BACKUP_FILE);
+			if (!entry) {
+				res.status(400).json({
+					error: `В архиве нет файла ${CATALOG_BACKUP_FILE}`,
+				});
+				return;
+			}
+
+			content = archive.extract(entry).toString('utf8');
+		} else {
+			content = file.buffer.toString('utf8');
+		}
+
+		const snapshot = CatalogBackupService.parseSnapshot(content);
+
+		if (!snapshot.valid) {
+			res.status(400).json({ error: snapshot.error });
+			return;
+		}
+
+		if (!(await CatalogBackupService.isCatalogEmpty())) {
+			res.status(409).json({
+				error:
+					'Восстановление возможно только в пустую базу: удалите существующие клубы, игроков и лиги',
+			});
+			return;
+		}
+
+		const summary = await CatalogBackupService.restore(snapshot.data, archive);
+
+		await AuditLogService.record(req, {
+			action: AUDIT_ACTIONS.CATALOG_RESTORE,
+			targetType: 'catalog',
+			after: { exportedAt: snapshot.data.exportedAt, ...summary },
+		});
+
+		res.json({
+			ok: true,
+			message: 'Каталог восстановлен из резервной копии',
+			exportedAt: snapshot.data.exportedAt,
+			restored: summary,
+		});
+	} catch (err: any) {
+		console.error('Ошибка при восстановлении каталога:', err);
+		res.status(500).json({ error: 'Ошибка при восстановлении каталога' });
+	}
+};
@@ -0,0 +1,140 @@
+import { Response, NextFunction } from 'express';
+import path from 'path';
+import { TelegramRequest } from '../types/api';
+import { CatalogImportService } from '../services/catalogImport.service';
+import {
+	CatalogManifest,
+	parseCatalogManifest,
+} from '../utils/catalogManifest';
+import { ZipArchive } from '../utils/zipReader';
+import { AuditLogService, AUDIT_ACTIONS } from '../services/auditLog.service';
+
+type ImportFilesResult =
+	| { valid: true; manifest: CatalogManifest; archive: ZipArchive | null }
+	| { valid: false; error: string };
+
+/**
+ * Читает манифест и архив изображений из multipart запроса
+ */
+const readImportFiles = (req: TelegramRequest): ImportFilesResult => {
+	const files = (req.files || {}) as {
+		[field: string]: Express.Multer.File[];
+	};
+	const manifestFile = files.manifest?.[0];
+	const imagesFile = files.images?.[0];
+
+	if (!manifestFile) {
+		return { valid: false, error: 'Файл манифеста обязателен' };
+	}
+
+	const format =
+		path.extname(manifestFile.originalname).toLowerCase() === '.json'
+			? 'json'
+			: 'csv';
+	const manifest = parseCatalogManifest(
+		manifestFile.buffer.toString('utf8'),
+		format,
+	);
+
+	if (!manifest.valid) {
+		return { valid: false, error: manifest.error };
+	}
+
+	if (!imagesFile) {
+		return { valid: true, manifest: manifest.data, archive: null };
+	}
+
+	try {
+		return {
+			valid: true,
+			manifest: manifest.data,
+			archive: new ZipArchive(imagesFile.buffer),
+		};
+	} catch (error: any) {
+		return {
+			valid: false,
+			error: `Не удалось прочитать архив: ${error.message}`,
+		};
+	}
+};
+
+/**
+ * Предпросмотр импорта каталога без изменения данных (только для админа)
+ */
+export const previewCatalogImport = async (
+	req: TelegramRequest,
+	res: Response,
+	next: NextFunction,
+): Promise<void> => {
+	try {
+		const files = readImportFiles(req);
+
+		if (!files.valid) {
+			res.status(400).json({ error: files.error });
+			return;
+		}
+
+		const plan = await CatalogImportService.planImport(
+			files.manifest,
+			files.archive,
+		);
+
+		res.json({
+			ok: true,
+			dryRun: true,
+			...plan,
+		});
+	} catch (err: any) {
+		console.error('Ошибка при предпросмотре импорта:', err);
+		res.status(500).json({ error: 'Ошибка при предпросмотре импорта' });
+	}
+};
+
+/**
+ * Импорт клубов и игроков с изображениями из манифеста и ZIP архива (только для админа)
+ * План пересчитывается заново, поэтому результат совпадает с предпросмотром на тех же данных
+ */
+export const applyCatalogImport = async (
+	req: TelegramRequest,
+	res: Response,
+	next: NextFunction,
+): Promise<void> => {
+	try {
+		const files = readImportFiles(req);
+
+		if (!files.valid) {
+			res.status(400).json({ error: files.error });
+			return;
+		}
+
+		const plan = await CatalogImportService.planImport(
+			files.manifest,
+			files.archive,
+		);
+
+		if (plan.summary.create === 0 && plan.summary.update === 0) {
+			res.status(400).json({
+				error: 'Нет записей для импорта',
+				...plan,
+			});
+			return;
+		}
+
+		const result = await CatalogImportService.applyImport(plan, files.archive);
+
+		await AuditLogService.record(req, {
+			action: AUDIT_ACTIONS.CATALOG_IMPORT,
+			targetType: 'catalog',
+			after: result.summary,
+		});
+
+		res.json({
+			ok: true,
+			dryRun: false,
+			...result,
+		});
+	} catch (err: any) {
+		console.error('Ошибка при импорте каталога:', err);
+		res.status(500).json({ error: 'Ошибка при импорте каталога' });
+	}
+};
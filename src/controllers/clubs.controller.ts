@@ -6,6 +6,10 @@ import {
 } from '../types/api';
 import { prisma } from '../prisma';
 import { StorageService } from '../services/storage.service';
+import { TierListService } from '../services/tierList.service';
+import { SeasonService } from '../services/season.service';
+import { AuditLogService, AUDIT_ACTIONS } from '../services/auditLog.service';
+import { AdminConfirmationService } from '../services/adminConfirmation.service';
 import {
 	withCache,
 	invalidateCache,
@@ -13,17 +17,41 @@ import {
 	createCacheOptions,
 } from '../utils/cacheUtils';
 import { isUserAdmin, getTelegramIdFromRequest } from '../utils/roleUtils';
+import {
+	PUBLISHED_CLUB_WHERE,
+	parseClubPublication,
+} from '../utils/clubPublication';
 
 // Создаем экземпляр сервиса для хранилища
 const storageService = new StorageService();
 
 // Константы для кэширования
+// Ключи списка и карточки клуба дополняются областью видимости (getVisibilityScope)
 const CACHE_KEYS = {
-	ALL_CLUBS: 'cache:clubs:all',
+	ALL_CLUBS: 'cache:clubs:all:',
 	CLUB_BY_ID: 'cache:clubs:id:',
 	CLUBS_WITH_PLAYERS: 'cache:clubs:with_players:',
 };
 
+/**
+ * Область видимости клубов: админы видят черновики и архив, пользователи - только опубликованные
+ */
+const getVisibilityScope = (isAdmin: boolean): 'admin' | 'published' =>
+	isAdmin ? 'admin' : 'published';
+
+/**
+ * Статус и расписание публикации клуба для ответов админке
+ */
+const formatClubPublication = (club: {
+	status: string;
+	publishAt: Date | null;
+	unpublishAt: Date | null;
+}) => ({
+	status: club.status,
+	publishAt: club.publishAt,
+	unpublishAt: club.unpublishAt,
+});
+
 /**
  * Создание нового клуба (только для админа)
  */
@@ -41,9 +69,17 @@ export const createClub = async (
 			return;
 		}
 
+		// Клуб можно создать черновиком и опубликовать позже
+		const publication = parseClubPublication(req.body);
+		if (!publication.valid) {
+			res.status(400).json({ error: publication.error });
+			return;
+		}
+
 		const isClubExists = await prisma.club.findFirst({
 			where: {
 				name,
+				deletedAt: null,
 			},
 		});
 
@@ -58,18 +94,27 @@ export const createClub = async (
 				data: {
 					name,
 					logo: '',
+					...publication.data,
 				},
 			});
 
 			// Инвалидируем все связанные кэши
 			await invalidateClubsCache();
 
+			await AuditLogService.record(req, {
+				action: AUDIT_ACTIONS.CLUB_CREATE,
+				targetType: 'club',
+				targetId: club.id,
+				after: club,
+			});
+
 			res.status(201).json({
 				ok: true,
 				club: {
 					id: club.id,
 					name: club.name,
 					logoUrl: '',
+					...formatClubPublication(club),
 				},
 			});
 			return;
@@ -83,6 +128,7 @@ export const createClub = async (
 			data: {
 				name,
 				logo: logoKey,
+				...publication.data,
 			},
 		});
 
@@ -94,12 +140,20 @@ export const createClub = async (
 		// Инвалидируем все связанные кэши
 		await invalidateClubsCache();
 
+		await AuditLogService.record(req, {
+			action: AUDIT_ACTIONS.CLUB_CREATE,
+			targetType: 'club',
+			targetId: club.id,
+			after: club,
+		});
+
 		res.status(201).json({
 			ok: true,
 			club: {
 				id: club.id,
 				name: club.name,
 				logoUrl,
+				...formatClubPublication(club),
 			},
 		});
 	} catch (err: any) {
@@ -110,6 +164,7 @@ export const createClub = async (
 
 /**
  * Получение списка всех клубов (доступно всем пользователям)
+ * Пользователи видят только опубликованные клубы, админы - также черновики и архив
  */
 export const getAllClubs = async (
 	req: TelegramRequest,
@@ -128,6 +183,7 @@ export const getAllClubs = async (
 		const formattedClubs = await withCache(
 			async () => {
 				const clubs = await prisma.club.findMany({
+					where: isAdmin ? { deletedAt: null } : PUBLISHED_CLUB_WHERE,
 					orderBy: { name: 'asc' },
 				});
 
@@ -147,11 +203,12 @@ export const getAllClubs = async (
 					id: club.id,
 					name: club.name,
 					logoUrl: club.logo ? logoUrls[club.logo] || '' : '',
+					...(isAdmin ? formatClubPublication(club) : {}),
 				}));
 
 				return result;
 			},
-			CACHE_KEYS.ALL_CLUBS,
+			`${CACHE_KEYS.ALL_CLUBS}${getVisibilityScope(isAdmin)}`,
 			cacheOptions,
 		);
 
@@ -171,6 +228,7 @@ export const getAllClubs = async (
 
 /**
  * Получение информации о конкретном клубе по ID
+ * По умолчанию возвращает текущий состав, ?season= - состав указанного сезона
  */
 export const getClubById = async (
 	req: TelegramRequest,
@@ -179,12 +237,22 @@ export const getClubById = async (
 ): Promise<void> => {
 	try {
 		const { id } = req.params;
+		const { season: seasonParam } = req.query;
 
 		if (!id) {
 			res.status(400).json({ error: 'ID клуба обязателен' });
 			return;
 		}
 
+		const season = seasonParam
+			? await SeasonService.resolveSeason(seasonParam as string)
+			: null;
+
+		if (seasonParam && !season) {
+			res.status(404).json({ error: 'Сезон не найден' });
+			return;
+		}
+
 		// Проверяем, является ли пользователь админом
 		const telegramId = getTelegramIdFromRequest(req);
 		const isAdmin = telegramId ? await isUserAdmin(telegramId) : false;
@@ -195,14 +263,12 @@ export const getClubById = async (
 		// Используем кэширование для получения информации о клубе
 		const clubData = await withCache(
 			async () => {
-				const club = await prisma.club.findUnique({
-					where: {
-						id,
-					},
+				const club = await prisma.club.findFirst({
+					where: isAdmin
+						? { id, deletedAt: null }
+						: { id, ...PUBLISHED_CLUB_WHERE },
 					include: {
-						players: {
-							orderBy: { name: 'asc' },
-						},
+						defaultTemplate: true,
 					},
 				});
 
@@ -210,9 +276,12 @@ export const getClubById = async (
 					return null;
 				}
 
+				// Текущий состав или состав выбранного сезона
+				const roster = await SeasonService.getClubRoster(id, season?.id);
+
 				// Собираем все ключи изображений для батч-обработки
 				const logoKey = club.logo ? [club.logo] : [];
-				const avatarKeys = club.players
+				const avatarKeys = roster
 					.map((player) => player.avatar)
 					.filter(Boolean) as string[];
 
@@ -226,20 +295,38 @@ export const getClubById = async (
 				const logoUrl = club.logo ? logoUrls[club.logo] || '' : '';
 
 				// Игроки с аватарами
-				const players = club.players.map((player) => ({
+				const players = roster.map((player) => ({
 					id: player.id,
 					name: player.name,
 					avatarUrl: player.avatar ? avatarUrls[player.avatar] || '' : '',
+					position: player.position,
+					shirtNumber: player.shirtNumber,
 				}));
 
+				// Шаблон категорий по умолчанию для клуба
+				const template = club.defaultTemplate
+					? {
+							id: club.defaultTemplate.id,
+							name: club.defaultTemplate.name,
+							categories: club.defaultTemplate.categories,
+							showShirtNumber: club.defaultTemplate.showShirtNumber,
+							showPosition: club.defaultTemplate.showPosition,
+					  }
+					: null;
+
 				return {
 					id: club.id,
 					name: club.name,
 					logoUrl,
 					players,
+					template,
+					season: season ? { id: season.id, name: season.name } : null,
+					...(isAdmin ? formatClubPublication(club) : {}),
 				};
 			},
-			`${CACHE_KEYS.CLUB_BY_ID}${id}`,
+			`${CACHE_KEYS.CLUB_BY_ID}${getVisibilityScope(isAdmin)}:${id}${
+				season ? `:season:${season.id}` : ''
+			}`,
 			cacheOptions,
 		);
 
@@ -258,6 +345,50 @@ export const getClubById = async (
 	}
 };
 
+/**
+ * Получение общего тир-листа сообщества для клуба
+ */
+export const getCommunityTierList = async (
+	req: TelegramRequest,
+	res: Response,
+	next: NextFunction,
+): Promise<void> => {
+	try {
+		const { id } = req.params;
+
+		if (!id) {
+			res.status(400).json({ error: 'ID клуба обязателен' });
+			return;
+		}
+
+		const telegramId = getTelegramIdFromRequest(req);
+		const isAdmin = telegramId ? await isUserAdmin(telegramId) : false;
+
+		const club = await prisma.club.findFirst({
+			where: isAdmin
+				? { id, deletedAt: null }
+				: { id, ...PUBLISHED_CLUB_WHERE },
+			select: { id: true, name: true },
+		});
+
+		if (!club) {
+			res.status(404).json({ error: 'Клуб не найден' });
+			return;
+		}
+
+		const communityTierList = await TierListService.getCommunityTierList(id);
+
+		res.json({
+			ok: true,
+			club,
+			communityTierList,
+		});
+	} catch (err: any) {
+		console.error('Ошибка при получении общего тир-листа:', err);
+		res.status(500).json({ error: 'Ошибка при получении общего тир-листа' });
+	}
+};
+
 /**
  * Обновление информации о клубе (только для админа)
  */
@@ -268,7 +399,7 @@ export const updateClub = async (
 ): Promise<void> => {
 	try {
 		const { id } = req.params;
-		const { name } = req.body;
+		const { name, defaultTemplateId } = req.body;
 		const file = req.file;
 
 		if (!id) {
@@ -277,9 +408,10 @@ export const updateClub = async (
 		}
 
 		// Проверяем существование клуба
-		const club = await prisma.club.findUnique({
+		const club = await prisma.club.findFirst({
 			where: {
 				id,
+				deletedAt: null,
 			},
 		});
 
@@ -288,6 +420,30 @@ export const updateClub = async (
 			return;
 		}
 
+		const publication = parseClubPublication(req.body, club);
+		if (!publication.valid) {
+			res.status(400).json({ error: publication.error });
+			return;
+		}
+
+		// Пустое значение отвязывает шаблон категорий от клуба
+		let templateId = club.defaultTemplateId;
+		if (defaultTemplateId !== undefined) {
+			templateId = defaultTemplateId || null;
+
+			if (templateId) {
+				const template = await prisma.tierTemplate.findUnique({
+					where: { id: templateId },
+					select: { id: true },
+				});
+
+				if (!template) {
+					res.status(400).json({ error: 'Шаблон категорий не найден' });
+					return;
+				}
+			}
+		}
+
 		let logoKey = club.logo;
 
 		// Если загружен новый файл, обновляем логотип
@@ -314,12 +470,22 @@ export const updateClub = async (
 			data: {
 				name: name || club.name,
 				logo: logoKey,
+				defaultTemplateId: templateId,
+				...publication.data,
 			},
 		});
 
 		// Инвалидируем все связанные кэши
 		await invalidateClubsCache();
 
+		await AuditLogService.record(req, {
+			action: AUDIT_ACTIONS.CLUB_UPDATE,
+			targetType: 'club',
+			targetId: id,
+			before: club,
+			after: updatedClub,
+		});
+
 		// URL для логотипа
 		const logoUrl = updatedClub.logo
 			? await storageService.getFastImageUrl(updatedClub.logo, 'logo')
@@ -331,6 +497,8 @@ export const updateClub = async (
 				id: updatedClub.id,
 				name: updatedClub.name,
 				logoUrl,
+				defaultTemplateId: updatedClub.defaultTemplateId,
+				...formatClubPublication(updatedClub),
 			},
 		});
 	} catch (err: any) {
@@ -341,6 +509,8 @@ export const updateClub = async (
 
 /**
  * Удаление клуба (только для админа)
+ * Клуб и его игроки перемещаются в корзину после подтверждения админом в боте
+ * и удаляются окончательно после срока хранения
  */
 export const deleteClub = async (
 	req: TelegramRequest,
@@ -356,12 +526,10 @@ export const deleteClub = async (
 		}
 
 		// Проверяем существование клуба
-		const club = await prisma.club.findUnique({
+		const club = await prisma.club.findFirst({
 			where: {
 				id,
-			},
-			include: {
-				players: true,
+				deletedAt: null,
 			},
 		});
 
@@ -370,65 +538,22 @@ export const deleteClub = async (
 			return;
 		}
 
-		// Если у клуба есть игроки, удаляем их вместе с аватарами
-		if (club.players.length > 0) {
-			// Удаляем аватары игроков
-			for (const player of club.players) {
-				if (player.avatar) {
-					try {
-						await storageService.deleteFile(player.avatar);
-					} catch (error) {
-						console.error(
-							`Ошибка при удалении аватара игрока ${player.id}:`,
-							error,
-						);
-						// Продолжаем выполнение даже при ошибке удаления файла
-					}
-				}
-			}
-
-			// Удаляем всех игроков клуба
-			await prisma.players.deleteMany({
-				where: {
-					clubId: id,
-				},
-			});
-		}
-
-		// Обнуляем clubId в игровых сессиях, связанных с удаляемым клубом
-		// Это предотвращает отображение "Неизвестный клуб" в аналитике
-		await prisma.gameSession.updateMany({
-			where: {
-				clubId: id,
-			},
-			data: {
-				clubId: null,
-			},
-		});
-
-		// Если у клуба был логотип, удаляем файл
-		if (club.logo) {
-			try {
-				await storageService.deleteFile(club.logo);
-			} catch (error) {
-				console.error('Ошибка при удалении логотипа:', error);
-				// Продолжаем выполнение даже при ошибке удаления файла
-			}
-		}
-
-		// Удаляем клуб
-		await prisma.club.delete({
-			where: {
-				id,
+		const operation = await AdminConfirmationService.createPendingOperation(
+			req,
+			{
+				type: 'club.delete',
+				params: { clubId: id },
+				description: `Подтвердить удаление клуба «${club.name}» вместе с игроками?`,
+				permission: 'clubs:write',
 			},
-		});
-
-		// Инвалидируем все связанные кэши
-		await invalidateClubsCache();
+		);
 
-		res.json({
+		res.status(202).json({
 			ok: true,
-			message: 'Клуб и его игроки успешно удалены',
+			pending: true,
+			confirmationId: operation.id,
+			expiresAt: operation.expiresAt,
+			message: 'Подтвердите удаление клуба в боте',
 		});
 	} catch (err: any) {
 		console.error('Ошибка при удалении клуба:', err);
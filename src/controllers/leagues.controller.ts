@@ -0,0 +1,523 @@
+import { Response, NextFunction } from 'express';
+import { TelegramRequest } from '../types/api';
+import { prisma } from '../prisma';
+import { StorageService } from '../services/storage.service';
+import { SeasonService } from '../services/season.service';
+import {
+	withCache,
+	invalidateClubsCache,
+	createCacheOptions,
+} from '../utils/cacheUtils';
+import { isUserAdmin, getTelegramIdFromRequest } from '../utils/roleUtils';
+import { PUBLISHED_CLUB_WHERE } from '../utils/clubPublication';
+import { AuditLogService, AUDIT_ACTIONS } from '../services/auditLog.service';
+
+// Создаем экземпляр сервиса для хранилища
+const storageService = new StorageService();
+
+// Константы для кэширования
+// Ключи лежат в пространстве клубов, чтобы сбрасываться вместе с кэшем клубов
+// Пользователи видят только опубликованные клубы, поэтому ключи разделены по области видимости
+const CACHE_KEYS = {
+	ALL_LEAGUES: 'cache:clubs:leagues:all:',
+	LEAGUE_CLUBS: 'cache:clubs:leagues:clubs:',
+};
+
+/**
+ * Находит сезон лиги по ID или названию
+ * Возвращает undefined, если сезон не передан, и null, если сезон не найден
+ */
+const resolveLeagueSeason = async (
+	value: any,
+): Promise<string | null | undefined> => {
+	if (value === undefined) return undefined;
+	if (value === '' || value === null) return null;
+
+	const season = await SeasonService.resolveSeason(String(value));
+	return season ? season.id : null;
+};
+
+/**
+ * Создание новой лиги (только для админа)
+ */
+export const createLeague = async (
+	req: TelegramRequest,
+	res: Response,
+	next: NextFunction,
+): Promise<void> => {
+	try {
+		const { name, country, season } = req.body;
+		const file = req.file;
+
+		if (!name) {
+			res.status(400).json({ error: 'Название лиги обязательно' });
+			return;
+		}
+
+		const seasonId = await resolveLeagueSeason(season);
+		if (season && !seasonId) {
+			res.status(400).json({ error: 'Сезон не найден' });
+			return;
+		}
+
+		const isLeagueExists = await prisma.league.findFirst({
+			where: {
+				name,
+				seasonId: seasonId || null,
+			},
+		});
+
+		if (isLeagueExists) {
+			res.status(400).json({ error: 'Лига с таким названием уже существует' });
+			return;
+		}
+
+		// Загружаем логотип в R2, если он передан
+		const logoKey = file
+			? await storageService.uploadFile(file, 'leagues')
+			: '';
+
+		const league = await prisma.league.create({
+			data: {
+				name,
+				country: country || null,
+				logo: logoKey,
+				seasonId: seasonId || null,
+			},
+		});
+
+		const logoUrl = league.logo
+			? await storageService.getFastImageUrl(league.logo, 'logo')
+			: '';
+
+		// Инвалидируем все связанные кэши
+		await invalidateClubsCache();
+
+		await AuditLogService.record(req, {
+			action: AUDIT_ACTIONS.LEAGUE_CREATE,
+			targetType: 'league',
+			targetId: league.id,
+			after: league,
+		});
+
+		res.status(201).json({
+			ok: true,
+			league: {
+				id: league.id,
+				name: league.name,
+				country: league.country,
+				seasonId: league.seasonId,
+				logoUrl,
+			},
+		});
+	} catch (err: any) {
+		console.error('Ошибка при создании лиги:', err);
+		res.status(500).json({ error: 'Ошибка при создании лиги' });
+	}
+};
+
+/**
+ * Получение списка всех лиг (доступно всем пользователям)
+ */
+export const getAllLeagues = async (
+	req: TelegramRequest,
+	res: Response,
+	next: NextFunction,
+): Promise<void> => {
+	try {
+		// Проверяем, является ли пользователь админом
+		const telegramId = getTelegramIdFromRequest(req);
+		const isAdmin = telegramId ? await isUserAdmin(telegramId) : false;
+
+		// Создаем опции кэширования с учетом роли пользователя
+		const cacheOptions = createCacheOptions(isAdmin, { ttl: 3600 });
+
+		const formattedLeagues = await withCache(
+			async () => {
+				const leagues = await prisma.league.findMany({
+					orderBy: [{ country: 'asc' }, { name: 'asc' }],
+					include: {
+						season: { select: { id: true, name: true } },
+						_count: {
+							select: {
+								clubs: {
+									where: {
+										club: isAdmin ? { deletedAt: null } : PUBLISHED_CLUB_WHERE,
+									},
+								},
+							},
+						},
+					},
+				});
+
+				// Собираем все ключи логотипов для батч-обработки
+				const logoKeys = leagues
+					.map((league) => league.logo)
+					.filter(Boolean) as string[];
+
+				const logoUrls = await storageService.getBatchFastUrls(
+					logoKeys,
+					'logo',
+				);
+
+				return leagues.map((league) => ({
+					id: league.id,
+					name: league.name,
+					country: league.country,
+					season: league.season,
+					logoUrl: league.logo ? logoUrls[league.logo] || '' : '',
+					clubsCount: league._count.clubs,
+				}));
+			},
+			`${CACHE_KEYS.ALL_LEAGUES}${isAdmin ? 'admin' : 'published'}`,
+			cacheOptions,
+		);
+
+		res.json({
+			ok: true,
+			leagues: formattedLeagues,
+		});
+	} catch (err: any) {
+		console.error('Ошибка при получении лиг:', err);
+		res.status(500).json({ error: 'Ошибка при получении лиг' });
+	}
+};
+
+/**
+ * Получение клубов лиги (доступно всем пользователям)
+ */
+export const getLeagueClubs = async (
+	req: TelegramRequest,
+	res: Response,
+	next: NextFunction,
+): Promise<void> => {
+	try {
+		const { id } = req.params;
+
+		// Проверяем, является ли пользователь админом
+		const telegramId = getTelegramIdFromRequest(req);
+		const isAdmin = telegramId ? await isUserAdmin(telegramId) : false;
+
+		// Создаем опции кэширования с учетом роли пользователя
+		const cacheOptions = createCacheOptions(isAdmin, { ttl: 3600 });
+
+		const leagueData = await withCache(
+			async () => {
+				const league = await prisma.league.findUnique({
+					where: { id },
+					include: {
+						season: { select: { id: true, name: true } },
+						clubs: {
+							where: {
+								club: isAdmin ? { deletedAt: null } : PUBLISHED_CLUB_WHERE,
+							},
+							include: {
+								club: { select: { id: true, name: true, logo: true } },
+							},
+							orderBy: { club: { name: 'asc' } },
+						},
+					},
+				});
+
+				if (!league) {
+					return null;
+				}
+
+				// Логотипы лиги и клубов получаем одним батчем
+				const logoKeys = [
+					league.logo,
+					...league.clubs.map(({ club }) => club.logo),
+				].filter(Boolean) as string[];
+
+				const logoUrls = await storageService.getBatchFastUrls(
+					logoKeys,
+					'logo',
+				);
+
+				return {
+					id: league.id,
+					name: league.name,
+					country: league.country,
+					season: league.season,
+					logoUrl: league.logo ? logoUrls[league.logo] || '' : '',
+					clubs: league.clubs.map(({ club }) => ({
+						id: club.id,
+						name: club.name,
+						logoUrl: club.logo ? logoUrls[club.logo] || '' : '',
+					})),
+				};
+			},
+			`${CACHE_KEYS.LEAGUE_CLUBS}${isAdmin ? 'admin' : 'published'}:${id}`,
+			cacheOptions,
+		);
+
+		if (!leagueData) {
+			res.status(404).json({ error: 'Лига не найдена' });
+			return;
+		}
+
+		res.json({
+			ok: true,
+			league: leagueData,
+		});
+	} catch (err: any) {
+		console.error('Ошибка при получении клубов лиги:', err);
+		res.status(500).json({ error: 'Ошибка при получении клубов лиги' });
+	}
+};
+
+/**
+ * Обновление информации о лиге (только для админа)
+ */
+export const updateLeague = async (
+	req: TelegramRequest,
+	res: Response,
+	next: NextFunction,
+): Promise<void> => {
+	try {
+		const { id } = req.params;
+		const { name, country, season } = req.body;
+		const file = req.file;
+
+		const league = await prisma.league.findUnique({
+			where: { id },
+		});
+
+		if (!league) {
+			res.status(404).json({ error: 'Лига не найдена' });
+			return;
+		}
+
+		// Пустое значение отвязывает лигу от сезона
+		const resolvedSeasonId = await resolveLeagueSeason(season);
+		if (season && !resolvedSeasonId) {
+			res.status(400).json({ error: 'Сезон не найден' });
+			return;
+		}
+		const seasonId =
+			resolvedSeasonId === undefined ? league.seasonId : resolvedSeasonId;
+
+		if (name && name !== league.name) {
+			const isLeagueExists = await prisma.league.findFirst({
+				where: { name, seasonId, id: { not: id } },
+			});
+
+			if (isLeagueExists) {
+				res
+					.status(400)
+					.json({ error: 'Лига с таким названием уже существует' });
+				return;
+			}
+		}
+
+		let logoKey = league.logo;
+
+		// Если загружен новый файл, обновляем логотип
+		if (file) {
+			if (league.logo) {
+				try {
+					await storageService.deleteFile(league.logo);
+				} catch (error) {
+					console.error('Ошибка при удалении старого логотипа лиги:', error);
+					// Продолжаем выполнение даже при ошибке удаления
+				}
+			}
+
+			logoKey = await storageService.uploadFile(file, 'leagues');
+		}
+
+		const updatedLeague = await prisma.league.update({
+			where: { id },
+			data: {
+				name: name || league.name,
+				country: country !== undefined ? country || null : league.country,
+				logo: logoKey,
+				seasonId,
+			},
+		});
+
+		// Инвалидируем все связанные кэши
+		await invalidateClubsCache();
+
+		await AuditLogService.record(req, {
+			action: AUDIT_ACTIONS.LEAGUE_UPDATE,
+			targetType: 'league',
+			targetId: id,
+			before: league,
+			after: updatedLeague,
+		});
+
+		const logoUrl = updatedLeague.logo
+			? await storageService.getFastImageUrl(updatedLeague.logo, 'logo')
+			: '';
+
+		res.json({
+			ok: true,
+			league: {
+				id: updatedLeague.id,
+				name: updatedLeague.name,
+				country: updatedLeague.country,
+				seasonId: updatedLeague.seasonId,
+				logoUrl,
+			},
+		});
+	} catch (err: any) {
+		console.error('Ошибка при обновлении лиги:', err);
+		res.status(500).json({ error: 'Ошибка при обновлении лиги' });
+	}
+};
+
+/**
+ * Удаление лиги (только для админа)
+ * Клубы лиги не удаляются, снимается только их участие в ней
+ */
+export const deleteLeague = async (
+	req: TelegramRequest,
+	res: Response,
+	next: NextFunction,
+): Promise<void> => {
+	try {
+		const { id } = req.params;
+
+		const league = await prisma.league.findUnique({
+			where: { id },
+		});
+
+		if (!league) {
+			res.status(404).json({ error: 'Лига не найдена' });
+			return;
+		}
+
+		if (league.logo) {
+			try {
+				await storageService.deleteFile(league.logo);
+			} catch (error) {
+				console.error('Ошибка при удалении логотипа лиги:', error);
+				// Продолжаем выполнение даже при ошибке удаления файла
+			}
+		}
+
+		await prisma.league.delete({
+			where: { id },
+		});
+
+		// Инвалидируем все связанные кэши
+		await invalidateClubsCache();
+
+		await AuditLogService.record(req, {
+			action: AUDIT_ACTIONS.LEAGUE_DELETE,
+			targetType: 'league',
+			targetId: id,
+			before: league,
+		});
+
+		res.json({
+			ok: true,
+			message: 'Лига успешно удалена',
+		});
+	} catch (err: any) {
+		console.error('Ошибка при удалении лиги:', err);
+		res.status(500).json({ error: 'Ошибка при удалении лиги' });
+	}
+};
+
+/**
+ * Добавление клуба в лигу (только для админа)
+ */
+export const addClubToLeague = async (
+	req: TelegramRequest,
+	res: Response,
+	next: NextFunction,
+): Promise<void> => {
+	try {
+		const { id } = req.params;
+		const { clubId } = req.body;
+
+		if (!clubId) {
+			res.status(400).json({ error: 'ID клуба обязателен' });
+			return;
+		}
+
+		const [league, club] = await Promise.all([
+			prisma.league.findUnique({ where: { id }, select: { id: true } }),
+			prisma.club.findFirst({
+				where: { id: clubId, deletedAt: null },
+				select: { id: true },
+			}),
+		]);
+
+		if (!league) {
+			res.status(404).json({ error: 'Лига не найдена' });
+			return;
+		}
+
+		if (!club) {
+			res.status(400).json({ error: 'Указанный клуб не существует' });
+			return;
+		}
+
+		await prisma.clubLeague.upsert({
+			where: { leagueId_clubId: { leagueId: id, clubId } },
+			create: { leagueId: id, clubId },
+			update: {},
+		});
+
+		// Инвалидируем все связанные кэши
+		await invalidateClubsCache();
+
+		await AuditLogService.record(req, {
+			action: AUDIT_ACTIONS.LEAGUE_CLUB_ADD,
+			targetType: 'league',
+			targetId: id,
+			after: { leagueId: id, clubId },
+		});
+
+		res.json({
+			ok: true,
+			message: 'Клуб добавлен в лигу',
+		});
+	} catch (err: any) {
+		console.error('Ошибка при добавлении клуба в лигу:', err);
+		res.status(500).json({ error: 'Ошибка при добавлении клуба в лигу' });
+	}
+};
+
+/**
+ * Исключение клуба из лиги (только для админа)
+ */
+export const removeClubFromLeague = async (
+	req: TelegramRequest,
+	res: Response,
+	next: NextFunction,
+): Promise<void> => {
+	try {
+		const { id, clubId } = req.params;
+
+		const { count } = await prisma.clubLeague.deleteMany({
+			where: { leagueId: id, clubId },
+		});
+
+		if (count === 0) {
+			res.status(404).json({ error: 'Клуб не состоит в этой лиге' });
+			return;
+		}
+
+		// Инвалидируем все связанные кэши
+		await invalidateClubsCache();
+
+		await AuditLogService.record(req, {
+			action: AUDIT_ACTIONS.LEAGUE_CLUB_REMOVE,
+			targetType: 'league',
+			targetId: id,
+			before: { leagueId: id, clubId },
+		});
+
+		res.json({
+			ok: true,
+			message: 'Клуб исключен из лиги',
+		});
+	} catch (err: any) {
+		console.error('Ошибка при исключении клуба из лиги:', err);
+		res.status(500).json({ error: 'Ошибка при исключении клуба из лиги' });
+	}
+};
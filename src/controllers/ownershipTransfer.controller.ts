@@ -0,0 +1,138 @@
+import { Response, NextFunction } from 'express';
+import { TelegramRequest } from '../types/api';
+import { OwnershipTransferService } from '../services/ownershipTransfer.service';
+import { AuditLogService, AUDIT_ACTIONS } from '../services/auditLog.service';
+
+/**
+ * Запросить передачу прав владельца другому админу
+ * fromTelegramId - владелец, который передает права (по умолчанию автор запроса)
+ */
+export const requestOwnershipTransfer = async (
+	req: TelegramRequest,
+	res: Response,
+	next: NextFunction,
+): Promise<void> => {
+	try {
+		const { telegramUser, toTelegramId, fromTelegramId } = req.body;
+
+		if (!toTelegramId) {
+			res.status(400).json({ error: 'toTelegramId обязателен' });
+			return;
+		}
+
+		if (!telegramUser) {
+			res.status(400).json({ error: 'Данные пользователя не найдены' });
+			return;
+		}
+
+		const requestedBy = telegramUser.id.toString();
+		const result = await OwnershipTransferService.requestTransfer(
+			fromTelegramId ? String(fromTelegramId) : requestedBy,
+			String(toTelegramId),
+			requestedBy,
+		);
+
+		if (!result.success || !result.transfer) {
+			res.status(400).json({ error: result.message });
+			return;
+		}
+
+		await AuditLogService.record(req, {
+			action: AUDIT_ACTIONS.OWNERSHIP_TRANSFER_REQUEST,
+			targetType: 'ownership_transfer',
+			targetId: result.transfer.id,
+			after: result.transfer,
+		});
+
+		res.status(201).json({
+			ok: true,
+			message: result.message,
+			transfer: result.transfer,
+		});
+	} catch (error) {
+		console.error('Ошибка при запросе передачи прав владельца:', error);
+		res.status(500).json({ error: 'Ошибка сервера' });
+	}
+};
+
+/**
+ * Подтвердить передачу прав владельца (только текущий владелец)
+ */
+export const confirmOwnershipTransfer = async (
+	req: TelegramRequest,
+	res: Response,
+	next: NextFunction,
+): Promise<void> => {
+	try {
+		const { telegramUser } = req.body;
+		const { id } = req.params;
+
+		if (!telegramUser) {
+			res.status(400).json({ error: 'Данные пользователя не найдены' });
+			return;
+		}
+
+		const result = await OwnershipTransferService.confirmTransfer(
+			id,
+			telegramUser.id.toString(),
+		);
+
+		if (!result.success || !result.transfer) {
+			res.status(400).json({ error: result.message });
+			return;
+		}
+
+		await AuditLogService.record(req, {
+			action: AUDIT_ACTIONS.OWNERSHIP_TRANSFER_CONFIRM,
+			targetType: 'ownership_transfer',
+			targetId: id,
+			before: { ownerId: result.transfer.fromTelegramId },
+			after: { ownerId: result.transfer.toTelegramId },
+		});
+
+		res.json({ ok: true, message: result.message });
+	} catch (error) {
+		console.error('Ошибка при подтверждении передачи прав владельца:', error);
+		res.status(500).json({ error: 'Ошибка сервера' });
+	}
+};
+
+/**
+ * Отменить ожидающую передачу прав владельца
+ */
+export const cancelOwnershipTransfer = async (
+	req: TelegramRequest,
+	res: Response,
+	next: NextFunction,
+): Promise<void> => {
+	try {
+		const { telegramUser } = req.body;
+		const { id } = req.params;
+
+		if (!telegramUser) {
+			res.status(400).json({ error: 'Данные пользователя не найдены' });
+			return;
+		}
+
+		const result = await OwnershipTransferService.cancelTransfer(
+			id,
+			telegramUser.id.toString(),
+		);
+
+		if (!result.success) {
+			res.status(400).json({ error: result.message });
+			return;
+		}
+
+		await AuditLogService.record(req, {
+			action: AUDIT_ACTIONS.OWNERSHIP_TRANSFER_CANCEL,
+			targetType: 'ownership_transfer',
+			targetId: id,
+		});
+
+		res.json({ ok: true, message: result.message });
+	} catch (error) {
+		console.error('Ошибка при отмене передачи прав владельца:', error);
+		res.status(500).json({ error: 'Ошибка сервера' });
+	}
+};
@@ -0,0 +1,304 @@
+import { Request, Response, NextFunction } from 'express';
+import { TelegramRequest } from '../types/api';
+import { prisma } from '../prisma';
+import { PlayerCollectionService } from '../services/playerCollection.service';
+import { AuditLogService, AUDIT_ACTIONS } from '../services/auditLog.service';
+import { withCache } from '../utils/cacheUtils';
+
+const MAX_COLLECTION_NAME_LENGTH = 100;
+const MAX_COLLECTION_DESCRIPTION_LENGTH = 500;
+const MAX_COLLECTION_PLAYERS = 100;
+
+// Состояние подборки, которое сохраняется в журнале действий
+const COLLECTION_AUDIT_SELECT = {
+	id: true,
+	name: true,
+	description: true,
+	items: {
+		select: { playerId: true },
+		orderBy: { position: 'asc' as const },
+	},
+};
+
+// Ключи лежат в пространстве клубов, чтобы сбрасываться вместе с кэшем клубов
+const CACHE_KEYS = {
+	ALL_COLLECTIONS: 'cache:clubs:collections:all',
+	COLLECTION_BY_ID: 'cache:clubs:collections:id:',
+};
+
+/**
+ * Проверяет название подборки, возвращает текст ошибки или null
+ */
+const validateCollectionName = (name: any): string | null => {
+	if (typeof name !== 'string' || !name.trim()) {
+		return 'Название подборки обязательно';
+	}
+
+	if (name.trim().length > MAX_COLLECTION_NAME_LENGTH) {
+		return `Название подборки не должно превышать ${MAX_COLLECTION_NAME_LENGTH} символов`;
+	}
+
+	return null;
+};
+
+/**
+ * Проверяет описание подборки, возвращает текст ошибки или null
+ */
+const validateCollectionDescription = (description: any): string | null => {
+	if (description === undefined || description === null) {
+		return null;
+	}
+
+	if (typeof description !== 'string') {
+		return 'Описание подборки должно быть строкой';
+	}
+
+	if (description.trim().length > MAX_COLLECTION_DESCRIPTION_LENGTH) {
+		return `Описание подборки не должно превышать ${MAX_COLLECTION_DESCRIPTION_LENGTH} символов`;
+	}
+
+	return null;
+};
+
+/**
+ * Проверяет список игроков подборки, возвращает текст ошибки или null
+ * Игроки могут быть из любых клубов, но должны существовать
+ */
+const validateCollectionPlayers = async (
+	playerIds: any,
+): Promise<string | null> => {
+	if (
+		!Array.isArray(playerIds) ||
+		playerIds.some((playerId) => typeof playerId !== 'string')
+	) {
+		return 'Список игроков должен быть массивом ID';
+	}
+
+	if (playerIds.length === 0) {
+		return 'Подборка должна содержать хотя бы одного игрока';
+	}
+
+	if (playerIds.length > MAX_COLLECTION_PLAYERS) {
+		return `В подборке может быть не более ${MAX_COLLECTION_PLAYERS} игроков`;
+	}
+
+	if (new Set(playerIds).size !== playerIds.length) {
+		return 'Игроки в подборке не должны повторяться';
+	}
+
+	const existingCount = await prisma.players.count({
+		where: { id: { in: playerIds }, deletedAt: null },
+	});
+
+	if (existingCount !== playerIds.length) {
+		return 'Некоторые игроки не найдены';
+	}
+
+	return null;
+};
+
+/**
+ * Получить список подборок игроков (публичный)
+ */
+export const getPlayerCollections = async (
+	req: Request,
+	res: Response,
+	next: NextFunction,
+): Promise<void> => {
+	try {
+		const collections = await withCache(
+			() => PlayerCollectionService.getCollections(),
+			CACHE_KEYS.ALL_COLLECTIONS,
+			{ ttl: 3600 },
+		);
+
+		res.set('Cache-Control', 'public, max-age=300');
+		res.json({ ok: true, collections });
+	} catch (error) {
+		console.error('Ошибка при получении подборок игроков:', error);
+		res.status(500).json({ error: 'Ошибка при получении подборок' });
+	}
+};
+
+/**
+ * Получить подборку с игроками (публичный)
+ */
+export const getPlayerCollectionById = async (
+	req: Request,
+	res: Response,
+	next: NextFunction,
+): Promise<void> => {
+	try {
+		const { id } = req.params;
+
+		const collection = await withCache(
+			() => PlayerCollectionService.getCollectionById(id),
+			`${CACHE_KEYS.COLLECTION_BY_ID}${id}`,
+			{ ttl: 3600 },
+		);
+
+		if (!collection) {
+			res.status(404).json({ error: 'Подборка не найдена' });
+			return;
+		}
+
+		res.set('Cache-Control', 'public, max-age=300');
+		res.json({ ok: true, collection });
+	} catch (error) {
+		console.error('Ошибка при получении подборки игроков:', error);
+		res.status(500).json({ error: 'Ошибка при получении подборки' });
+	}
+};
+
+/**
+ * Создать подборку игроков
+ */
+export const createPlayerCollection = async (
+	req: TelegramRequest,
+	res: Response,
+	next: NextFunction,
+): Promise<void> => {
+	try {
+		const { name, description, playerIds } = req.body;
+
+		const validationError =
+			validateCollectionName(name) ||
+			validateCollectionDescription(description) ||
+			(await validateCollectionPlayers(playerIds));
+
+		if (validationError) {
+			res.status(400).json({ error: validationError });
+			return;
+		}
+
+		if (await PlayerCollectionService.isNameTaken(name.trim())) {
+			res
+				.status(400)
+				.json({ error: 'Подборка с таким названием уже существует' });
+			return;
+		}
+
+		const collection = await PlayerCollectionService.createCollection({
+			name: name.trim(),
+			description: description?.trim() || null,
+			playerIds,
+		});
+
+		await AuditLogService.record(req, {
+			action: AUDIT_ACTIONS.PLAYER_COLLECTION_CREATE,
+			targetType: 'player_collection',
+			targetId: collection.id,
+			after: { ...collection, playerIds },
+		});
+
+		res.status(201).json({ ok: true, collection });
+	} catch (error) {
+		console.error('Ошибка при создании подборки игроков:', error);
+		res.status(500).json({ error: 'Ошибка при создании подборки' });
+	}
+};
+
+/**
+ * Обновить подборку игроков
+ */
+export const updatePlayerCollection = async (
+	req: TelegramRequest,
+	res: Response,
+	next: NextFunction,
+): Promise<void> => {
+	try {
+		const { id } = req.params;
+		const { name, description, playerIds } = req.body;
+
+		const existing = await prisma.playerCollection.findUnique({
+			where: { id },
+			select: COLLECTION_AUDIT_SELECT,
+		});
+
+		if (!existing) {
+			res.status(404).json({ error: 'Подборка не найдена' });
+			return;
+		}
+
+		const validationError =
+			(name !== undefined ? validateCollectionName(name) : null) ||
+			validateCollectionDescription(description) ||
+			(playerIds !== undefined
+				? await validateCollectionPlayers(playerIds)
+				: null);
+
+		if (validationError) {
+			res.status(400).json({ error: validationError });
+			return;
+		}
+
+		if (
+			name !== undefined &&
+			(await PlayerCollectionService.isNameTaken(name.trim(), id))
+		) {
+			res
+				.status(400)
+				.json({ error: 'Подборка с таким названием уже существует' });
+			return;
+		}
+
+		const collection = await PlayerCollectionService.updateCollection(id, {
+			name: name !== undefined ? name.trim() : undefined,
+			// null или пустая строка удаляют описание
+			description:
+				description !== undefined ? description?.trim() || null : undefined,
+			playerIds,
+		});
+
+		await AuditLogService.record(req, {
+			action: AUDIT_ACTIONS.PLAYER_COLLECTION_UPDATE,
+			targetType: 'player_collection',
+			targetId: id,
+			before: existing,
+			after:
+				playerIds !== undefined ? { ...collection, playerIds } : collection,
+		});
+
+		res.json({ ok: true, collection });
+	} catch (error) {
+		console.error('Ошибка при обновлении подборки игроков:', error);
+		res.status(500).json({ error: 'Ошибка при обновлении подборки' });
+	}
+};
+
+/**
+ * Удалить подборку игроков
+ */
+export const deletePlayerCollection = async (
+	req: TelegramRequest,
+	res: Response,
+	next: NextFunction,
+): Promise<void> => {
+	try {
+		const { id } = req.params;
+
+		const existing = await prisma.playerCollection.findUnique({
+			where: { id },
+			select: COLLECTION_AUDIT_SELECT,
+		});
+
+		if (!existing) {
+			res.status(404).json({ error: 'Подборка не найдена' });
+			return;
+		}
+
+		await PlayerCollectionService.deleteCollection(id);
+
+		await AuditLogService.record(req, {
+			action: AUDIT_ACTIONS.PLAYER_COLLECTION_DELETE,
+			targetType: 'player_collection',
+			targetId: id,
+			before: existing,
+		});
+
+		res.json({ ok: true, message: 'Подборка удалена' });
+	} catch (error) {
+		console.error('Ошибка при удалении подборки игроков:', error);
+		res.status(500).json({ error: 'Ошибка при удалении подборки' });
+	}
+};
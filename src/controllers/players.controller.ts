@@ -3,17 +3,59 @@ import { TelegramRequest, PlayerWithSignedUrl } from '../types/api';
 import { prisma } from '../prisma';
 import { StorageService } from '../services/storage.service';
 import { invalidateCache, invalidateClubsCache } from '../utils/cacheUtils';
+import { SeasonService } from '../services/season.service';
+import { PlayerTransferService } from '../services/playerTransfer.service';
+import { TrashService } from '../services/trash.service';
+import { AuditLogService, AUDIT_ACTIONS } from '../services/auditLog.service';
+import { isPlayerPosition, parsePlayerMetadata } from '../utils/playerMetadata';
+import { isUserAdmin, getTelegramIdFromRequest } from '../utils/roleUtils';
+import { PUBLISHED_CLUB_WHERE } from '../utils/clubPublication';
+import { Prisma } from '../../generated/prisma';
 
 // Создаем экземпляр сервиса для хранилища
 const storageService = new StorageService();
 
 // Константы для кэширования клубов (так как изменения игроков влияют на кэш клубов)
 const CLUB_CACHE_KEYS = {
-	ALL_CLUBS: 'cache:clubs:all',
+	ALL_CLUBS: 'cache:clubs:all:',
 	CLUB_BY_ID: 'cache:clubs:id:',
 	CLUBS_WITH_PLAYERS: 'cache:clubs:with_players:',
 };
 
+// Сортировки списка игроков: поле запроса -> поле модели
+const PLAYER_SORT_FIELDS = {
+	displayOrder: 'displayOrder',
+	name: 'name',
+	shirtNumber: 'shirtNumber',
+	birthDate: 'birthDate',
+	createdAt: 'createdAt',
+} as const;
+
+// Поля, которые могут быть пустыми, сортируются с пустыми значениями в конце
+const NULLABLE_SORT_FIELDS = new Set(['shirtNumber', 'birthDate']);
+
+const PLAYERS_PAGE_LIMIT = {
+	DEFAULT: 50,
+	MAX: 100,
+};
+
+/**
+ * Метаданные игрока для ответа API
+ */
+const formatPlayerMetadata = (player: {
+	position: string | null;
+	shirtNumber: number | null;
+	nationality: string | null;
+	birthDate: Date | null;
+	displayOrder: number;
+}) => ({
+	position: player.position,
+	shirtNumber: player.shirtNumber,
+	nationality: player.nationality,
+	birthDate: player.birthDate,
+	displayOrder: player.displayOrder,
+});
+
 /**
  * Создание нового игрока
  * КРИТИЧЕСКАЯ ОПТИМИЗАЦИЯ: Асинхронная загрузка файлов для быстрого ответа
@@ -40,14 +82,20 @@ export const createPlayer = async (
 			return;
 		}
 
+		const metadata = parsePlayerMetadata(req.body);
+		if (!metadata.valid) {
+			res.status(400).json({ error: metadata.error });
+			return;
+		}
+
 		// ОПТИМИЗАЦИЯ 1: Быстрые проверки с минимальными запросами
 		const [club, existingPlayer] = await Promise.all([
-			prisma.club.findUnique({
-				where: { id: clubId },
+			prisma.club.findFirst({
+				where: { id: clubId, deletedAt: null },
 				select: { id: true }, // Только ID для проверки существования
 			}),
 			prisma.players.findFirst({
-				where: { name, clubId },
+				where: { name, clubId, deletedAt: null },
 				select: { id: true },
 			}),
 		]);
@@ -70,17 +118,33 @@ export const createPlayer = async (
 				name,
 				avatar: '', // Изначально пустой, обновим позже
 				clubId,
+				...metadata.data,
 			},
 			select: {
 				id: true,
 				name: true,
+				position: true,
+				shirtNumber: true,
+				nationality: true,
+				birthDate: true,
+				displayOrder: true,
 			},
 		});
 
+		// Добавляем игрока в состав клуба текущего сезона
+		await SeasonService.joinCurrentRoster(player.id, clubId);
+
 		console.log(`✅ Игрок создан в БД: ${player.id}`, {
 			duration: Date.now() - startTime,
 		});
 
+		await AuditLogService.record(req, {
+			action: AUDIT_ACTIONS.PLAYER_CREATE,
+			targetType: 'player',
+			targetId: player.id,
+			after: { ...player, clubId },
+		});
+
 		// КРИТИЧЕСКАЯ ОПТИМИЗАЦИЯ: Немедленно отвечаем пользователю
 		res.status(201).json({
 			ok: true,
@@ -88,6 +152,7 @@ export const createPlayer = async (
 				id: player.id,
 				name: player.name,
 				avatarUrl: '', // Пока пустой, аватар загрузится асинхронно
+				...formatPlayerMetadata(player),
 			},
 		});
 
@@ -149,6 +214,9 @@ export const createPlayer = async (
 
 /**
  * Получение списка всех игроков
+ * По умолчанию возвращает текущие составы, ?season= - составы указанного сезона
+ * Фильтры: ?clubId=, ?position=; сортировка: ?sort=, ?order=asc|desc
+ * Постраничная выдача по курсору: ?limit= и ?cursor= (ID последнего игрока страницы)
  */
 export const getAllPlayers = async (
 	req: TelegramRequest,
@@ -156,7 +224,109 @@ export const getAllPlayers = async (
 	next: NextFunction,
 ): Promise<void> => {
 	try {
+		const {
+			season: seasonParam,
+			clubId,
+			position,
+			sort = 'displayOrder',
+			order = 'asc',
+			cursor,
+			limit: limitParam,
+		} = req.query;
+
+		if (position !== undefined && !isPlayerPosition(position)) {
+			res.status(400).json({ error: 'Некорректная позиция игрока' });
+			return;
+		}
+
+		if (
+			typeof sort !== 'string' ||
+			!Object.prototype.hasOwnProperty.call(PLAYER_SORT_FIELDS, sort)
+		) {
+			res.status(400).json({
+				error: `Сортировка возможна по полям: ${Object.keys(
+					PLAYER_SORT_FIELDS,
+				).join(', ')}`,
+			});
+			return;
+		}
+
+		if (order !== 'asc' && order !== 'desc') {
+			res.status(400).json({ error: 'Порядок сортировки: asc или desc' });
+			return;
+		}
+
+		// Без limit и cursor возвращается весь список, как и раньше
+		const paginate = limitParam !== undefined || cursor !== undefined;
+		const limit =
+			limitParam !== undefined
+				? parseInt(limitParam as string, 10)
+				: PLAYERS_PAGE_LIMIT.DEFAULT;
+
+		if (isNaN(limit) || limit < 1 || limit > PLAYERS_PAGE_LIMIT.MAX) {
+			res.status(400).json({
+				error: `Лимит должен быть от 1 до ${PLAYERS_PAGE_LIMIT.MAX}`,
+			});
+			return;
+		}
+
+		const season = seasonParam
+			? await SeasonService.resolveSeason(seasonParam as string)
+			: null;
+
+		if (seasonParam && !season) {
+			res.status(404).json({ error: 'Сезон не найден' });
+			return;
+		}
+
+		// Игроки клубов в черновике и архиве видны только админам
+		const telegramId = getTelegramIdFromRequest(req);
+		const isAdmin = telegramId ? await isUserAdmin(telegramId) : false;
+
+		const where: Prisma.PlayersWhereInput = season
+			? {
+					deletedAt: null,
+					rosters: {
+						some: {
+							seasonId: season.id,
+							...(clubId ? { clubId: clubId as string } : {}),
+						},
+					},
+			  }
+			: {
+					deletedAt: null,
+					isActive: true,
+					...(clubId ? { clubId: clubId as string } : {}),
+			  };
+
+		if (!isAdmin) {
+			where.club = PUBLISHED_CLUB_WHERE;
+		}
+
+		if (position) {
+			where.position = position;
+		}
+
+		const sortField =
+			PLAYER_SORT_FIELDS[sort as keyof typeof PLAYER_SORT_FIELDS];
+		// ID в конце сортировки делает порядок стабильным для курсора
+		const orderBy: Prisma.PlayersOrderByWithRelationInput[] = [
+			NULLABLE_SORT_FIELDS.has(sortField)
+				? { [sortField]: { sort: order, nulls: 'last' } }
+				: { [sortField]: order },
+			...(sortField !== 'name' ? [{ name: 'asc' as const }] : []),
+			{ id: 'asc' },
+		];
+
 		const players = await prisma.players.findMany({
+			where,
+			orderBy,
+			...(paginate
+				? {
+						take: limit + 1,
+						...(cursor ? { cursor: { id: cursor as string }, skip: 1 } : {}),
+				  }
+				: {}),
 			include: {
 				club: {
 					select: {
@@ -167,8 +337,12 @@ export const getAllPlayers = async (
 			},
 		});
 
+		// Лишняя запись означает, что есть следующая страница
+		const hasMore = paginate && players.length > limit;
+		const page = hasMore ? players.slice(0, limit) : players;
+
 		// Собираем все ключи аватаров для батч-обработки
-		const avatarKeys = players
+		const avatarKeys = page
 			.map((player) => player.avatar)
 			.filter(Boolean) as string[];
 
@@ -179,15 +353,18 @@ export const getAllPlayers = async (
 		);
 
 		// Формируем ответ с предварительно полученными URL
-		const formattedPlayers = players.map((player) => ({
+		const formattedPlayers = page.map((player) => ({
 			id: player.id,
 			name: player.name,
 			avatarUrl: player.avatar ? avatarUrls[player.avatar] || '' : '',
+			club: player.club,
+			...formatPlayerMetadata(player),
 		}));
 
 		res.json({
 			ok: true,
 			players: formattedPlayers,
+			nextCursor: hasMore ? page[page.length - 1].id : null,
 		});
 	} catch (err: any) {
 		console.error('Ошибка при получении игроков:', err);
@@ -211,9 +388,14 @@ export const getPlayerById = async (
 			return;
 		}
 
-		const player = await prisma.players.findUnique({
+		const telegramId = getTelegramIdFromRequest(req);
+		const isAdmin = telegramId ? await isUserAdmin(telegramId) : false;
+
+		const player = await prisma.players.findFirst({
 			where: {
 				id,
+				deletedAt: null,
+				...(isAdmin ? {} : { club: PUBLISHED_CLUB_WHERE }),
 			},
 			include: {
 				club: {
@@ -230,10 +412,13 @@ export const getPlayerById = async (
 			return;
 		}
 
-		// Генерируем подписанный URL для аватара
-		const avatarUrl = player.avatar
-			? await storageService.getFastImageUrl(player.avatar, 'avatar')
-			: '';
+		// Генерируем подписанный URL для аватара и получаем историю переходов
+		const [avatarUrl, transfers] = await Promise.all([
+			player.avatar
+				? storageService.getFastImageUrl(player.avatar, 'avatar')
+				: Promise.resolve(''),
+			PlayerTransferService.getTransferHistory(player.id),
+		]);
 
 		res.json({
 			ok: true,
@@ -241,12 +426,15 @@ export const getPlayerById = async (
 				id: player.id,
 				name: player.name,
 				avatarUrl,
+				isActive: player.isActive,
+				...formatPlayerMetadata(player),
 				club: player.club
 					? {
 							id: player.club.id,
 							name: player.club.name,
 					  }
 					: null,
+				transfers,
 			},
 		});
 	} catch (err: any) {
@@ -271,6 +459,12 @@ export const updatePlayer = async (
 		const { name, clubId } = req.body;
 		const file = req.file;
 
+		// Поля multipart формы приходят строками
+		const isActive =
+			req.body.isActive === undefined
+				? undefined
+				: req.body.isActive === true || req.body.isActive === 'true';
+
 		console.log(`🔄 Обновление игрока: ${id}`, {
 			name,
 			clubId,
@@ -284,15 +478,27 @@ export const updatePlayer = async (
 			return;
 		}
 
+		const metadata = parsePlayerMetadata(req.body);
+		if (!metadata.valid) {
+			res.status(400).json({ error: metadata.error });
+			return;
+		}
+
 		// ОПТИМИЗАЦИЯ: Параллельные проверки
 		const [player, club] = await Promise.all([
-			prisma.players.findUnique({
-				where: { id },
-				select: { id: true, name: true, avatar: true, clubId: true },
+			prisma.players.findFirst({
+				where: { id, deletedAt: null },
+				select: {
+					id: true,
+					name: true,
+					avatar: true,
+					clubId: true,
+					isActive: true,
+				},
 			}),
 			clubId
-				? prisma.club.findUnique({
-						where: { id: clubId },
+				? prisma.club.findFirst({
+						where: { id: clubId, deletedAt: null },
 						select: { id: true },
 				  })
 				: Promise.resolve(true),
@@ -308,14 +514,44 @@ export const updatePlayer = async (
 			return;
 		}
 
+		const targetClubId = clubId || player.clubId;
+		const targetName = name || player.name;
+
+		// Имя проверяется в клубе, где игрок окажется после обновления
+		if (
+			(targetClubId !== player.clubId || targetName !== player.name) &&
+			(await PlayerTransferService.hasNamesake(targetName, targetClubId, id))
+		) {
+			res.status(400).json({
+				error: 'Игрок с таким именем уже существует в данном клубе',
+			});
+			return;
+		}
+
 		// КРИТИЧЕСКАЯ ОПТИМИЗАЦИЯ: Сначала обновляем основные данные БЕЗ аватара
-		const updatedPlayer = await prisma.players.update({
+		const changes = {
+			name: targetName,
+			isActive: isActive ?? player.isActive,
+			...metadata.data,
+			// avatar оставляем пока прежний
+		};
+
+		// Смена клуба оформляется как трансфер с записью в историю
+		// вместе с остальными изменениями в одной транзакции
+		if (targetClubId !== player.clubId) {
+			await PlayerTransferService.transferPlayer(
+				id,
+				targetClubId,
+				req.body.telegramUser?.id?.toString() || null,
+				new Date(),
+				changes,
+			);
+		} else {
+			await prisma.players.update({ where: { id }, data: changes });
+		}
+
+		const updatedPlayer = await prisma.players.findUniqueOrThrow({
 			where: { id },
-			data: {
-				name: name || player.name,
-				clubId: clubId || player.clubId,
-				// avatar оставляем пока прежний
-			},
 			include: {
 				club: {
 					select: {
@@ -326,16 +562,35 @@ export const updatePlayer = async (
 			},
 		});
 
+		// Обновляем состав текущего сезона при смене активности
+		if (updatedPlayer.isActive !== player.isActive) {
+			if (updatedPlayer.isActive) {
+				await SeasonService.joinCurrentRoster(id, updatedPlayer.clubId);
+			} else {
+				await SeasonService.leaveCurrentRoster(id, updatedPlayer.clubId);
+			}
+		}
+
 		console.log(`✅ Основные данные игрока обновлены: ${id}`, {
 			duration: Date.now() - startTime,
 		});
 
+		await AuditLogService.record(req, {
+			action: AUDIT_ACTIONS.PLAYER_UPDATE,
+			targetType: 'player',
+			targetId: id,
+			before: player,
+			after: updatedPlayer,
+		});
+
 		// КРИТИЧЕСКАЯ ОПТИМИЗАЦИЯ: Немедленно отвечаем пользователю
 		res.json({
 			ok: true,
 			player: {
 				id: updatedPlayer.id,
 				name: updatedPlayer.name,
+				isActive: updatedPlayer.isActive,
+				...formatPlayerMetadata(updatedPlayer),
 				avatarUrl: player.avatar
 					? await storageService.getFastImageUrl(player.avatar, 'avatar')
 					: '',
@@ -414,8 +669,94 @@ export const updatePlayer = async (
 	}
 };
 
+/**
+ * Переход игрока в другой клуб (только для админа)
+ * Сохраняет ID, аватар и историю игрока
+ */
+export const transferPlayer = async (
+	req: TelegramRequest,
+	res: Response,
+	next: NextFunction,
+): Promise<void> => {
+	try {
+		const { id } = req.params;
+		const { toClubId, telegramUser } = req.body;
+
+		if (!toClubId) {
+			res.status(400).json({ error: 'ID нового клуба обязателен' });
+			return;
+		}
+
+		let transferredAt = new Date();
+		if (req.body.transferredAt) {
+			transferredAt = new Date(req.body.transferredAt);
+			if (isNaN(transferredAt.getTime())) {
+				res.status(400).json({ error: 'Некорректная дата перехода' });
+				return;
+			}
+		}
+
+		const [player, club] = await Promise.all([
+			prisma.players.findFirst({
+				where: { id, deletedAt: null },
+				select: { id: true, name: true, clubId: true },
+			}),
+			prisma.club.findFirst({
+				where: { id: toClubId, deletedAt: null },
+				select: { id: true },
+			}),
+		]);
+
+		if (!player) {
+			res.status(404).json({ error: 'Игрок не найден' });
+			return;
+		}
+
+		if (!club) {
+			res.status(400).json({ error: 'Указанный клуб не существует' });
+			return;
+		}
+
+		if (player.clubId === toClubId) {
+			res.status(400).json({ error: 'Игрок уже состоит в этом клубе' });
+			return;
+		}
+
+		if (await PlayerTransferService.hasNamesake(player.name, toClubId, id)) {
+			res.status(400).json({
+				error: 'Игрок с таким именем уже существует в данном клубе',
+			});
+			return;
+		}
+
+		const transfer = await PlayerTransferService.transferPlayer(
+			id,
+			toClubId,
+			telegramUser?.id?.toString() || null,
+			transferredAt,
+		);
+
+		await AuditLogService.record(req, {
+			action: AUDIT_ACTIONS.PLAYER_TRANSFER,
+			targetType: 'player',
+			targetId: id,
+			before: { clubId: player.clubId },
+			after: transfer,
+		});
+
+		res.json({
+			ok: true,
+			transfer,
+		});
+	} catch (err: any) {
+		console.error('Ошибка при переходе игрока:', err);
+		res.status(500).json({ error: 'Ошибка при переходе игрока' });
+	}
+};
+
 /**
  * Удаление игрока
+ * Игрок перемещается в корзину и удаляется окончательно после срока хранения
  */
 export const deletePlayer = async (
 	req: TelegramRequest,
@@ -431,10 +772,12 @@ export const deletePlayer = async (
 		}
 
 		// Проверяем существование игрока
-		const player = await prisma.players.findUnique({
+		const player = await prisma.players.findFirst({
 			where: {
 				id,
+				deletedAt: null,
 			},
+			select: { id: true, name: true, clubId: true, isActive: true },
 		});
 
 		if (!player) {
@@ -442,27 +785,18 @@ export const deletePlayer = async (
 			return;
 		}
 
-		// Если у игрока был аватар, удаляем его
-		if (player.avatar) {
-			try {
-				await storageService.deleteFile(player.avatar);
-			} catch (error) {
-				console.error('Ошибка при удалении аватара:', error);
-				// Продолжаем выполнение даже при ошибке удаления файла
-			}
-		}
+		await TrashService.softDeletePlayer(id);
 
-		// Удаляем игрока
-		await prisma.players.delete({
-			where: { id },
+		await AuditLogService.record(req, {
+			action: AUDIT_ACTIONS.PLAYER_DELETE,
+			targetType: 'player',
+			targetId: id,
+			before: player,
 		});
 
-		// Инвалидируем кэш клубов полностью, так как удалился игрок
-		await invalidateClubsCache();
-
 		res.json({
 			ok: true,
-			message: 'Игрок успешно удален',
+			message: 'Игрок перемещен в корзину',
 		});
 	} catch (err: any) {
 		console.error('Ошибка при удалении игрока:', err);
@@ -0,0 +1,76 @@
+import { Response, NextFunction } from 'express';
+import { TelegramRequest } from '../types/api';
+import { SearchService, SearchResultType } from '../services/search.service';
+import { isUserAdmin, getTelegramIdFromRequest } from '../utils/roleUtils';
+
+const SEARCH_LIMITS = {
+	MIN_QUERY_LENGTH: 2,
+	MAX_QUERY_LENGTH: 100,
+	DEFAULT_RESULTS: 10,
+	MAX_RESULTS: 30,
+};
+
+const SEARCH_TYPES: SearchResultType[] = ['club', 'player'];
+
+/**
+ * Поиск клубов и игроков по названию
+ * ?q= - запрос, ?type=club|player - ограничить тип результатов, ?limit= - количество
+ * Админы дополнительно находят неактивных игроков и неопубликованные клубы
+ */
+export const search = async (
+	req: TelegramRequest,
+	res: Response,
+	next: NextFunction,
+): Promise<void> => {
+	try {
+		const { q, type, limit } = req.query;
+
+		if (
+			typeof q !== 'string' ||
+			q.trim().length < SEARCH_LIMITS.MIN_QUERY_LENGTH
+		) {
+			res.status(400).json({
+				error: `Запрос должен содержать не менее ${SEARCH_LIMITS.MIN_QUERY_LENGTH} символов`,
+			});
+			return;
+		}
+
+		if (q.length > SEARCH_LIMITS.MAX_QUERY_LENGTH) {
+			res.status(400).json({
+				error: `Запрос не должен превышать ${SEARCH_LIMITS.MAX_QUERY_LENGTH} символов`,
+			});
+			return;
+		}
+
+		if (
+			type !== undefined &&
+			!SEARCH_TYPES.includes(type as SearchResultType)
+		) {
+			res.status(400).json({ error: 'Тип поиска: club или player' });
+			return;
+		}
+
+		const limitNumber = Math.min(
+			Math.max(parseInt(limit as string) || SEARCH_LIMITS.DEFAULT_RESULTS, 1),
+			SEARCH_LIMITS.MAX_RESULTS,
+		);
+
+		const telegramId = getTelegramIdFromRequest(req);
+		const isAdmin = telegramId ? await isUserAdmin(telegramId) : false;
+
+		const results = await SearchService.search(q.trim(), {
+			types: type ? [type as SearchResultType] : SEARCH_TYPES,
+			limit: limitNumber,
+			includeHidden: isAdmin,
+		});
+
+		res.json({
+			ok: true,
+			query: q.trim(),
+			...results,
+		});
+	} catch (error) {
+		console.error('Ошибка при поиске:', error);
+		res.status(500).json({ error: 'Ошибка при поиске' });
+	}
+};
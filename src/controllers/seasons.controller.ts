@@ -0,0 +1,219 @@
+import { Response, NextFunction } from 'express';
+import { TelegramRequest } from '../types/api';
+import { prisma } from '../prisma';
+import { SeasonService } from '../services/season.service';
+import { AuditLogService, AUDIT_ACTIONS } from '../services/auditLog.service';
+
+/**
+ * Разбирает дату из тела запроса, возвращает undefined для пустого значения
+ * и null для некорректной даты
+ */
+const parseDate = (value: any): Date | undefined | null => {
+	if (value === undefined || value === '') return undefined;
+
+	const date = new Date(value);
+	return isNaN(date.getTime()) ? null : date;
+};
+
+/**
+ * Получить список сезонов
+ */
+export const getSeasons = async (
+	req: TelegramRequest,
+	res: Response,
+	next: NextFunction,
+): Promise<void> => {
+	try {
+		const seasons = await SeasonService.getSeasons();
+		res.json({ ok: true, seasons });
+	} catch (error) {
+		console.error('Ошибка при получении сезонов:', error);
+		res.status(500).json({ error: 'Ошибка при получении сезонов' });
+	}
+};
+
+/**
+ * Создать сезон
+ * По умолчанию новый сезон становится текущим и получает копию текущих составов
+ */
+export const createSeason = async (
+	req: TelegramRequest,
+	res: Response,
+	next: NextFunction,
+): Promise<void> => {
+	try {
+		const { name, makeCurrent } = req.body;
+		const startDate = parseDate(req.body.startDate);
+		const endDate = parseDate(req.body.endDate);
+
+		if (typeof name !== 'string' || !name.trim()) {
+			res.status(400).json({ error: 'Название сезона обязательно' });
+			return;
+		}
+
+		if (startDate === null || endDate === null) {
+			res.status(400).json({ error: 'Некорректная дата сезона' });
+			return;
+		}
+
+		const existing = await SeasonService.resolveSeason(name.trim());
+		if (existing) {
+			res.status(400).json({ error: 'Сезон с таким названием уже существует' });
+			return;
+		}
+
+		const season = await SeasonService.createSeason({
+			name: name.trim(),
+			startDate: startDate || new Date(),
+			endDate,
+			makeCurrent: makeCurrent !== false,
+		});
+
+		await AuditLogService.record(req, {
+			action: AUDIT_ACTIONS.SEASON_CREATE,
+			targetType: 'season',
+			targetId: season.id,
+			after: season,
+		});
+
+		res.status(201).json({ ok: true, season });
+	} catch (error) {
+		console.error('Ошибка при создании сезона:', error);
+		res.status(500).json({ error: 'Ошибка при создании сезона' });
+	}
+};
+
+/**
+ * Обновить сезон
+ */
+export const updateSeason = async (
+	req: TelegramRequest,
+	res: Response,
+	next: NextFunction,
+): Promise<void> => {
+	try {
+		const { id } = req.params;
+		const { name } = req.body;
+		const startDate = parseDate(req.body.startDate);
+		const endDate =
+			req.body.endDate === null ? undefined : parseDate(req.body.endDate);
+
+		const season = await prisma.season.findUnique({ where: { id } });
+		if (!season) {
+			res.status(404).json({ error: 'Сезон не найден' });
+			return;
+		}
+
+		if (name !== undefined && (typeof name !== 'string' || !name.trim())) {
+			res.status(400).json({ error: 'Название сезона обязательно' });
+			return;
+		}
+
+		if (startDate === null || endDate === null) {
+			res.status(400).json({ error: 'Некорректная дата сезона' });
+			return;
+		}
+
+		if (name !== undefined) {
+			const existing = await SeasonService.resolveSeason(name.trim());
+			if (existing && existing.id !== id) {
+				res
+					.status(400)
+					.json({ error: 'Сезон с таким названием уже существует' });
+				return;
+			}
+		}
+
+		const updated = await SeasonService.updateSeason(id, {
+			name: name !== undefined ? name.trim() : undefined,
+			startDate,
+			// null в теле запроса снимает дату окончания
+			endDate: req.body.endDate === null ? null : endDate,
+		});
+
+		await AuditLogService.record(req, {
+			action: AUDIT_ACTIONS.SEASON_UPDATE,
+			targetType: 'season',
+			targetId: id,
+			before: season,
+			after: updated,
+		});
+
+		res.json({ ok: true, season: updated });
+	} catch (error) {
+		console.error('Ошибка при обновлении сезона:', error);
+		res.status(500).json({ error: 'Ошибка при обновлении сезона' });
+	}
+};
+
+/**
+ * Сделать сезон текущим
+ */
+export const setCurrentSeason = async (
+	req: TelegramRequest,
+	res: Response,
+	next: NextFunction,
+): Promise<void> => {
+	try {
+		const { id } = req.params;
+
+		const season = await prisma.season.findUnique({ where: { id } });
+		if (!season) {
+			res.status(404).json({ error: 'Сезон не найден' });
+			return;
+		}
+
+		const updated = await SeasonService.setCurrentSeason(id);
+
+		await AuditLogService.record(req, {
+			action: AUDIT_ACTIONS.SEASON_SET_CURRENT,
+			targetType: 'season',
+			targetId: id,
+			before: season,
+			after: updated,
+		});
+
+		res.json({ ok: true, season: updated });
+	} catch (error) {
+		console.error('Ошибка при смене текущего сезона:', error);
+		res.status(500).json({ error: 'Ошибка при смене текущего сезона' });
+	}
+};
+
+/**
+ * Удалить сезон (текущий сезон удалить нельзя)
+ */
+export const deleteSeason = async (
+	req: TelegramRequest,
+	res: Response,
+	next: NextFunction,
+): Promise<void> => {
+	try {
+		const { id } = req.params;
+
+		const season = await prisma.season.findUnique({ where: { id } });
+		if (!season) {
+			res.status(404).json({ error: 'Сезон не найден' });
+			return;
+		}
+
+		if (season.isCurrent) {
+			res.status(400).json({ error: 'Нельзя удалить текущий сезон' });
+			return;
+		}
+
+		await SeasonService.deleteSeason(id);
+
+		await AuditLogService.record(req, {
+			action: AUDIT_ACTIONS.SEASON_DELETE,
+			targetType: 'season',
+			targetId: id,
+			before: season,
+		});
+
+		res.json({ ok: true, message: 'Сезон удален' });
+	} catch (error) {
+		console.error('Ошибка при удалении сезона:', error);
+		res.status(500).json({ error: 'Ошибка при удалении сезона' });
+	}
+};
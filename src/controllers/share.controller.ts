@@ -13,6 +13,9 @@ import path from 'path';
 import { logger } from '../utils/logger';
 import { testBufferConversion, diagnoseBuffer } from '../utils/bufferTest';
 import { AnalyticsService, EventType } from '../services/analytics.service';
+import { TierListService } from '../services/tierList.service';
+import { buildTierListDeepLink } from '../utils/shareLinks';
+import { TierListComparisonService } from '../services/tierListComparison.service';
 
 /**
  * Контроллер для обработки функций шаринга
@@ -63,6 +66,8 @@ export class ShareController {
 				categorizedPlayerIds: shareData.categorizedPlayerIds,
 				categories: shareData.categories,
 				clubId: shareData.clubId,
+				collectionId: shareData.collectionId,
+				playerCaption: shareData.playerCaption,
 			};
 
 			// Генерируем изображение с оптимальными настройками
@@ -110,6 +115,37 @@ export class ShareController {
 				'IMAGE_GENERATION',
 			);
 
+			// Сохраняем тир-лист пользователя и получаем код публичной ссылки
+			let tierListId: string | undefined;
+			let shareCode: string | undefined;
+			let hotTakeLine = '';
+			try {
+				const tierList = await TierListService.saveTierList(
+					telegramUser.id.toString(),
+					imageData,
+				);
+				tierListId = tierList.id;
+				shareCode = await TierListService.ensureShareCode(tierList.id);
+
+				// Самая спорная позиция относительно сообщества для подписи
+				// Общий тир-лист строится только по клубам
+				if (tierList.clubId) {
+					const hotTake = await TierListComparisonService.getCaptionHotTake(
+						tierList,
+					);
+					if (hotTake) {
+						hotTakeLine = `\n\n🌶 Хот-тейк: ${hotTake.name} в «${hotTake.category}», а сообщество ставит в «${hotTake.communityCategory}»`;
+					}
+				}
+			} catch (saveError) {
+				// Не прерываем отправку изображения при ошибке сохранения
+				logger.error(
+					'Ошибка сохранения тир-листа',
+					'IMAGE_GENERATION',
+					saveError as Error,
+				);
+			}
+
 			if (imageSizeMB > 10) {
 				logger.warn(
 					`Изображение слишком большое: ${imageSizeMB.toFixed(2)}MB`,
@@ -118,7 +154,10 @@ export class ShareController {
 			}
 
 			// Отправляем изображение пользователю в Telegram
-			const caption = `🏆 ТИР-ЛИСТ "${club.name.toUpperCase()}"\n\n⚽ Создай свой и делись с друзьями в @${
+			const shareUrl = shareCode ? buildTierListDeepLink(shareCode) : undefined;
+			const caption = `🏆 ТИР-ЛИСТ "${club.name.toUpperCase()}"${hotTakeLine}${
+				shareUrl ? `\n\n👀 Открыть этот тир-лист: ${shareUrl}` : ''
+			}\n\n⚽ Создай свой и делись с друзьями в @${
 				config.telegram.botUsername
 			}`;
 
@@ -295,6 +334,9 @@ export class ShareController {
 				success: true,
 				message: 'Изображение успешно отправлено в чат',
 				closeWebApp: true,
+				tierListId,
+				shareCode,
+				shareUrl,
 			});
 		} catch (error) {
 			logger.error(
@@ -313,9 +355,15 @@ export class ShareController {
 	 */
 	public previewImage = async (req: Request, res: Response) => {
 		try {
-			const { categorizedPlayerIds, categories, clubId } = req.body;
-
-			if (!categorizedPlayerIds || !categories || !clubId) {
+			const {
+				categorizedPlayerIds,
+				categories,
+				clubId,
+				collectionId,
+				playerCaption,
+			} = req.body;
+
+			if (!categorizedPlayerIds || !categories || !(clubId || collectionId)) {
 				res.status(400).json({
 					error: 'Отсутствуют обязательные параметры',
 				});
@@ -327,6 +375,8 @@ export class ShareController {
 					categorizedPlayerIds,
 					categories,
 					clubId,
+					collectionId,
+					playerCaption,
 				},
 				{ quality: 75, width: 550, height: 800 }, // Сжатое качество для превью
 			);
@@ -355,9 +405,15 @@ export class ShareController {
 	 */
 	public downloadImage = async (req: Request, res: Response) => {
 		try {
-			const { categorizedPlayerIds, categories, clubId } = req.body;
-
-			if (!categorizedPlayerIds || !categories || !clubId) {
+			const {
+				categorizedPlayerIds,
+				categories,
+				clubId,
+				collectionId,
+				playerCaption,
+			} = req.body;
+
+			if (!categorizedPlayerIds || !categories || !(clubId || collectionId)) {
 				res.status(400).json({
 					error: 'Отсутствуют обязательные параметры',
 				});
@@ -370,6 +426,8 @@ export class ShareController {
 						categorizedPlayerIds,
 						categories,
 						clubId,
+						collectionId,
+						playerCaption,
 					},
 					{
 						quality: 90, // Еще выше качество для аватарок
@@ -0,0 +1,251 @@
+import { Request, Response, NextFunction } from 'express';
+import { TelegramRequest } from '../types/api';
+import { TierListService, TierListData } from '../services/tierList.service';
+import { isValidShareCode } from '../utils/shareLinks';
+import { TierListComparisonService } from '../services/tierListComparison.service';
+
+/**
+ * Формирует ответ с тир-листом без telegram ID автора
+ */
+const formatTierListResponse = (tierList: TierListData, telegramId: string) => {
+	const { telegramId: ownerId, ...rest } = tierList;
+
+	return {
+		...rest,
+		isOwner: ownerId === telegramId,
+	};
+};
+
+/**
+ * Ищет тир-лист по ID или по коду публичной ссылки
+ */
+const findTierList = (idOrCode: string): Promise<TierListData | null> =>
+	isValidShareCode(idOrCode)
+		? TierListService.getTierListByShareCode(idOrCode)
+		: TierListService.getTierListById(idOrCode);
+
+/**
+ * Получает тир-листы текущего пользователя
+ */
+export const getMyTierLists = async (
+	req: TelegramRequest,
+	res: Response,
+	next: NextFunction,
+): Promise<void> => {
+	try {
+		const { telegramUser } = req.body;
+		const { limit } = req.query;
+
+		if (!telegramUser) {
+			res.status(400).json({ error: 'Данные пользователя не найдены' });
+			return;
+		}
+
+		const limitNumber = Math.min(
+			Math.max(parseInt(limit as string) || 20, 1),
+			100,
+		);
+
+		const telegramId = telegramUser.id.toString();
+		const tierLists = await TierListService.getUserTierLists(
+			telegramId,
+			limitNumber,
+		);
+
+		res.json({
+			ok: true,
+			tierLists: tierLists.map((tierList) =>
+				formatTierListResponse(tierList, telegramId),
+			),
+		});
+	} catch (error) {
+		console.error('Ошибка при получении тир-листов пользователя:', error);
+		res.status(500).json({ error: 'Ошибка при получении тир-листов' });
+	}
+};
+
+/**
+ * Получает тир-лист по ID
+ */
+export const getTierListById = async (
+	req: TelegramRequest,
+	res: Response,
+	next: NextFunction,
+): Promise<void> => {
+	try {
+		const { telegramUser } = req.body;
+		const { id } = req.params;
+
+		if (!telegramUser) {
+			res.status(400).json({ error: 'Данные пользователя не найдены' });
+			return;
+		}
+
+		if (!id) {
+			res.status(400).json({ error: 'ID тир-листа обязателен' });
+			return;
+		}
+
+		const tierList = await TierListService.getTierListById(id);
+
+		if (!tierList) {
+			res.status(404).json({ error: 'Тир-лист не найден' });
+			return;
+		}
+
+		res.json({
+			ok: true,
+			tierList: formatTierListResponse(tierList, telegramUser.id.toString()),
+		});
+	} catch (error) {
+		console.error('Ошибка при получении тир-листа:', error);
+		res.status(500).json({ error: 'Ошибка при получении тир-листа' });
+	}
+};
+
+/**
+ * Сравнивает два тир-листа одного клуба
+ * Тир-лист друга можно указать кодом публичной ссылки
+ */
+export const compareTierLists = async (
+	req: TelegramRequest,
+	res: Response,
+	next: NextFunction,
+): Promise<void> => {
+	try {
+		const { telegramUser } = req.body;
+		const { a, b } = req.params;
+
+		if (!telegramUser) {
+			res.status(400).json({ error: 'Данные пользователя не найдены' });
+			return;
+		}
+
+		const [tierListA, tierListB] = await Promise.all([
+			findTierList(a),
+			findTierList(b),
+		]);
+
+		if (!tierListA || !tierListB) {
+			res.status(404).json({ error: 'Тир-лист не найден' });
+			return;
+		}
+
+		if (!tierListA.clubId || tierListA.clubId !== tierListB.clubId) {
+			res
+				.status(400)
+				.json({ error: 'Сравнивать можно только тир-листы одного клуба' });
+			return;
+		}
+
+		const telegramId = telegramUser.id.toString();
+		const comparison = await TierListComparisonService.compare(
+			tierListA,
+			tierListB,
+		);
+
+		res.json({
+			ok: true,
+			tierListA: formatTierListResponse(tierListA, telegramId),
+			tierListB: formatTierListResponse(tierListB, telegramId),
+			comparison,
+		});
+	} catch (error) {
+		console.error('Ошибка при сравнении тир-листов:', error);
+		res.status(500).json({ error: 'Ошибка при сравнении тир-листов' });
+	}
+};
+
+/**
+ * Получает самые спорные позиции тир-листа относительно мнения сообщества
+ */
+export const getTierListHotTakes = async (
+	req: TelegramRequest,
+	res: Response,
+	next: NextFunction,
+): Promise<void> => {
+	try {
+		const { telegramUser } = req.body;
+		const { id } = req.params;
+		const { limit } = req.query;
+
+		if (!telegramUser) {
+			res.status(400).json({ error: 'Данные пользователя не найдены' });
+			return;
+		}
+
+		const tierList = await findTierList(id);
+
+		if (!tierList) {
+			res.status(404).json({ error: 'Тир-лист не найден' });
+			return;
+		}
+
+		if (!tierList.clubId) {
+			res.status(400).json({
+				error: tierList.collectionId
+					? 'Мнение сообщества доступно только для тир-листов клубов'
+					: 'Клуб тир-листа был удален',
+			});
+			return;
+		}
+
+		const limitNumber = Math.min(
+			Math.max(parseInt(limit as string) || 10, 1),
+			50,
+		);
+
+		const hotTakes = await TierListComparisonService.compareWithCommunity(
+			tierList,
+			limitNumber,
+		);
+
+		res.json({
+			ok: true,
+			tierList: formatTierListResponse(tierList, telegramUser.id.toString()),
+			...hotTakes,
+		});
+	} catch (error) {
+		console.error('Ошибка при расчете хот-тейков:', error);
+		res.status(500).json({ error: 'Ошибка при расчете хот-тейков' });
+	}
+};
+
+/**
+ * Получает публичный тир-лист по коду ссылки (без авторизации)
+ */
+export const getPublicTierList = async (
+	req: Request,
+	res: Response,
+	next: NextFunction,
+): Promise<void> => {
+	try {
+		const { code } = req.params;
+
+		if (!isValidShareCode(code)) {
+			res.status(404).json({ error: 'Тир-лист не найден' });
+			return;
+		}
+
+		const tierList = await TierListService.getPublicTierList(code);
+
+		if (!tierList) {
+			res.status(404).json({ error: 'Тир-лист не найден' });
+			return;
+		}
+
+		// Расстановка по коду не меняется, поэтому разрешаем публичное кэширование
+		res.set(
+			'Cache-Control',
+			'public, max-age=300, stale-while-revalidate=3600',
+		);
+
+		res.json({
+			ok: true,
+			tierList,
+		});
+	} catch (error) {
+		console.error('Ошибка при получении публичного тир-листа:', error);
+		res.status(500).json({ error: 'Ошибка при получении тир-листа' });
+	}
+};
@@ -0,0 +1,250 @@
+import { Response, NextFunction } from 'express';
+import { TelegramRequest } from '../types/api';
+import { TierTemplateService } from '../services/tierTemplate.service';
+import { AuditLogService, AUDIT_ACTIONS } from '../services/auditLog.service';
+import {
+	ShareDataFieldError,
+	validateCategories,
+} from '../utils/shareDataValidator';
+
+const MAX_TEMPLATE_NAME_LENGTH = 100;
+
+/**
+ * Формирует ответ 400 с ошибками валидации шаблона
+ */
+const sendTemplateValidationError = (
+	res: Response,
+	errors: ShareDataFieldError[],
+): void => {
+	res.status(400).json({
+		error: 'Некорректные данные шаблона',
+		code: 'VALIDATION_ERROR',
+		fields: errors,
+	});
+};
+
+/**
+ * Проверяет название шаблона, возвращает текст ошибки или null
+ */
+const validateTemplateName = (name: any): string | null => {
+	if (typeof name !== 'string' || !name.trim()) {
+		return 'Название шаблона обязательно';
+	}
+
+	if (name.trim().length > MAX_TEMPLATE_NAME_LENGTH) {
+		return `Название шаблона не должно превышать ${MAX_TEMPLATE_NAME_LENGTH} символов`;
+	}
+
+	return null;
+};
+
+/**
+ * Проверяет флаги подписей под аватарами, возвращает текст ошибки или null
+ */
+const validateCaptionFlags = (...flags: any[]): string | null => {
+	if (flags.some((flag) => flag !== undefined && typeof flag !== 'boolean')) {
+		return 'Флаги showShirtNumber и showPosition должны быть boolean';
+	}
+
+	return null;
+};
+
+/**
+ * Получить список шаблонов категорий
+ */
+export const getTierTemplates = async (
+	req: TelegramRequest,
+	res: Response,
+	next: NextFunction,
+): Promise<void> => {
+	try {
+		const templates = await TierTemplateService.getTemplates();
+		res.json({ ok: true, templates });
+	} catch (error) {
+		console.error('Ошибка при получении шаблонов категорий:', error);
+		res.status(500).json({ error: 'Ошибка при получении шаблонов' });
+	}
+};
+
+/**
+ * Получить шаблон категорий по ID
+ */
+export const getTierTemplateById = async (
+	req: TelegramRequest,
+	res: Response,
+	next: NextFunction,
+): Promise<void> => {
+	try {
+		const { id } = req.params;
+
+		const template = await TierTemplateService.getTemplateById(id);
+
+		if (!template) {
+			res.status(404).json({ error: 'Шаблон не найден' });
+			return;
+		}
+
+		res.json({ ok: true, template });
+	} catch (error) {
+		console.error('Ошибка при получении шаблона категорий:', error);
+		res.status(500).json({ error: 'Ошибка при получении шаблона' });
+	}
+};
+
+/**
+ * Создать шаблон категорий
+ */
+export const createTierTemplate = async (
+	req: TelegramRequest,
+	res: Response,
+	next: NextFunction,
+): Promise<void> => {
+	try {
+		const { name, categories, showShirtNumber, showPosition } = req.body;
+
+		const nameError = validateTemplateName(name);
+		if (nameError) {
+			res.status(400).json({ error: nameError });
+			return;
+		}
+
+		const captionError = validateCaptionFlags(showShirtNumber, showPosition);
+		if (captionError) {
+			res.status(400).json({ error: captionError });
+			return;
+		}
+
+		const errors = validateCategories(categories);
+		if (errors.length > 0) {
+			sendTemplateValidationError(res, errors);
+			return;
+		}
+
+		if (await TierTemplateService.isNameTaken(name.trim())) {
+			res
+				.status(400)
+				.json({ error: 'Шаблон с таким названием уже существует' });
+			return;
+		}
+
+		const template = await TierTemplateService.createTemplate(
+			name.trim(),
+			categories,
+			{ showShirtNumber, showPosition },
+		);
+
+		await AuditLogService.record(req, {
+			action: AUDIT_ACTIONS.TIER_TEMPLATE_CREATE,
+			targetType: 'tier_template',
+			targetId: template.id,
+			after: template,
+		});
+
+		res.status(201).json({ ok: true, template });
+	} catch (error) {
+		console.error('Ошибка при создании шаблона категорий:', error);
+		res.status(500).json({ error: 'Ошибка при создании шаблона' });
+	}
+};
+
+/**
+ * Обновить шаблон категорий
+ */
+export const updateTierTemplate = async (
+	req: TelegramRequest,
+	res: Response,
+	next: NextFunction,
+): Promise<void> => {
+	try {
+		const { id } = req.params;
+		const { name, categories, showShirtNumber, showPosition } = req.body;
+
+		const existing = await TierTemplateService.getTemplateById(id);
+		if (!existing) {
+			res.status(404).json({ error: 'Шаблон не найден' });
+			return;
+		}
+
+		if (name !== undefined) {
+			const nameError = validateTemplateName(name);
+			if (nameError) {
+				res.status(400).json({ error: nameError });
+				return;
+			}
+
+			if (await TierTemplateService.isNameTaken(name.trim(), id)) {
+				res
+					.status(400)
+					.json({ error: 'Шаблон с таким названием уже существует' });
+				return;
+			}
+		}
+
+		const captionError = validateCaptionFlags(showShirtNumber, showPosition);
+		if (captionError) {
+			res.status(400).json({ error: captionError });
+			return;
+		}
+
+		if (categories !== undefined) {
+			const errors = validateCategories(categories);
+			if (errors.length > 0) {
+				sendTemplateValidationError(res, errors);
+				return;
+			}
+		}
+
+		const template = await TierTemplateService.updateTemplate(id, {
+			name: name !== undefined ? name.trim() : undefined,
+			categories,
+			showShirtNumber,
+			showPosition,
+		});
+
+		await AuditLogService.record(req, {
+			action: AUDIT_ACTIONS.TIER_TEMPLATE_UPDATE,
+			targetType: 'tier_template',
+			targetId: id,
+			before: existing,
+			after: template,
+		});
+
+		res.json({ ok: true, template });
+	} catch (error) {
+		console.error('Ошибка при обновлении шаблона категорий:', error);
+		res.status(500).json({ error: 'Ошибка при обновлении шаблона' });
+	}
+};
+
+/**
+ * Удалить шаблон категорий
+ */
+export const deleteTierTemplate = async (
+	req: TelegramRequest,
+	res: Response,
+	next: NextFunction,
+): Promise<void> => {
+	try {
+		const { id } = req.params;
+
+		const existing = await TierTemplateService.getTemplateById(id);
+		if (!existing) {
+			res.status(404).json({ error: 'Шаблон не найден' });
+			return;
+		}
+
+		await TierTemplateService.deleteTemplate(id);
+
+		await AuditLogService.record(req, {
+			action: AUDIT_ACTIONS.TIER_TEMPLATE_DELETE,
+			targetType: 'tier_template',
+			targetId: id,
+			before: existing,
+		});
+
+		res.json({ ok: true, message: 'Шаблон удален' });
+	} catch (error) {
+		console.error('Ошибка при удалении шаблона категорий:', error);
+		res.status(500).json({ error: 'Ошибка при удалении шаблона' });
+	}
+};
@@ -0,0 +1,97 @@
+import { Response, NextFunction } from 'express';
+import { TelegramRequest } from '../types/api';
+import { TrashService, TrashItemType } from '../services/trash.service';
+import { StorageService } from '../services/storage.service';
+import { AuditLogService, AUDIT_ACTIONS } from '../services/auditLog.service';
+import { config } from '../config/env';
+
+const storageService = new StorageService();
+
+const TRASH_ITEM_TYPES: TrashItemType[] = ['club', 'player'];
+
+/**
+ * Получение содержимого корзины (только для админа)
+ */
+export const getTrash = async (
+	req: TelegramRequest,
+	res: Response,
+	next: NextFunction,
+): Promise<void> => {
+	try {
+		const { clubs, players } = await TrashService.getTrash();
+
+		const [logoUrls, avatarUrls] = await Promise.all([
+			storageService.getBatchFastUrls(
+				clubs.map((club) => club.logo).filter(Boolean),
+				'logo',
+			),
+			storageService.getBatchFastUrls(
+				players.map((player) => player.avatar).filter(Boolean),
+				'avatar',
+			),
+		]);
+
+		res.json({
+			ok: true,
+			retentionDays: config.trash.retentionDays,
+			clubs: clubs.map(({ logo, ...club }) => ({
+				...club,
+				logoUrl: logo ? logoUrls[logo] || '' : '',
+			})),
+			players: players.map(({ avatar, ...player }) => ({
+				...player,
+				avatarUrl: avatar ? avatarUrls[avatar] || '' : '',
+			})),
+		});
+	} catch (err: any) {
+		console.error('Ошибка при получении корзины:', err);
+		res.status(500).json({ error: 'Ошибка при получении корзины' });
+	}
+};
+
+/**
+ * Восстановление клуба или игрока из корзины (только для админа)
+ */
+export const restoreFromTrash = async (
+	req: TelegramRequest,
+	res: Response,
+	next: NextFunction,
+): Promise<void> => {
+	try {
+		const { type, id } = req.params;
+
+		if (!TRASH_ITEM_TYPES.includes(type as TrashItemType)) {
+			res.status(400).json({ error: 'Тип записи: club или player' });
+			return;
+		}
+
+		if (!id) {
+			res.status(400).json({ error: 'ID записи обязателен' });
+			return;
+		}
+
+		const result =
+			type === 'club'
+				? await TrashService.restoreClub(id)
+				: await TrashService.restorePlayer(id);
+
+		if (!result.success) {
+			res.status(400).json({ error: result.message });
+			return;
+		}
+
+		await AuditLogService.record(req, {
+			action: AUDIT_ACTIONS.TRASH_RESTORE,
+			targetType: type,
+			targetId: id,
+		});
+
+		res.json({
+			ok: true,
+			message: result.message,
+		});
+	} catch (err: any) {
+		console.error('Ошибка при восстановлении из корзины:', err);
+		res.status(500).json({ error: 'Ошибка при восстановлении из корзины' });
+	}
+};
@@ -1,6 +1,7 @@
 import { Response, NextFunction } from 'express';
 import { TelegramRequest } from '../types/api';
 import { StorageService } from '../services/storage.service';
+import { AuditLogService, AUDIT_ACTIONS } from '../services/auditLog.service';
 import { logger } from '../utils/logger';
 
 const storageService = new StorageService();
@@ -39,6 +40,13 @@ export const generateUploadUrl = async (
 			folder || 'uploads',
 		);
 
+		await AuditLogService.record(req, {
+			action: AUDIT_ACTIONS.UPLOAD_URL_CREATE,
+			targetType: 'upload',
+			targetId: fileKey,
+			after: { fileKey, contentType, folder: folder || 'uploads' },
+		});
+
 		res.json({
 			ok: true,
 			uploadUrl,
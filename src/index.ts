@@ -8,6 +8,9 @@ import { TelegramBotService } from './bot/telegramBot';
 import { redisService } from './services/redis.service';
 import { AnalyticsService } from './services/analytics.service';
 import { AdminService } from './services/admin.service';
+import { TrashService } from './services/trash.service';
+import { AnalyticsRetentionService } from './services/analyticsRetention.service';
+import { ClubPublicationService } from './services/clubPublication.service';
 import { imageGenerationService } from './services/imageGeneration.service';
 import { puppeteerPoolService } from './services/puppeteerPool.service';
 import { logger } from './utils/logger';
@@ -34,6 +37,10 @@ import playersRoutes from './routes/players';
 import adminRoutes from './routes/admin';
 import analyticsRoutes from './routes/analytics';
 import uploadRoutes from './routes/upload';
+import tierListsRoutes from './routes/tierLists';
+import publicRoutes from './routes/public';
+import leaguesRoutes from './routes/leagues';
+import searchRoutes from './routes/search';
 import { createShareRoutes } from './routes/share';
 import healthRoutes from './routes/health';
 import { errorHandler } from './utils/errorHandler';
@@ -108,11 +115,15 @@ const initApp = () => {
 	// Подключаем маршруты API
 	app.use('/api/auth', authRoutes);
 	app.use('/api/clubs', clubsRoutes);
+	app.use('/api/leagues', leaguesRoutes);
+	app.use('/api/search', searchRoutes);
 	app.use('/api/players', playersRoutes);
 	app.use('/api/admin', adminRoutes);
 	app.use('/api/analytics', analyticsRoutes);
 	app.use('/api/upload', uploadRoutes);
 	app.use('/api/share', shareRoutes);
+	app.use('/api/tier-lists', tierListsRoutes);
+	app.use('/api/public', publicRoutes);
 
 	// Подключаем обработчик ошибок
 	app.use(errorHandler);
@@ -144,6 +155,59 @@ const initApp = () => {
 		}
 	}, 2 * 60 * 60 * 1000); // 2 часа
 
+	// Запускаем применение расписания публикации клубов (каждую минуту)
+	const clubPublicationInterval = setInterval(async () => {
+		try {
+			const changes = await ClubPublicationService.applyScheduledChanges();
+			if (changes.published > 0 || changes.unpublished > 0) {
+				logger.info(
+					`По расписанию опубликовано клубов: ${changes.published}, снято с публикации: ${changes.unpublished}`,
+					'SCHEDULER',
+				);
+			}
+		} catch (error) {
+			logger.error(
+				'Ошибка при применении расписания публикации клубов',
+				'SCHEDULER',
+				error,
+			);
+		}
+	}, 60 * 1000); // 1 минута
+
+	// Запускаем окончательное удаление записей из корзины после срока хранения (каждые 6 часов)
+	const trashPurgeInterval = setInterval(async () => {
+		try {
+			const purged = await TrashService.purgeExpired();
+			if (purged.clubs > 0 || purged.players > 0) {
+				logger.info(
+					`Из корзины окончательно удалено клубов: ${purged.clubs}, игроков: ${purged.players}`,
+					'CLEANUP',
+				);
+			}
+		} catch (error) {
+			logger.error('Ошибка при очистке корзины', 'CLEANUP', error);
+		}
+	}, 6 * 60 * 60 * 1000); // 6 часов
+
+	// Запускаем очистку старых событий аналитики по сроку хранения
+	const analyticsRetentionInterval = setInterval(async () => {
+		try {
+			const retention = await AnalyticsRetentionService.applyRetention();
+			if (retention && retention.removed > 0) {
+				logger.info(
+					`Удалено старых событий аналитики: ${retention.removed} (режим ${retention.mode}, файлов архива: ${retention.files.length})`,
+					'CLEANUP',
+				);
+			}
+		} catch (error) {
+			logger.error(
+				'Ошибка при очистке старых событий аналитики',
+				'CLEANUP',
+				error,
+			);
+		}
+	}, 6 * 60 * 60 * 1000); // 6 часов
+
 	// Graceful shutdown
 	const gracefulShutdown = async (signal: string) => {
 		logger.shutdown(`Получен сигнал ${signal}, завершение работы...`);
@@ -152,6 +216,9 @@ const initApp = () => {
 			// Останавливаем интервалы
 			clearInterval(cleanupInterval);
 			clearInterval(imageCacheCleanupInterval);
+			clearInterval(trashPurgeInterval);
+			clearInterval(analyticsRetentionInterval);
+			clearInterval(clubPublicationInterval);
 
 			// Завершаем пул браузеров
 			await puppeteerPoolService.shutdown();
@@ -184,11 +251,11 @@ const initApp = () => {
 			'Периодическая очистка старых игровых сессий запущена (каждые 30 минут)',
 		);
 
-		// Проверяем изменение главного админа при запуске
+		// Сверяем владельцев с переменной окружения при запуске
 		try {
-			await AdminService.checkAndResetAdminsOnMainAdminChange();
+			await AdminService.reconcileOwners();
 		} catch (error) {
-			logger.error('Ошибка при проверке главного админа', 'STARTUP', error);
+			logger.error('Ошибка при сверке владельцев', 'STARTUP', error);
 		}
 
 		// Инициализируем пул браузеров Puppeteer
@@ -3,10 +3,34 @@ import { TelegramRequest } from '../types/api';
 import { prisma } from '../prisma';
 import { redisService } from '../services/redis.service';
 import { config } from '../config/env';
+import {
+	Permission,
+	PERMISSION_SETS,
+	hasPermission,
+} from '../utils/permissions';
 
-// Кэш для проверки админов (TTL 5 минут)
+// Кэш для проверки админов и их прав (TTL 5 минут)
 const ADMIN_CACHE_TTL = 300;
 const ADMIN_CACHE_PREFIX = 'admin:check:';
+const ADMIN_PERMISSIONS_CACHE_PREFIX = 'admin:permissions:';
+
+/**
+ * Проверяет, что пользователь указан в TELEGRAM_OWNER_IDS и в базе еще нет ни одного владельца
+ * Переменная окружения нужна только для первого входа до сверки владельцев,
+ * иначе бывший владелец после передачи прав и удаления снова получал бы доступ
+ */
+export const isBootstrapOwner = async (
+	telegramId: string,
+): Promise<boolean> => {
+	if (!config.telegram.ownerIds.includes(telegramId)) {
+		return false;
+	}
+
+	const ownersCount = await prisma.adminUser.count({
+		where: { isOwner: true },
+	});
+	return ownersCount === 0;
+};
 
 /**
  * КРИТИЧЕСКОЕ ИСПРАВЛЕНИЕ: Унифицированная проверка админа для согласованности с AdminService
@@ -25,12 +49,39 @@ export const checkIsAdminUser = async (
 			return true;
 		}
 
-		// Fallback: проверяем переменную окружения (для совместимости)
-		return telegramId === config.telegram.adminId;
+		return await isBootstrapOwner(telegramId);
 	} catch (error) {
 		console.error('Ошибка при проверке админа в middleware:', error);
-		// Fallback на переменную окружения при ошибке БД
-		return telegramId === config.telegram.adminId;
+		return false;
+	}
+};
+
+/**
+ * Получает права админа по его набору прав
+ * Владельцы всегда имеют все права, у остальных пользователей прав нет
+ */
+export const getAdminPermissions = async (
+	telegramId: string,
+): Promise<Permission[]> => {
+	try {
+		const adminUser = await prisma.adminUser.findUnique({
+			where: { telegramId },
+			select: { permissionSet: true, isOwner: true },
+		});
+
+		if (adminUser) {
+			return adminUser.isOwner
+				? PERMISSION_SETS.superadmin
+				: PERMISSION_SETS[adminUser.permissionSet];
+		}
+
+		// Владелец из переменной окружения до сверки владельцев при запуске
+		return (await isBootstrapOwner(telegramId))
+			? PERMISSION_SETS.superadmin
+			: [];
+	} catch (error) {
+		console.error('Ошибка при получении прав админа:', error);
+		return [];
 	}
 };
 
@@ -41,8 +92,10 @@ export const invalidateAdminCache = async (
 	telegramId: string,
 ): Promise<void> => {
 	try {
-		const cacheKey = `${ADMIN_CACHE_PREFIX}${telegramId}`;
-		await redisService.delete(cacheKey);
+		await redisService.deleteMany([
+			`${ADMIN_CACHE_PREFIX}${telegramId}`,
+			`${ADMIN_PERMISSIONS_CACHE_PREFIX}${telegramId}`,
+		]);
 		console.log(`Кэш админа ${telegramId} успешно инвалидирован`);
 	} catch (error) {
 		console.warn(`Не удалось инвалидировать кэш админа ${telegramId}:`, error);
@@ -54,7 +107,11 @@ export const invalidateAdminCache = async (
  */
 export const invalidateAllAdminCache = async (): Promise<void> => {
 	try {
-		const keys = await redisService.keys(`${ADMIN_CACHE_PREFIX}*`);
+		const [checkKeys, permissionKeys] = await Promise.all([
+			redisService.keys(`${ADMIN_CACHE_PREFIX}*`),
+			redisService.keys(`${ADMIN_PERMISSIONS_CACHE_PREFIX}*`),
+		]);
+		const keys = [...checkKeys, ...permissionKeys];
 		if (keys.length > 0) {
 			await redisService.deleteMany(keys);
 			console.log(`Инвалидировано ${keys.length} записей кэша админов`);
@@ -131,3 +188,70 @@ export const checkAdminRole = async (
 		res.status(500).json({ error: 'Внутренняя ошибка сервера' });
 	}
 };
+
+/**
+ * Middleware для проверки конкретного права админа
+ * Права берутся из набора прав в AdminUser и кэшируются так же, как проверка админа
+ */
+export const requirePermission =
+	(permission: Permission) =>
+	async (
+		req: TelegramRequest,
+		res: Response,
+		next: NextFunction,
+	): Promise<void> => {
+		try {
+			const { telegramUser } = req.body;
+
+			if (!telegramUser || !telegramUser.id) {
+				res.status(403).json({
+					error: 'Доступ запрещен. Необходимо авторизоваться',
+				});
+				return;
+			}
+
+			const telegramId = telegramUser.id.toString();
+			const cacheKey = `${ADMIN_PERMISSIONS_CACHE_PREFIX}${telegramId}`;
+
+			let permissions: Permission[] | null = null;
+
+			try {
+				const cachedResult = await redisService.get(cacheKey);
+				if (cachedResult !== null) {
+					permissions = JSON.parse(cachedResult);
+				}
+			} catch (cacheError) {
+				// Если кэш недоступен, продолжаем с DB запросом
+				console.warn(
+					'Redis недоступен для проверки прав админа, используем DB',
+				);
+			}
+
+			if (!permissions) {
+				permissions = await getAdminPermissions(telegramId);
+
+				try {
+					await redisService.set(
+						cacheKey,
+						JSON.stringify(permissions),
+						ADMIN_CACHE_TTL,
+					);
+				} catch (cacheError) {
+					// Ошибка кэширования не критична
+					console.warn('Не удалось закэшировать права админа');
+				}
+			}
+
+			if (!hasPermission(permissions, permission)) {
+				res.status(403).json({
+					error: 'Доступ запрещен. Недостаточно прав',
+				});
+				return;
+			}
+
+			next();
+		} catch (err) {
+			console.error('Ошибка проверки прав доступа:', err);
+			res.status(500).json({ error: 'Внутренняя ошибка сервера' });
+		}
+	};
@@ -56,6 +56,13 @@ export const uploadClubLogo = multer({
 	limits,
 }).single('logo');
 
+// Настройка multer для загрузки логотипов лиг
+export const uploadLeagueLogo = multer({
+	storage,
+	fileFilter,
+	limits,
+}).single('logo');
+
 // Настройка multer для загрузки аватаров игроков
 export const uploadPlayerAvatar = multer({
 	storage,
@@ -63,6 +70,89 @@ export const uploadPlayerAvatar = multer({
 	limits,
 }).single('avatar');
 
+// Импорт каталога: манифест (CSV или JSON) и ZIP архив с логотипами и аватарами
+// Файлы держим в памяти - архив все равно читается целиком
+const CATALOG_IMPORT_EXTENSIONS: { [field: string]: string[] } = {
+	manifest: ['.csv', '.json'],
+	images: ['.zip'],
+};
+
+export const CATALOG_IMPORT_MAX_SIZE = 50 * 1024 * 1024;
+
+export const uploadCatalogImport = multer({
+	storage: multer.memoryStorage(),
+	fileFilter: (req, file, cb) => {
+		const allowedExtensions = CATALOG_IMPORT_EXTENSIONS[file.fieldname] || [];
+
+		if (
+			allowedExtensions.includes(path.extname(file.originalname).toLowerCase())
+		) {
+			cb(null, true);
+		} else {
+			cb(
+				new Error(
+					'Неподдерживаемый формат файла. Манифест - CSV или JSON, изображения - ZIP архив',
+				),
+			);
+		}
+	},
+	limits: {
+		fileSize: CATALOG_IMPORT_MAX_SIZE,
+		files: 2,
+		fields: 10,
+	},
+}).fields([
+	{ name: 'manifest', maxCount: 1 },
+	{ name: 'images', maxCount: 1 },
+]);
+
+// Резервная копия каталога: JSON из экспорта или ZIP вместе с изображениями
+export const uploadCatalogBackup = multer({
+	storage: multer.memoryStorage(),
+	fileFilter: (req, file, cb) => {
+		if (
+			['.json', '.zip'].includes(path.extname(file.originalname).toLowerCase())
+		) {
+			cb(null, true);
+		} else {
+			cb(
+				new Error(
+					'Неподдерживаемый формат файла. Резервная копия - JSON или ZIP архив',
+				),
+			);
+		}
+	},
+	limits: {
+		fileSize: CATALOG_IMPORT_MAX_SIZE,
+		files: 1,
+		fields: 10,
+	},
+}).single('backup');
+
+// Ошибки импорта и восстановления каталога отличаются от обычной загрузки только лимитами
+export const handleCatalogImportUploadError = (
+	error: any,
+	req: any,
+	res: any,
+	next: any,
+) => {
+	if (error instanceof multer.MulterError) {
+		if (error.code === 'LIMIT_FILE_SIZE') {
+			return res.status(400).json({
+				error: 'Файл слишком большой. Максимальный размер: 50MB',
+			});
+		}
+
+		if (error.code === 'LIMIT_FILE_COUNT') {
+			return res.status(400).json({
+				error: 'Слишком много файлов в запросе',
+			});
+		}
+	}
+
+	return handleUploadError(error, req, res, next);
+};
+
 // ОПТИМИЗАЦИЯ: Более быстрая обработка ошибок
 export const handleUploadError = (
 	error: any,
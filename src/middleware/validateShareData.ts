@@ -0,0 +1,55 @@
+import { Response, NextFunction } from 'express';
+import { TelegramRequest } from '../types/api';
+import {
+	ShareDataFieldError,
+	validateShareImageData,
+} from '../utils/shareDataValidator';
+
+/**
+ * Формирует ответ 400 с ошибками валидации по полям
+ */
+export const sendShareDataValidationError = (
+	res: Response,
+	errors: ShareDataFieldError[],
+): void => {
+	res.status(400).json({
+		error: 'Некорректные данные тир-листа',
+		code: 'VALIDATION_ERROR',
+		fields: errors,
+	});
+};
+
+/**
+ * Middleware для валидации данных тир-листа перед рендером изображения
+ * Если передан templateId, категории в теле запроса заменяются категориями шаблона
+ * @param field Поле тела запроса с данными (по умолчанию данные в корне body)
+ */
+export const validateShareData =
+	(field?: string) =>
+	async (
+		req: TelegramRequest,
+		res: Response,
+		next: NextFunction,
+	): Promise<void> => {
+		try {
+			const payload = field ? req.body[field] : req.body;
+			const result = await validateShareImageData(payload);
+
+			if (!result.valid) {
+				sendShareDataValidationError(res, result.errors);
+				return;
+			}
+
+			// Передаем дальше нормализованные данные (с категориями из шаблона)
+			if (field) {
+				req.body[field] = result.data;
+			} else {
+				Object.assign(req.body, result.data);
+			}
+
+			next();
+		} catch (error) {
+			console.error('Ошибка валидации данных тир-листа:', error);
+			res.status(500).json({ error: 'Внутренняя ошибка сервера' });
+		}
+	};
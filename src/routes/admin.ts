@@ -1,49 +1,278 @@
 import { Router, Request, Response } from 'express';
 import { initDataAuth, validateInitData } from '../middleware/validateInitData';
-import { checkAdminRole } from '../middleware/checkAdminRole';
+import { requirePermission } from '../middleware/checkAdminRole';
 import {
 	getAdmins,
 	addAdmin,
 	removeAdmin,
+	updateAdminPermissions,
+	createAdminInvite,
 	searchUsers,
 	addAdminByUsername,
 	clearClubsCache,
 	clearAnalyticsCache,
 	clearAllCache,
+	getConfirmationStatus,
 } from '../controllers/admin.controller';
+import {
+	getTierTemplates,
+	getTierTemplateById,
+	createTierTemplate,
+	updateTierTemplate,
+	deleteTierTemplate,
+} from '../controllers/tierTemplates.controller';
+import {
+	getSeasons,
+	createSeason,
+	updateSeason,
+	setCurrentSeason,
+	deleteSeason,
+} from '../controllers/seasons.controller';
+import { transferPlayer } from '../controllers/players.controller';
+import {
+	createPlayerCollection,
+	updatePlayerCollection,
+	deletePlayerCollection,
+} from '../controllers/playerCollections.controller';
+import {
+	requestOwnershipTransfer,
+	confirmOwnershipTransfer,
+	cancelOwnershipTransfer,
+} from '../controllers/ownershipTransfer.controller';
+import { getTrash, restoreFromTrash } from '../controllers/trash.controller';
+import {
+	previewCatalogImport,
+	applyCatalogImport,
+} from '../controllers/catalogImport.controller';
+import {
+	exportCatalog,
+	restoreCatalog,
+} from '../controllers/catalogBackup.controller';
+import {
+	uploadCatalogImport,
+	uploadCatalogBackup,
+	handleCatalogImportUploadError,
+} from '../middleware/uploadMiddleware';
 import { userImageRateLimit } from '../middleware/userRateLimit';
 import { puppeteerPoolService } from '../services/puppeteerPool.service';
+import { AuditLogService, AUDIT_ACTIONS } from '../services/auditLog.service';
+import { getAuditLog } from '../controllers/auditLog.controller';
 
 const router = Router();
 
-// Все маршруты требуют валидации Telegram данных и роли админа
+// Все маршруты требуют валидации Telegram данных, права админа проверяются на каждом маршруте
 router.use(initDataAuth);
-router.use(checkAdminRole);
 
 // GET /api/admin/admins - получить список админов
-router.get('/admins', getAdmins);
+router.get('/admins', requirePermission('admins:manage'), getAdmins);
 
 // POST /api/admin/admins - добавить нового админа
-router.post('/admins', addAdmin);
+router.post('/admins', requirePermission('admins:manage'), addAdmin);
 
 // DELETE /api/admin/admins/:telegramId - удалить админа
-router.delete('/admins/:telegramId', removeAdmin);
+router.delete(
+	'/admins/:telegramId',
+	requirePermission('admins:manage'),
+	removeAdmin,
+);
+
+// PUT /api/admin/admins/:telegramId/permissions - изменить набор прав админа
+router.put(
+	'/admins/:telegramId/permissions',
+	requirePermission('admins:manage'),
+	updateAdminPermissions,
+);
+
+// POST /api/admin/invites - создать одноразовую ссылку-приглашение в админы
+router.post('/invites', requirePermission('admins:manage'), createAdminInvite);
+
+// Маршруты для передачи прав владельца
+// POST /api/admin/owners/transfers - запросить передачу прав владельца админу
+router.post(
+	'/owners/transfers',
+	requirePermission('admins:manage'),
+	requestOwnershipTransfer,
+);
+
+// POST /api/admin/owners/transfers/:id/confirm - подтвердить передачу (текущий владелец)
+router.post(
+	'/owners/transfers/:id/confirm',
+	requirePermission('admins:manage'),
+	confirmOwnershipTransfer,
+);
+
+// DELETE /api/admin/owners/transfers/:id - отменить ожидающую передачу
+router.delete(
+	'/owners/transfers/:id',
+	requirePermission('admins:manage'),
+	cancelOwnershipTransfer,
+);
 
 // GET /api/admin/search-users - поиск пользователей по username
-router.get('/search-users', searchUsers);
+router.get('/search-users', requirePermission('admins:manage'), searchUsers);
 
 // POST /api/admin/admins/by-username - добавить админа по username
-router.post('/admins/by-username', addAdminByUsername);
+router.post(
+	'/admins/by-username',
+	requirePermission('admins:manage'),
+	addAdminByUsername,
+);
 
 // Маршруты для управления кешем
 // DELETE /api/admin/cache/clubs - очистить кеш клубов и игроков
-router.delete('/cache/clubs', clearClubsCache);
+router.delete(
+	'/cache/clubs',
+	requirePermission('cache:clear'),
+	clearClubsCache,
+);
 
 // DELETE /api/admin/cache/analytics - очистить кеш аналитики
-router.delete('/cache/analytics', clearAnalyticsCache);
+router.delete(
+	'/cache/analytics',
+	requirePermission('cache:clear'),
+	clearAnalyticsCache,
+);
 
 // DELETE /api/admin/cache/all - очистить весь кеш
-router.delete('/cache/all', clearAllCache);
+router.delete(
+	'/cache/all',
+	requirePermission('cache:clear_all'),
+	clearAllCache,
+);
+
+// GET /api/admin/confirmations/:id - статус операции, ожидающей подтверждения в боте
+router.get('/confirmations/:id', getConfirmationStatus);
+
+// Маршруты для управления шаблонами категорий
+// GET /api/admin/tier-templates - получить список шаблонов
+router.get(
+	'/tier-templates',
+	requirePermission('templates:write'),
+	getTierTemplates,
+);
+
+// GET /api/admin/tier-templates/:id - получить шаблон
+router.get(
+	'/tier-templates/:id',
+	requirePermission('templates:write'),
+	getTierTemplateById,
+);
+
+// POST /api/admin/tier-templates - создать шаблон
+router.post(
+	'/tier-templates',
+	requirePermission('templates:write'),
+	createTierTemplate,
+);
+
+// PUT /api/admin/tier-templates/:id - обновить шаблон
+router.put(
+	'/tier-templates/:id',
+	requirePermission('templates:write'),
+	updateTierTemplate,
+);
+
+// DELETE /api/admin/tier-templates/:id - удалить шаблон
+router.delete(
+	'/tier-templates/:id',
+	requirePermission('templates:write'),
+	deleteTierTemplate,
+);
+
+// Маршруты для управления сезонами и составами
+// GET /api/admin/seasons - получить список сезонов
+router.get('/seasons', requirePermission('seasons:write'), getSeasons);
+
+// POST /api/admin/seasons - создать сезон (по умолчанию становится текущим)
+router.post('/seasons', requirePermission('seasons:write'), createSeason);
+
+// PUT /api/admin/seasons/:id - обновить сезон
+router.put('/seasons/:id', requirePermission('seasons:write'), updateSeason);
+
+// POST /api/admin/seasons/:id/current - сделать сезон текущим
+router.post(
+	'/seasons/:id/current',
+	requirePermission('seasons:write'),
+	setCurrentSeason,
+);
+
+// DELETE /api/admin/seasons/:id - удалить сезон
+router.delete('/seasons/:id', requirePermission('seasons:write'), deleteSeason);
+
+// POST /api/admin/players/:id/transfer - перевести игрока в другой клуб
+router.post(
+	'/players/:id/transfer',
+	requirePermission('players:write'),
+	transferPlayer,
+);
+
+// Маршруты для управления подборками игроков из разных клубов
+// POST /api/admin/collections - создать подборку
+router.post(
+	'/collections',
+	requirePermission('players:write'),
+	createPlayerCollection,
+);
+
+// PUT /api/admin/collections/:id - обновить подборку
+router.put(
+	'/collections/:id',
+	requirePermission('players:write'),
+	updatePlayerCollection,
+);
+
+// DELETE /api/admin/collections/:id - удалить подборку
+router.delete(
+	'/collections/:id',
+	requirePermission('players:write'),
+	deletePlayerCollection,
+);
+
+// Маршруты для корзины удаленных клубов и игроков
+// GET /api/admin/trash - получить содержимое корзины
+router.get('/trash', requirePermission('catalog:write'), getTrash);
+
+// POST /api/admin/trash/:type/:id/restore - восстановить клуб или игрока
+router.post(
+	'/trash/:type/:id/restore',
+	requirePermission('catalog:write'),
+	restoreFromTrash,
+);
+
+// Маршруты для импорта каталога (multipart: manifest - CSV или JSON, images - ZIP архив)
+// POST /api/admin/import/preview - предпросмотр изменений без записи
+router.post(
+	'/import/preview',
+	requirePermission('catalog:write'),
+	uploadCatalogImport,
+	handleCatalogImportUploadError,
+	previewCatalogImport,
+);
+
+// POST /api/admin/import - применить импорт клубов и игроков
+router.post(
+	'/import',
+	requirePermission('catalog:write'),
+	uploadCatalogImport,
+	handleCatalogImportUploadError,
+	applyCatalogImport,
+);
+
+// Маршруты для резервного копирования каталога
+// GET /api/admin/export - выгрузить каталог (?format=json|zip)
+router.get('/export', requirePermission('catalog:backup'), exportCatalog);
+
+// POST /api/admin/restore - восстановить каталог в пустую базу (multipart: backup)
+router.post(
+	'/restore',
+	requirePermission('catalog:backup'),
+	uploadCatalogBackup,
+	handleCatalogImportUploadError,
+	restoreCatalog,
+);
+
+// GET /api/admin/audit - журнал действий админов (фильтры и постраничная выдача)
+router.get('/audit', requirePermission('audit:read'), getAuditLog);
 
 /**
  * POST /admin/reset-user-limits/:userId
@@ -51,6 +280,7 @@ router.delete('/cache/all', clearAllCache);
  */
 router.post(
 	'/reset-user-limits/:userId',
+	requirePermission('users:manage'),
 	async (req: Request, res: Response): Promise<any> => {
 		try {
 			const { userId } = req.params;
@@ -61,6 +291,12 @@ router.post(
 
 			await userImageRateLimit.resetUserLimits(userId);
 
+			await AuditLogService.record(req, {
+				action: AUDIT_ACTIONS.USER_LIMITS_RESET,
+				targetType: 'user',
+				targetId: userId,
+			});
+
 			res.json({
 				success: true,
 				message: `Лимиты пользователя ${userId} сброшены`,
@@ -79,7 +315,7 @@ router.post(
 router.get(
 	'/user-stats/:userId',
 	initDataAuth,
-	checkAdminRole,
+	requirePermission('users:manage'),
 	async (req: Request, res: Response): Promise<any> => {
 		try {
 			const { userId } = req.params;
@@ -108,7 +344,7 @@ router.get(
 router.get(
 	'/puppeteer-metrics',
 	initDataAuth,
-	checkAdminRole,
+	requirePermission('system:read'),
 	async (req: Request, res: Response): Promise<void> => {
 		try {
 			const metrics = puppeteerPoolService.getMetrics();
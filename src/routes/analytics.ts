@@ -1,14 +1,16 @@
 import { Router } from 'express';
 import { initDataAuth } from '../middleware/validateInitData';
-import { checkAdminRole } from '../middleware/checkAdminRole';
+import { requirePermission } from '../middleware/checkAdminRole';
 import {
 	logEvent,
 	startGameSession,
 	completeGameSession,
 	forceCompleteAllSessions,
 	getActiveSession,
+	saveGameDraft,
 	getStats,
 	getDetailedStats,
+	previewAnalyticsReset,
 	resetAnalytics,
 } from '../controllers/analytics.controller';
 
@@ -20,12 +22,36 @@ router.post('/game/start', initDataAuth, startGameSession);
 router.post('/game/complete', initDataAuth, completeGameSession);
 router.post('/game/force-complete', initDataAuth, forceCompleteAllSessions);
 router.post('/game/active', initDataAuth, getActiveSession);
+router.put('/game/draft', initDataAuth, saveGameDraft);
 
 // Приватные маршруты (только для админов) - используют initDataAuth для GET запросов
-router.get('/stats', initDataAuth, checkAdminRole, getStats);
-router.get('/stats/detailed', initDataAuth, checkAdminRole, getDetailedStats);
+router.get(
+	'/stats',
+	initDataAuth,
+	requirePermission('analytics:read'),
+	getStats,
+);
+router.get(
+	'/stats/detailed',
+	initDataAuth,
+	requirePermission('analytics:read'),
+	getDetailedStats,
+);
+
+router.get(
+	'/reset/preview',
+	initDataAuth,
+	requirePermission('analytics:reset'),
+	previewAnalyticsReset,
+);
 
 // Критический маршрут - сброс аналитики (только для админов)
-router.delete('/reset', initDataAuth, checkAdminRole, resetAnalytics);
+// Область сброса передается параметрами запроса: from, to, eventType, clubId, telegramId
+router.delete(
+	'/reset',
+	initDataAuth,
+	requirePermission('analytics:reset'),
+	resetAnalytics,
+);
 
 export default router;
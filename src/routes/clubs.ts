@@ -4,10 +4,11 @@ import {
 	deleteClub,
 	getAllClubs,
 	getClubById,
+	getCommunityTierList,
 	updateClub,
 } from '../controllers/clubs.controller';
 import { initDataAuth } from '../middleware/validateInitData';
-import { checkAdminRole } from '../middleware/checkAdminRole';
+import { requirePermission } from '../middleware/checkAdminRole';
 import {
 	uploadClubLogo,
 	handleUploadError,
@@ -19,7 +20,7 @@ const router = Router();
 router.post(
 	'/',
 	initDataAuth,
-	checkAdminRole,
+	requirePermission('clubs:write'),
 	uploadClubLogo,
 	handleUploadError,
 	createClub,
@@ -31,17 +32,25 @@ router.get('/', initDataAuth, getAllClubs);
 // Получение информации о конкретном клубе - доступно авторизованным пользователям
 router.get('/:id', initDataAuth, getClubById);
 
+// Общий тир-лист сообщества по клубу - доступно авторизованным пользователям
+router.get('/:id/community-tier-list', initDataAuth, getCommunityTierList);
+
 // Обновление клуба - только для админа с загрузкой логотипа
 router.put(
 	'/:id',
 	initDataAuth,
-	checkAdminRole,
+	requirePermission('clubs:write'),
 	uploadClubLogo,
 	handleUploadError,
 	updateClub,
 );
 
 // Удаление клуба - только для админа
-router.delete('/:id', initDataAuth, checkAdminRole, deleteClub);
+router.delete(
+	'/:id',
+	initDataAuth,
+	requirePermission('clubs:write'),
+	deleteClub,
+);
 
 export default router;
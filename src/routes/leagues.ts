@@ -0,0 +1,70 @@
+import { Router } from 'express';
+import {
+	addClubToLeague,
+	createLeague,
+	deleteLeague,
+	getAllLeagues,
+	getLeagueClubs,
+	removeClubFromLeague,
+	updateLeague,
+} from '../controllers/leagues.controller';
+import { initDataAuth } from '../middleware/validateInitData';
+import { requirePermission } from '../middleware/checkAdminRole';
+import {
+	uploadLeagueLogo,
+	handleUploadError,
+} from '../middleware/uploadMiddleware';
+
+const router = Router();
+
+// Создание лиги - только для админа с загрузкой логотипа
+router.post(
+	'/',
+	initDataAuth,
+	requirePermission('leagues:write'),
+	uploadLeagueLogo,
+	handleUploadError,
+	createLeague,
+);
+
+// Получение списка всех лиг - доступно авторизованным пользователям
+router.get('/', initDataAuth, getAllLeagues);
+
+// Получение клубов лиги - доступно авторизованным пользователям
+router.get('/:id/clubs', initDataAuth, getLeagueClubs);
+
+// Обновление лиги - только для админа с загрузкой логотипа
+router.put(
+	'/:id',
+	initDataAuth,
+	requirePermission('leagues:write'),
+	uploadLeagueLogo,
+	handleUploadError,
+	updateLeague,
+);
+
+// Удаление лиги - только для админа
+router.delete(
+	'/:id',
+	initDataAuth,
+	requirePermission('leagues:write'),
+	deleteLeague,
+);
+
+// Добавление клуба в лигу - только для админа
+router.post(
+	'/:id/clubs',
+	initDataAuth,
+	requirePermission('leagues:write'),
+	addClubToLeague,
+);
+
+// Исключение клуба из лиги - только для админа
+router.delete(
+	'/:id/clubs/:clubId',
+	initDataAuth,
+	requirePermission('leagues:write'),
+	removeClubFromLeague,
+);
+
+export default router;
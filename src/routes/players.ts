@@ -1,6 +1,6 @@
 import { Router } from 'express';
 import { initDataAuth } from '../middleware/validateInitData';
-import { checkAdminRole } from '../middleware/checkAdminRole';
+import { requirePermission } from '../middleware/checkAdminRole';
 import {
 	uploadPlayerAvatar,
 	handleUploadError,
@@ -20,7 +20,7 @@ const router = Router();
 router.post(
 	'/',
 	initDataAuth,
-	checkAdminRole,
+	requirePermission('players:write'),
 	uploadPlayerAvatar,
 	handleUploadError,
 	createPlayer,
@@ -36,13 +36,18 @@ router.get('/:id', initDataAuth, getPlayerById);
 router.put(
 	'/:id',
 	initDataAuth,
-	checkAdminRole,
+	requirePermission('players:write'),
 	uploadPlayerAvatar,
 	handleUploadError,
 	updatePlayer,
 );
 
 // Удаление игрока - только для админа
-router.delete('/:id', initDataAuth, checkAdminRole, deletePlayer);
+router.delete(
+	'/:id',
+	initDataAuth,
+	requirePermission('players:write'),
+	deletePlayer,
+);
 
 export default router;
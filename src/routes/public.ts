@@ -0,0 +1,21 @@
+import { Router } from 'express';
+import { getPublicTierList } from '../controllers/tierLists.controller';
+import {
+	getPlayerCollections,
+	getPlayerCollectionById,
+} from '../controllers/playerCollections.controller';
+
+const router = Router();
+
+// Публичные маршруты доступны без Telegram initData
+
+// Получение тир-листа по коду публичной ссылки
+router.get('/tier-lists/:code', getPublicTierList);
+
+// Получение списка подборок игроков из разных клубов
+router.get('/collections', getPlayerCollections);
+
+// Получение подборки с игроками
+router.get('/collections/:id', getPlayerCollectionById);
+
+export default router;
@@ -0,0 +1,10 @@
+import { Router } from 'express';
+import { search } from '../controllers/search.controller';
+import { initDataAuth } from '../middleware/validateInitData';
+
+const router = Router();
+
+// Поиск клубов и игроков - доступно авторизованным пользователям
+router.get('/', initDataAuth, search);
+
+export default router;
@@ -3,6 +3,7 @@ import { validateInitData } from '../middleware/validateInitData';
 import { ShareController } from '../controllers/share.controller';
 import { createRateLimit } from '../middleware/advancedRateLimit';
 import { userImageRateLimit } from '../middleware/userRateLimit';
+import { validateShareData } from '../middleware/validateShareData';
 import { TelegramBotService } from '../bot/telegramBot';
 
 /**
@@ -19,6 +20,7 @@ export const createShareRoutes = (botService: TelegramBotService) => {
 	router.post(
 		'/results',
 		validateInitData,
+		validateShareData('shareData'), // Валидация до списания лимита
 		userImageRateLimit.middleware(), // Новый лимит: 5 раз в день + интервал 10 мин
 		createRateLimit.shareResults().middleware(), // Дополнительная защита от спама
 		shareController.shareResults,
@@ -31,6 +33,7 @@ export const createShareRoutes = (botService: TelegramBotService) => {
 	router.post(
 		'/preview',
 		validateInitData,
+		validateShareData(),
 		userImageRateLimit.middleware(), // Применяем тот же лимит
 		shareController.previewImage,
 	);
@@ -42,6 +45,7 @@ export const createShareRoutes = (botService: TelegramBotService) => {
 	router.post(
 		'/download',
 		validateInitData,
+		validateShareData(),
 		userImageRateLimit.middleware(), // Применяем тот же лимит
 		shareController.downloadImage,
 	);
@@ -0,0 +1,24 @@
+import { Router } from 'express';
+import { initDataAuth } from '../middleware/validateInitData';
+import {
+	getMyTierLists,
+	getTierListById,
+	compareTierLists,
+	getTierListHotTakes,
+} from '../controllers/tierLists.controller';
+
+const router = Router();
+
+// Получение тир-листов текущего пользователя
+router.get('/me', initDataAuth, getMyTierLists);
+
+// Получение тир-листа по ID
+router.get('/:id', initDataAuth, getTierListById);
+
+// Самые спорные позиции относительно общего тир-листа сообщества
+router.get('/:id/hot-takes', initDataAuth, getTierListHotTakes);
+
+// Сравнение двух тир-листов одного клуба
+router.get('/:a/compare/:b', initDataAuth, compareTierLists);
+
+export default router;
@@ -7,12 +7,17 @@ import {
 	getCacheStats,
 } from '../controllers/upload.controller';
 import { initDataAuth } from '../middleware/validateInitData';
-import { checkAdminRole } from '../middleware/checkAdminRole';
+import { requirePermission } from '../middleware/checkAdminRole';
 
 const router = Router();
 
 // Генерация URL для прямой загрузки (только для админов)
-router.post('/url', initDataAuth, checkAdminRole, generateUploadUrl);
+router.post(
+	'/url',
+	initDataAuth,
+	requirePermission('uploads:write'),
+	generateUploadUrl,
+);
 
 // Получение множественных оптимизированных URL (для всех авторизованных пользователей)
 router.post('/batch-urls', initDataAuth, getBatchUrls);
@@ -21,6 +26,11 @@ router.post('/batch-urls', initDataAuth, getBatchUrls);
 router.post('/fast-urls', initDataAuth, getFastImageUrls);
 
 // Получение статистики кэша (только для админов)
-router.get('/cache-stats', initDataAuth, checkAdminRole, getCacheStats);
+router.get(
+	'/cache-stats',
+	initDataAuth,
+	requirePermission('system:read'),
+	getCacheStats,
+);
 
 export default router;
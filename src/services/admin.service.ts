@@ -1,10 +1,17 @@
 import { prisma } from '../prisma';
 import { config } from '../config/env';
+import { AdminPermissionSet, AdminUser } from '../../generated/prisma';
 import {
 	invalidateAdminCache,
-	invalidateAllAdminCache,
 	checkIsAdminUser,
+	isBootstrapOwner,
 } from '../middleware/checkAdminRole';
+import { AuditLogService, AUDIT_ACTIONS } from './auditLog.service';
+import { redisService } from './redis.service';
+
+// Сверка владельцев запускается во всех процессах PM2, выполняет ее только один
+const RECONCILE_LOCK_KEY = 'owners_reconcile:lock';
+const RECONCILE_LOCK_TTL = 60;
 
 export class AdminService {
 	/**
@@ -15,6 +22,20 @@ export class AdminService {
 		return await checkIsAdminUser(telegramId);
 	}
 
+	/**
+	 * Проверяет, является ли пользователь владельцем
+	 * Статус в базе важнее переменной окружения, чтобы учитывалась передача прав,
+	 * а владельцы из окружения учитываются, только пока в базе нет ни одного владельца
+	 */
+	static async isOwner(telegramId: string): Promise<boolean> {
+		const admin = await prisma.adminUser.findUnique({
+			where: { telegramId },
+			select: { isOwner: true },
+		});
+
+		return admin ? admin.isOwner : await isBootstrapOwner(telegramId);
+	}
+
 	/**
 	 * Добавляет нового админа
 	 */
@@ -22,6 +43,7 @@ export class AdminService {
 		telegramId: string,
 		username: string | null,
 		addedBy: string,
+		permissionSet: AdminPermissionSet = 'superadmin',
 	): Promise<{ success: boolean; message: string }> {
 		try {
 			// Проверяем, что добавляющий является админом
@@ -47,6 +69,7 @@ export class AdminService {
 						telegramId,
 						username,
 						addedBy,
+						permissionSet,
 					},
 				});
 
@@ -73,7 +96,7 @@ export class AdminService {
 	static async removeAdmin(
 		telegramId: string,
 		removedBy: string,
-	): Promise<{ success: boolean; message: string }> {
+	): Promise<{ success: boolean; message: string; removedAdmin?: AdminUser }> {
 		try {
 			// Проверяем, что удаляющий является админом
 			const isAdminUser = await this.isAdmin(removedBy);
@@ -86,15 +109,15 @@ export class AdminService {
 				return { success: false, message: 'Нельзя удалить самого себя' };
 			}
 
-			// Нельзя удалить главного админа (из переменной окружения)
-			if (telegramId === config.telegram.adminId) {
-				return { success: false, message: 'Нельзя удалить главного админа' };
+			// Нельзя удалить владельца, сначала нужно передать права владельца
+			if (await this.isOwner(telegramId)) {
+				return { success: false, message: 'Нельзя удалить владельца' };
 			}
 
 			// Выполняем операции в транзакции для обеспечения целостности
-			await prisma.$transaction(async (tx) => {
+			const removedAdmin = await prisma.$transaction(async (tx) => {
 				// Удаляем из таблицы админов
-				await tx.adminUser.delete({
+				const admin = await tx.adminUser.delete({
 					where: { telegramId },
 				});
 
@@ -103,12 +126,14 @@ export class AdminService {
 					where: { telegramId },
 					data: { role: 'user' },
 				});
+
+				return admin;
 			});
 
 			// КРИТИЧЕСКОЕ ИСПРАВЛЕНИЕ: Инвалидируем кэш админа сразу после удаления
 			await invalidateAdminCache(telegramId);
 
-			return { success: true, message: 'Админ успешно удален' };
+			return { success: true, message: 'Админ успешно удален', removedAdmin };
 		} catch (error) {
 			console.error('Ошибка при удалении админа:', error);
 			return { success: false, message: 'Админ не найден или ошибка сервера' };
@@ -158,6 +183,7 @@ export class AdminService {
 	static async addAdminByUsername(
 		username: string,
 		addedBy: string,
+		permissionSet: AdminPermissionSet = 'superadmin',
 	): Promise<{ success: boolean; message: string }> {
 		try {
 			// Проверяем, что добавляющий является админом
@@ -181,13 +207,71 @@ export class AdminService {
 			}
 
 			// Используем существующий метод добавления админа
-			return await this.addAdmin(user.telegramId, user.username, addedBy);
+			return await this.addAdmin(
+				user.telegramId,
+				user.username,
+				addedBy,
+				permissionSet,
+			);
 		} catch (error) {
 			console.error('Ошибка при добавлении админа по username:', error);
 			return { success: false, message: 'Ошибка сервера' };
 		}
 	}
 
+	/**
+	 * Меняет набор прав админа
+	 */
+	static async updatePermissionSet(
+		telegramId: string,
+		permissionSet: AdminPermissionSet,
+		changedBy: string,
+	): Promise<{
+		success: boolean;
+		message: string;
+		previousPermissionSet?: AdminPermissionSet;
+	}> {
+		try {
+			// Нельзя изменить свои права, чтобы не лишиться доступа к управлению админами
+			if (telegramId === changedBy) {
+				return { success: false, message: 'Нельзя изменить собственные права' };
+			}
+
+			// Владельцы всегда имеют все права
+			if (await this.isOwner(telegramId)) {
+				return {
+					success: false,
+					message: 'Нельзя изменить права владельца',
+				};
+			}
+
+			const admin = await prisma.adminUser.findUnique({
+				where: { telegramId },
+				select: { permissionSet: true },
+			});
+
+			if (!admin) {
+				return { success: false, message: 'Админ не найден' };
+			}
+
+			await prisma.adminUser.update({
+				where: { telegramId },
+				data: { permissionSet },
+			});
+
+			await invalidateAdminCache(telegramId);
+
+			return {
+				success: true,
+				message: 'Права админа обновлены',
+				previousPermissionSet: admin.permissionSet,
+			};
+		} catch (error) {
+			console.error('Ошибка при изменении прав админа:', error);
+			return { success: false, message: 'Ошибка сервера' };
+		}
+	}
+
 	/**
 	 * Получает список всех админов
 	 */
@@ -199,25 +283,32 @@ export class AdminService {
 					telegramId: true,
 					username: true,
 					addedBy: true,
+					permissionSet: true,
+					isOwner: true,
 					createdAt: true,
 				},
 				orderBy: { createdAt: 'asc' },
 			});
 
-			// Добавляем главного админа из переменной окружения, если его нет в списке
-			const mainAdminExists = admins.some(
-				(admin) => admin.telegramId === config.telegram.adminId,
-			);
-
-			if (!mainAdminExists) {
-				admins.unshift({
-					id: 'main-admin',
-					telegramId: config.telegram.adminId,
-					username: 'Главный админ',
+			// Добавляем владельцев из переменной окружения, если сверка при запуске еще не прошла
+			const hasOwners = admins.some((admin) => admin.isOwner);
+			const missingOwners = hasOwners
+				? []
+				: config.telegram.ownerIds.filter(
+						(ownerId) => !admins.some((admin) => admin.telegramId === ownerId),
+				  );
+
+			admins.unshift(
+				...missingOwners.map((ownerId) => ({
+					id: `owner-${ownerId}`,
+					telegramId: ownerId,
+					username: 'Владелец',
 					addedBy: null,
+					permissionSet: 'superadmin' as const,
+					isOwner: true,
 					createdAt: new Date('2024-01-01'),
-				});
-			}
+				})),
+			);
 
 			return admins;
 		} catch (error) {
@@ -227,82 +318,122 @@ export class AdminService {
 	}
 
 	/**
-	 * Проверяет изменение главного админа и сбрасывает список админов при необходимости
-	 * Вызывается при запуске сервера
+	 * Сверяет владельцев с переменной окружения и применяет только разницу
+	 * с предыдущим запуском: новые владельцы добавляются, убранные из списка
+	 * теряют статус владельца, но остаются админами. Остальные админы не меняются,
+	 * поэтому передача прав через API не откатывается при перезапуске
+	 * Вызывается при запуске сервера, выполняет только процесс, взявший блокировку
 	 */
-	static async checkAndResetAdminsOnMainAdminChange(): Promise<void> {
-		try {
-			const LAST_MAIN_ADMIN_KEY = 'last_main_admin_id';
+	static async reconcileOwners(): Promise<void> {
+		const lockToken = await redisService.acquireLock(
+			RECONCILE_LOCK_KEY,
+			RECONCILE_LOCK_TTL,
+		);
+		if (!lockToken) {
+			return;
+		}
 
-			// Получаем сохраненный ID главного админа из базы данных
-			const lastMainAdminId = await prisma.systemSettings.findUnique({
-				where: { key: LAST_MAIN_ADMIN_KEY },
-			});
+		try {
+			const LAST_OWNER_IDS_KEY = 'last_owner_ids';
+
+			const [savedOwnerIds, ownersCount] = await Promise.all([
+				prisma.systemSettings.findUnique({
+					where: { key: LAST_OWNER_IDS_KEY },
+				}),
+				prisma.adminUser.count({ where: { isOwner: true } }),
+			]);
+
+			const currentOwnerIds = config.telegram.ownerIds;
+			// Без сохраненного списка владельцы из окружения назначаются, только если
+			// в базе нет ни одного владельца, иначе откатились бы прошлые передачи прав
+			const previousOwnerIds: string[] = savedOwnerIds
+				? JSON.parse(savedOwnerIds.value)
+				: ownersCount > 0
+				? currentOwnerIds
+				: [];
+
+			const added = currentOwnerIds.filter(
+				(ownerId) => !previousOwnerIds.includes(ownerId),
+			);
+			const removed = previousOwnerIds.filter(
+				(ownerId) => !currentOwnerIds.includes(ownerId),
+			);
 
-			const currentMainAdminId = config.telegram.adminId;
-
-			// Если главный админ изменился
-			if (lastMainAdminId?.value !== currentMainAdminId) {
-				console.log(
-					`Обнаружено изменение главного админа: ${
-						lastMainAdminId?.value || 'не установлен'
-					} -> ${currentMainAdminId}`,
-				);
-
-				// Выполняем операции в транзакции для обеспечения целостности
-				await prisma.$transaction(async (tx) => {
-					// Удаляем всех админов кроме нового главного
-					await tx.adminUser.deleteMany({
-						where: {
-							telegramId: {
-								not: currentMainAdminId,
-							},
+			if (added.length === 0 && removed.length === 0) {
+				if (!savedOwnerIds) {
+					await prisma.systemSettings.create({
+						data: {
+							key: LAST_OWNER_IDS_KEY,
+							value: JSON.stringify(currentOwnerIds),
 						},
 					});
+				}
+				return;
+			}
 
-					// Сбрасываем роли всех пользователей кроме главного админа
-					await tx.user.updateMany({
-						where: {
-							telegramId: {
-								not: currentMainAdminId,
-							},
-							role: 'admin',
-						},
-						data: {
-							role: 'user',
+			await prisma.$transaction(async (tx) => {
+				for (const telegramId of added) {
+					const user = await tx.user.findUnique({
+						where: { telegramId },
+						select: { username: true },
+					});
+
+					await tx.adminUser.upsert({
+						where: { telegramId },
+						update: { isOwner: true, permissionSet: 'superadmin' },
+						create: {
+							telegramId,
+							username: user?.username || null,
+							isOwner: true,
+							permissionSet: 'superadmin',
 						},
 					});
 
-					// Устанавливаем роль админа для нового главного админа
 					await tx.user.updateMany({
-						where: {
-							telegramId: currentMainAdminId,
-						},
-						data: {
-							role: 'admin',
-						},
+						where: { telegramId },
+						data: { role: 'admin' },
 					});
+				}
 
-					// Сохраняем новый ID главного админа
-					await tx.systemSettings.upsert({
-						where: { key: LAST_MAIN_ADMIN_KEY },
-						update: { value: currentMainAdminId },
-						create: {
-							key: LAST_MAIN_ADMIN_KEY,
-							value: currentMainAdminId,
-						},
+				if (removed.length > 0) {
+					await tx.adminUser.updateMany({
+						where: { telegramId: { in: removed } },
+						data: { isOwner: false },
 					});
+				}
+
+				await tx.systemSettings.upsert({
+					where: { key: LAST_OWNER_IDS_KEY },
+					update: { value: JSON.stringify(currentOwnerIds) },
+					create: {
+						key: LAST_OWNER_IDS_KEY,
+						value: JSON.stringify(currentOwnerIds),
+					},
 				});
+			});
+
+			await Promise.all(
+				[...added, ...removed].map((telegramId) =>
+					invalidateAdminCache(telegramId),
+				),
+			);
 
-				// КРИТИЧЕСКОЕ ИСПРАВЛЕНИЕ: Полностью очищаем кэш админов при сбросе
-				await invalidateAllAdminCache();
+			await AuditLogService.recordForActor('system', {
+				action: AUDIT_ACTIONS.OWNERS_RECONCILE,
+				targetType: 'owner',
+				before: { ownerIds: previousOwnerIds },
+				after: { ownerIds: currentOwnerIds, added, removed },
+			});
 
-				console.log(
-					`Список админов сброшен. Оставлен только главный админ: ${currentMainAdminId}`,
-				);
-			}
+			console.log(
+				`Владельцы сверены с окружением: добавлены [${added.join(
+					', ',
+				)}], сняты [${removed.join(', ')}]`,
+			);
 		} catch (error) {
-			console.error('Ошибка при проверке изменения главного админа:', error);
+			console.error('Ошибка при сверке владельцев:', error);
+		} finally {
+			await redisService.releaseLock(RECONCILE_LOCK_KEY, lockToken);
 		}
 	}
 }
@@ -0,0 +1,332 @@
+import crypto from 'crypto';
+import { Request } from 'express';
+import { prisma } from '../prisma';
+import { redisService } from './redis.service';
+import { AnalyticsService } from './analytics.service';
+import { TrashService } from './trash.service';
+import {
+	AuditLogService,
+	AUDIT_ACTIONS,
+	getClientIp,
+} from './auditLog.service';
+import { invalidateAnalyticsCache } from '../utils/cacheUtils';
+import { parseAnalyticsScope } from '../utils/analyticsScope';
+import {
+	getAdminPermissions,
+	invalidateAllAdminCache,
+} from '../middleware/checkAdminRole';
+import { getTelegramIdFromRequest } from '../utils/roleUtils';
+import { Permission, hasPermission } from '../utils/permissions';
+
+// Операции ждут подтверждения в Redis, чтобы его мог принять любой процесс PM2
+const PENDING_OPERATION_PREFIX = 'admin_confirmation:';
+const OPERATION_RESULT_PREFIX = 'admin_confirmation_result:';
+// Очередь сообщений с кнопками подтверждения, ее разбирает бот в master процессе
+export const CONFIRMATION_QUEUE = 'admin_confirmation_queue';
+
+// Сколько секунд админ может подтвердить операцию в боте
+export const CONFIRMATION_TTL = 5 * 60;
+const OPERATION_RESULT_TTL = 60 * 60;
+
+export type PendingOperationType =
+	| 'analytics.reset'
+	| 'club.delete'
+	| 'cache.clear_all';
+
+export interface PendingOperation {
+	id: string;
+	type: PendingOperationType;
+	actorId: string;
+	ip: string | null;
+	params: Record<string, string>;
+	// Текст вопроса в сообщении бота
+	description: string;
+	// Право проверяется повторно в момент подтверждения
+	permission: Permission;
+	expiresAt: string;
+}
+
+export type OperationStatus = 'pending' | 'confirmed' | 'cancelled' | 'failed';
+
+export interface OperationResult {
+	success: boolean;
+	message: string;
+}
+
+/**
+ * Выполнение подтвержденных операций, возвращает текст для сообщения в боте
+ */
+const OPERATION_HANDLERS: Record<
+	PendingOperationType,
+	(operation: PendingOperation) => Promise<string>
+> = {
+	'analytics.reset': async (operation) => {
+		const scope = parseAnalyticsScope(operation.params);
+		if (!scope.valid) {
+			throw new Error(scope.error);
+		}
+
+		const result = await AnalyticsService.resetAnalytics(scope.data);
+		await invalidateAnalyticsCache();
+
+		await AuditLogService.recordForActor(
+			operation.actorId,
+			{
+				action: AUDIT_ACTIONS.ANALYTICS_RESET,
+				targetType: 'analytics',
+				after: { scope: operation.params, ...result },
+			},
+			operation.ip,
+		);
+
+		return `Аналитика сброшена: событий ${result.deletedUserEvents}, сессий ${result.deletedGameSessions}, пользователей ${result.deletedUsers}`;
+	},
+
+	'club.delete': async (operation) => {
+		const club = await prisma.club.findFirst({
+			where: { id: operation.params.clubId, deletedAt: null },
+		});
+
+		if (!club) {
+			return 'Клуб уже удален';
+		}
+
+		await TrashService.softDeleteClub(club.id);
+
+		await AuditLogService.recordForActor(
+			operation.actorId,
+			{
+				action: AUDIT_ACTIONS.CLUB_DELETE,
+				targetType: 'club',
+				targetId: club.id,
+				before: club,
+			},
+			operation.ip,
+		);
+
+		return `Клуб «${club.name}» и его игроки перемещены в корзину`;
+	},
+
+	'cache.clear_all': async (operation) => {
+		// Очистка затрагивает и другие ожидающие подтверждения операции
+		await Promise.all([redisService.flushAll(), invalidateAllAdminCache()]);
+
+		await AuditLogService.recordForActor(
+			operation.actorId,
+			{
+				action: AUDIT_ACTIONS.CACHE_CLEAR,
+				targetType: 'cache',
+				targetId: 'all',
+			},
+			operation.ip,
+		);
+
+		return 'Весь кеш включая админский успешно очищен';
+	},
+};
+
+export class AdminConfirmationService {
+	/**
+	 * Создает операцию, ожидающую подтверждения в боте, и ставит сообщение в очередь
+	 */
+	static async createPendingOperation(
+		req: Request,
+		operation: Pick<
+			PendingOperation,
+			'type' | 'params' | 'description' | 'permission'
+		>,
+	): Promise<PendingOperation> {
+		const actorId = getTelegramIdFromRequest(req);
+		if (!actorId) {
+			throw new Error('Не удалось определить админа для подтверждения');
+		}
+
+		const pending: PendingOperation = {
+			...operation,
+			id: crypto.randomUUID(),
+			actorId,
+			ip: getClientIp(req),
+			expiresAt: new Date(Date.now() + CONFIRMATION_TTL * 1000).toISOString(),
+		};
+
+		await redisService.set(
+			`${PENDING_OPERATION_PREFIX}${pending.id}`,
+			JSON.stringify(pending),
+			CONFIRMATION_TTL,
+		);
+		await redisService.getClient().rpush(CONFIRMATION_QUEUE, pending.id);
+
+		return pending;
+	}
+
+	/**
+	 * Достает из очереди следующую операцию для отправки сообщения (только master процесс)
+	 * Просроченные операции пропускаются
+	 */
+	static async popQueuedOperation(): Promise<PendingOperation | null> {
+		const client = redisService.getClient();
+
+		let id = await client.lpop(CONFIRMATION_QUEUE);
+		while (id) {
+			const operation = await this.getPendingOperation(id);
+			if (operation) {
+				return operation;
+			}
+			id = await client.lpop(CONFIRMATION_QUEUE);
+		}
+
+		return null;
+	}
+
+	/**
+	 * Получает ожидающую операцию, если срок подтверждения не истек
+	 */
+	static async getPendingOperation(
+		id: string,
+	): Promise<PendingOperation | null> {
+		const data = await redisService.get(`${PENDING_OPERATION_PREFIX}${id}`);
+		return data ? JSON.parse(data) : null;
+	}
+
+	/**
+	 * Подтверждает и выполняет операцию
+	 * Подтвердить может только админ, запросивший операцию
+	 */
+	static async confirm(
+		id: string,
+		telegramId: string,
+	): Promise<OperationResult> {
+		const operation = await this.takeOperation(id, telegramId);
+		if (!operation.success) {
+			return operation;
+		}
+
+		const { pending } = operation;
+
+		// Права могли отобрать, пока операция ждала подтверждения
+		const permissions = await getAdminPermissions(telegramId);
+		if (!hasPermission(permissions, pending.permission)) {
+			return this.saveResult(pending, 'cancelled', {
+				success: false,
+				message: 'Недостаточно прав для выполнения операции',
+			});
+		}
+
+		try {
+			const message = await OPERATION_HANDLERS[pending.type](pending);
+			return this.saveResult(pending, 'confirmed', { success: true, message });
+		} catch (error) {
+			console.error(`Ошибка при выполнении операции ${pending.type}:`, error);
+			return this.saveResult(pending, 'failed', {
+				success: false,
+				message: 'Ошибка при выполнении операции',
+			});
+		}
+	}
+
+	/**
+	 * Отменяет операцию без выполнения
+	 */
+	static async cancel(
+		id: string,
+		telegramId: string,
+	): Promise<OperationResult> {
+		const operation = await this.takeOperation(id, telegramId);
+		if (!operation.success) {
+			return operation;
+		}
+
+		return this.saveResult(operation.pending, 'cancelled', {
+			success: true,
+			message: 'Операция отменена',
+		});
+	}
+
+	/**
+	 * Статус операции для админа, который ее запросил
+	 */
+	static async getStatus(
+		id: string,
+		telegramId: string,
+	): Promise<
+		| { status: OperationStatus; message?: string; expiresAt?: string }
+		| { status: 'expired' }
+		| null
+	> {
+		const pending = await this.getPendingOperation(id);
+		if (pending) {
+			return pending.actorId === telegramId
+				? { status: 'pending', expiresAt: pending.expiresAt }
+				: null;
+		}
+
+		const data = await redisService.get(`${OPERATION_RESULT_PREFIX}${id}`);
+		if (!data) {
+			return { status: 'expired' };
+		}
+
+		const result = JSON.parse(data);
+		return result.actorId === telegramId
+			? { status: result.status, message: result.message }
+			: null;
+	}
+
+	/**
+	 * Атомарно забирает операцию из Redis, чтобы повторное нажатие кнопки ее не выполнило
+	 */
+	private static async takeOperation(
+		id: string,
+		telegramId: string,
+	): Promise<
+		| { success: true; pending: PendingOperation }
+		| { success: false; message: string }
+	> {
+		const key = `${PENDING_OPERATION_PREFIX}${id}`;
+		const pending = await this.getPendingOperation(id);
+
+		if (!pending) {
+			return {
+				success: false,
+				message: 'Время подтверждения истекло или операция уже выполнена',
+			};
+		}
+
+		if (pending.actorId !== telegramId) {
+			return {
+				success: false,
+				message: 'Подтвердить операцию может только админ, который ее запросил',
+			};
+		}
+
+		const deleted = await redisService.delete(key);
+		if (deleted === 0) {
+			return {
+				success: false,
+				message: 'Время подтверждения истекло или операция уже выполнена',
+			};
+		}
+
+		return { success: true, pending };
+	}
+
+	/**
+	 * Сохраняет результат, чтобы приложение могло узнать исход операции
+	 */
+	private static async saveResult(
+		operation: PendingOperation,
+		status: OperationStatus,
+		result: OperationResult,
+	): Promise<OperationResult> {
+		try {
+			await redisService.set(
+				`${OPERATION_RESULT_PREFIX}${operation.id}`,
+				JSON.stringify({ status, actorId: operation.actorId, ...result }),
+				OPERATION_RESULT_TTL,
+			);
+		} catch (error) {
+			console.warn('Не удалось сохранить результат операции:', error);
+		}
+
+		return result;
+	}
+}
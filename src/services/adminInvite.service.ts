@@ -0,0 +1,140 @@
+import crypto from 'crypto';
+import { prisma } from '../prisma';
+import { config } from '../config/env';
+import { AdminPermissionSet } from '../../generated/prisma';
+import {
+	checkIsAdminUser,
+	invalidateAdminCache,
+} from '../middleware/checkAdminRole';
+
+// Префикс параметра /start для приглашения в админы
+export const ADMIN_INVITE_START_PREFIX = 'invite_';
+
+// base64url укладывается в ограничения параметра /start (до 64 символов A-Za-z0-9_-)
+const INVITE_TOKEN_BYTES = 24;
+const INVITE_TOKEN_PATTERN = /^[A-Za-z0-9_-]{32}$/;
+
+export interface AdminInviteRedeemResult {
+	success: boolean;
+	message: string;
+	invite?: {
+		id: string;
+		permissionSet: AdminPermissionSet;
+		createdBy: string;
+	};
+}
+
+/**
+ * Ссылка вида t.me/<bot>?start=invite_<token>, открывающая бота с приглашением
+ */
+export function buildAdminInviteLink(token: string): string {
+	return `https://t.me/${config.telegram.botUsername}?start=${ADMIN_INVITE_START_PREFIX}${token}`;
+}
+
+export class AdminInviteService {
+	/**
+	 * Создает одноразовое приглашение в админы с заданным набором прав
+	 */
+	static async createInvite(
+		createdBy: string,
+		permissionSet: AdminPermissionSet,
+		ttlHours: number = config.adminInvites.ttlHours,
+	) {
+		const token = crypto.randomBytes(INVITE_TOKEN_BYTES).toString('base64url');
+
+		const invite = await prisma.adminInvite.create({
+			data: {
+				token,
+				permissionSet,
+				createdBy,
+				expiresAt: new Date(Date.now() + ttlHours * 60 * 60 * 1000),
+			},
+		});
+
+		return {
+			id: invite.id,
+			permissionSet: invite.permissionSet,
+			expiresAt: invite.expiresAt,
+			link: buildAdminInviteLink(token),
+		};
+	}
+
+	/**
+	 * Принимает приглашение: делает пользователя админом и помечает приглашение использованным
+	 */
+	static async redeemInvite(
+		token: string,
+		user: { telegramId: string; username: string | null },
+	): Promise<AdminInviteRedeemResult> {
+		const invite = INVITE_TOKEN_PATTERN.test(token)
+			? await prisma.adminInvite.findUnique({ where: { token } })
+			: null;
+
+		if (!invite) {
+			return { success: false, message: 'Приглашение не найдено' };
+		}
+
+		if (invite.usedAt) {
+			return { success: false, message: 'Приглашение уже использовано' };
+		}
+
+		if (invite.expiresAt <= new Date()) {
+			return { success: false, message: 'Срок действия приглашения истек' };
+		}
+
+		// Приглашение от админа, которого уже удалили, больше не действует
+		if (!(await checkIsAdminUser(invite.createdBy))) {
+			return { success: false, message: 'Приглашение больше не действует' };
+		}
+
+		// Уже существующему админу приглашение не нужно, оставляем его неиспользованным
+		if (await checkIsAdminUser(user.telegramId)) {
+			return { success: false, message: 'Вы уже являетесь админом' };
+		}
+
+		const redeemed = await prisma.$transaction(async (tx) => {
+			// Условие на usedAt защищает от одновременного использования одной ссылки
+			const { count } = await tx.adminInvite.updateMany({
+				where: { id: invite.id, usedAt: null, expiresAt: { gt: new Date() } },
+				data: { usedAt: new Date(), usedBy: user.telegramId },
+			});
+
+			if (count === 0) {
+				return false;
+			}
+
+			await tx.adminUser.create({
+				data: {
+					telegramId: user.telegramId,
+					username: user.username,
+					addedBy: invite.createdBy,
+					permissionSet: invite.permissionSet,
+				},
+			});
+
+			// Обновляем роль пользователя в основной таблице, если он уже заходил в приложение
+			await tx.user.updateMany({
+				where: { telegramId: user.telegramId },
+				data: { role: 'admin' },
+			});
+
+			return true;
+		});
+
+		if (!redeemed) {
+			return { success: false, message: 'Приглашение уже использовано' };
+		}
+
+		await invalidateAdminCache(user.telegramId);
+
+		return {
+			success: true,
+			message: 'Приглашение принято',
+			invite: {
+				id: invite.id,
+				permissionSet: invite.permissionSet,
+				createdBy: invite.createdBy,
+			},
+		};
+	}
+}
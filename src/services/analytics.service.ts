@@ -1,5 +1,12 @@
 import { prisma } from '../prisma';
+import { Prisma } from '../../generated/prisma';
 import { convertBigIntToNumber } from '../utils/bigintUtils';
+import { ShareImageData } from './imageGeneration.service';
+import {
+	AnalyticsScope,
+	describeAnalyticsScope,
+	isFullAnalyticsScope,
+} from '../utils/analyticsScope';
 
 export enum EventType {
 	APP_START = 'app_start',
@@ -23,6 +30,13 @@ export interface AnalyticsStats {
 	};
 }
 
+// Пользователи с сохраненными тир-листами не удаляются при полном сбросе,
+// иначе каскадно пропали бы их тир-листы и публичные ссылки на них
+const RESETTABLE_USERS_WHERE: Prisma.UserWhereInput = {
+	role: 'user',
+	tierLists: { none: {} },
+};
+
 export class AnalyticsService {
 	/**
 	 * Логирует событие пользователя (исключая админов)
@@ -58,10 +72,12 @@ export class AnalyticsService {
 
 	/**
 	 * Начинает новую игровую сессию (исключая админов)
+	 * Игра идет по составу клуба или по подборке игроков
 	 */
 	static async startGameSession(
 		telegramId: string,
-		clubId: string,
+		clubId: string | null,
+		collectionId: string | null = null,
 	): Promise<string | null> {
 		try {
 			// Проверяем роль пользователя - не создаем сессии для админов
@@ -88,11 +104,19 @@ export class AnalyticsService {
 				return activeSession.id;
 			}
 
+			// Запоминаем сезон, состав которого актуален на момент игры
+			const currentSeason = await prisma.season.findFirst({
+				where: { isCurrent: true },
+				select: { id: true },
+			});
+
 			// Создаем новую сессию только если нет активной
 			const session = await prisma.gameSession.create({
 				data: {
 					telegramId,
 					clubId,
+					collectionId,
+					seasonId: currentSeason?.id || null,
 				},
 			});
 
@@ -131,6 +155,7 @@ export class AnalyticsService {
 
 	/**
 	 * Завершает активные сессии старше указанного времени
+	 * Сессии с недавно обновленным черновиком не завершаются, черновики истекших сессий удаляются
 	 */
 	static async expireOldSessions(hoursOld: number = 24): Promise<number> {
 		try {
@@ -143,10 +168,16 @@ export class AnalyticsService {
 					startedAt: {
 						lt: expireTime,
 					},
+					OR: [
+						{ draftUpdatedAt: null },
+						{ draftUpdatedAt: { lt: expireTime } },
+					],
 				},
 				data: {
 					isCompleted: true,
 					completedAt: new Date(),
+					draft: Prisma.DbNull,
+					draftUpdatedAt: null,
 				},
 			});
 
@@ -180,6 +211,8 @@ export class AnalyticsService {
 				data: {
 					isCompleted: true,
 					completedAt: new Date(),
+					draft: Prisma.DbNull,
+					draftUpdatedAt: null,
 				},
 			});
 
@@ -222,10 +255,47 @@ export class AnalyticsService {
 		}
 	}
 
+	/**
+	 * Сохраняет черновик тир-листа в активную сессию пользователя
+	 * Возвращает обновленную сессию или null, если активной сессии нет
+	 */
+	static async saveSessionDraft(
+		sessionId: string,
+		draft: ShareImageData,
+	): Promise<{ id: string; draftUpdatedAt: Date | null } | null> {
+		const result = await prisma.gameSession.updateMany({
+			where: {
+				id: sessionId,
+				isCompleted: false,
+			},
+			data: {
+				draft: {
+					categories: draft.categories,
+					categorizedPlayerIds: draft.categorizedPlayerIds,
+				},
+				draftUpdatedAt: new Date(),
+			},
+		});
+
+		if (result.count === 0) {
+			return null;
+		}
+
+		return prisma.gameSession.findUnique({
+			where: { id: sessionId },
+			select: { id: true, draftUpdatedAt: true },
+		});
+	}
+
 	/**
 	 * Завершает игровую сессию (исключая админов)
+	 * Возвращает завершенную сессию или null, если активной сессии не было
 	 */
-	static async completeGameSession(telegramId: string): Promise<void> {
+	static async completeGameSession(telegramId: string): Promise<{
+		id: string;
+		clubId: string | null;
+		collectionId: string | null;
+	} | null> {
 		try {
 			// Проверяем роль пользователя - не завершаем сессии для админов
 			const user = await prisma.user.findUnique({
@@ -234,7 +304,7 @@ export class AnalyticsService {
 			});
 
 			if (user?.role === 'admin') {
-				return;
+				return null;
 			}
 
 			// Находим активную сессию пользователя
@@ -251,11 +321,22 @@ export class AnalyticsService {
 					data: {
 						isCompleted: true,
 						completedAt: new Date(),
+						draft: Prisma.DbNull,
+						draftUpdatedAt: null,
 					},
 				});
+
+				return {
+					id: activeSession.id,
+					clubId: activeSession.clubId,
+					collectionId: activeSession.collectionId,
+				};
 			}
+
+			return null;
 		} catch (error) {
 			console.error('Ошибка при завершении игровой сессии:', error);
+			return null;
 		}
 	}
 
@@ -392,8 +473,12 @@ export class AnalyticsService {
 
 	/**
 	 * Получает детальную статистику по периодам (исключая админов)
+	 * При groupBy = 'league' топ клубов дополнительно группируется по лигам
 	 */
-	static async getDetailedStats(days: number = 7): Promise<any> {
+	static async getDetailedStats(
+		days: number = 7,
+		groupBy?: 'league',
+	): Promise<any> {
 		try {
 			const endDate = new Date();
 			const startDate = new Date();
@@ -474,6 +559,14 @@ export class AnalyticsService {
 			return {
 				dailyStats,
 				topClubs: topClubsWithNames,
+				...(groupBy === 'league'
+					? {
+							topClubsByLeague: await this.getTopClubsByLeague(
+								startDate,
+								endDate,
+							),
+					  }
+					: {}),
 			};
 		} catch (error) {
 			console.error('Ошибка при получении детальной статистики:', error);
@@ -482,52 +575,218 @@ export class AnalyticsService {
 	}
 
 	/**
-	 * Сбрасывает всю аналитику (только для суперадминов)
-	 * Очищает таблицы user_events, game_sessions и удаляет обычных пользователей
+	 * Группирует завершенные игры за период по лигам (исключая админов)
+	 * Клуб из нескольких лиг учитывается в каждой из них,
+	 * клубы без лиги попадают в отдельную группу с leagueId = null
 	 */
-	static async resetAnalytics(): Promise<{
+	private static async getTopClubsByLeague(
+		startDate: Date,
+		endDate: Date,
+		clubsPerLeague: number = 5,
+	) {
+		const clubStatsRaw = await prisma.gameSession.groupBy({
+			by: ['clubId'],
+			where: {
+				isCompleted: true,
+				clubId: {
+					not: null,
+				},
+				completedAt: {
+					gte: startDate,
+					lte: endDate,
+				},
+				User: {
+					role: 'user',
+				},
+			},
+			_count: {
+				id: true,
+			},
+		});
+
+		const clubStats = convertBigIntToNumber(clubStatsRaw) as Array<{
+			clubId: string;
+			_count: { id: number };
+		}>;
+
+		const clubs = await prisma.club.findMany({
+			where: { id: { in: clubStats.map((stat) => stat.clubId) } },
+			select: {
+				id: true,
+				name: true,
+				leagues: {
+					select: { league: { select: { id: true, name: true } } },
+				},
+			},
+		});
+		const clubsMap = new Map(clubs.map((club) => [club.id, club]));
+
+		const groups = new Map<
+			string | null,
+			{
+				leagueId: string | null;
+				leagueName: string;
+				gameCount: number;
+				clubs: Array<{ clubId: string; clubName: string; gameCount: number }>;
+			}
+		>();
+
+		for (const stat of clubStats) {
+			const club = clubsMap.get(stat.clubId);
+			const clubStat = {
+				clubId: stat.clubId,
+				clubName: club?.name || 'Неизвестный клуб',
+				gameCount: stat._count.id,
+			};
+
+			const leagues = club?.leagues.length
+				? club.leagues.map(({ league }) => league)
+				: [{ id: null, name: 'Без лиги' }];
+
+			for (const league of leagues) {
+				const group = groups.get(league.id) || {
+					leagueId: league.id,
+					leagueName: league.name,
+					gameCount: 0,
+					clubs: [],
+				};
+
+				group.gameCount += clubStat.gameCount;
+				group.clubs.push(clubStat);
+				groups.set(league.id, group);
+			}
+		}
+
+		return Array.from(groups.values())
+			.sort((a, b) => b.gameCount - a.gameCount)
+			.map((group) => ({
+				...group,
+				clubs: group.clubs
+					.sort((a, b) => b.gameCount - a.gameCount)
+					.slice(0, clubsPerLeague),
+			}));
+	}
+
+	/**
+	 * Условие на события в области сброса
+	 * Клуб хранится в metadata событий запуска приложения и начала игры
+	 */
+	private static buildEventWhere(
+		scope: AnalyticsScope,
+	): Prisma.UserEventWhereInput {
+		return {
+			...(scope.telegramId ? { telegramId: scope.telegramId } : {}),
+			...(scope.eventType ? { eventType: scope.eventType } : {}),
+			...(scope.clubId
+				? { metadata: { path: ['clubId'], equals: scope.clubId } }
+				: {}),
+			...(scope.from || scope.to
+				? {
+						createdAt: {
+							...(scope.from ? { gte: scope.from } : {}),
+							...(scope.to ? { lt: scope.to } : {}),
+						},
+				  }
+				: {}),
+		};
+	}
+
+	/**
+	 * Условие на игровые сессии в области сброса
+	 * При сбросе по типу события сессии не затрагиваются
+	 */
+	private static buildSessionWhere(
+		scope: AnalyticsScope,
+	): Prisma.GameSessionWhereInput | null {
+		if (scope.eventType) {
+			return null;
+		}
+
+		return {
+			...(scope.telegramId ? { telegramId: scope.telegramId } : {}),
+			...(scope.clubId ? { clubId: scope.clubId } : {}),
+			...(scope.from || scope.to
+				? {
+						startedAt: {
+							...(scope.from ? { gte: scope.from } : {}),
+							...(scope.to ? { lt: scope.to } : {}),
+						},
+				  }
+				: {}),
+		};
+	}
+
+	/**
+	 * Подсчитывает записи, которые будут удалены при сбросе
+	 * Обычные пользователи удаляются только при полном сбросе,
+	 * keptUsers - пользователи, которых сохранят их тир-листы
+	 */
+	static async previewReset(scope: AnalyticsScope = {}): Promise<{
+		userEvents: number;
+		gameSessions: number;
+		users: number;
+		keptUsers: number;
+	}> {
+		const sessionWhere = this.buildSessionWhere(scope);
+		const isFullReset = isFullAnalyticsScope(scope);
+
+		const [userEvents, gameSessions, users, keptUsers] = await Promise.all([
+			prisma.userEvent.count({ where: this.buildEventWhere(scope) }),
+			sessionWhere ? prisma.gameSession.count({ where: sessionWhere }) : 0,
+			isFullReset ? prisma.user.count({ where: RESETTABLE_USERS_WHERE }) : 0,
+			isFullReset
+				? prisma.user.count({
+						where: { role: 'user', tierLists: { some: {} } },
+				  })
+				: 0,
+		]);
+
+		return { userEvents, gameSessions, users, keptUsers };
+	}
+
+	/**
+	 * Сбрасывает аналитику (только для суперадминов)
+	 * Без области очищает таблицы user_events, game_sessions и удаляет обычных пользователей
+	 * без сохраненных тир-листов, с областью удаляет только подходящие события и игровые сессии
+	 */
+	static async resetAnalytics(scope: AnalyticsScope = {}): Promise<{
 		deletedUserEvents: number;
 		deletedGameSessions: number;
 		deletedUsers: number;
 	}> {
 		try {
-			// Подсчитываем количество записей перед удалением для отчета
-			const userEventsCount = await prisma.userEvent.count();
-			const gameSessionsCount = await prisma.gameSession.count();
-			const usersCount = await prisma.user.count({
-				where: { role: 'user' },
-			});
-
-			console.log(
-				`Найдено записей для удаления: ${userEventsCount} событий, ${gameSessionsCount} сессий, ${usersCount} пользователей`,
-			);
+			const eventWhere = this.buildEventWhere(scope);
+			const sessionWhere = this.buildSessionWhere(scope);
+			const isFullReset = isFullAnalyticsScope(scope);
 
 			// Выполняем операции удаления в транзакции
 			const result = await prisma.$transaction(async (tx) => {
-				// 1. Удаляем все события пользователей
-				await tx.userEvent.deleteMany({});
-				console.log('Все события пользователей удалены');
+				// 1. Удаляем события пользователей
+				const userEvents = await tx.userEvent.deleteMany({
+					where: eventWhere,
+				});
 
-				// 2. Удаляем все игровые сессии
-				await tx.gameSession.deleteMany({});
-				console.log('Все игровые сессии удалены');
+				// 2. Удаляем игровые сессии
+				const gameSessions = sessionWhere
+					? await tx.gameSession.deleteMany({ where: sessionWhere })
+					: { count: 0 };
 
-				// 3. Удаляем всех обычных пользователей (сохраняем только админов)
-				await tx.user.deleteMany({
-					where: {
-						role: 'user',
-					},
-				});
-				console.log('Все обычные пользователи удалены');
+				// 3. При полном сбросе удаляем обычных пользователей (сохраняем админов и авторов тир-листов)
+				const users = isFullReset
+					? await tx.user.deleteMany({ where: RESETTABLE_USERS_WHERE })
+					: { count: 0 };
 
 				return {
-					deletedUserEvents: userEventsCount,
-					deletedGameSessions: gameSessionsCount,
-					deletedUsers: usersCount,
+					deletedUserEvents: userEvents.count,
+					deletedGameSessions: gameSessions.count,
+					deletedUsers: users.count,
 				};
 			});
 
-			console.log('Сброс аналитики завершен успешно');
+			console.log(
+				`Сброс аналитики завершен успешно (${describeAnalyticsScope(scope)}):`,
+				result,
+			);
 			return result;
 		} catch (error) {
 			console.error('Ошибка при сбросе аналитики:', error);
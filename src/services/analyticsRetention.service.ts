@@ -0,0 +1,94 @@
+import zlib from 'zlib';
+import { prisma } from '../prisma';
+import { StorageService } from './storage.service';
+import { redisService } from './redis.service';
+import { config } from '../config/env';
+
+// Папка в хранилище с архивами событий, один файл на пачку
+const ARCHIVE_FOLDER = 'analytics-archive/user-events';
+
+// Интервал запускается во всех процессах PM2, очистку выполняет только взявший блокировку
+const RETENTION_LOCK_KEY = 'analytics_retention:lock';
+const RETENTION_LOCK_TTL = 30 * 60;
+
+// Событий в одном файле архива и предел за один запуск, остальное удалится в следующий раз
+const BATCH_SIZE = 5000;
+const MAX_BATCHES_PER_RUN = 20;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface RetentionResult {
+	mode: 'archive' | 'purge';
+	removed: number;
+	files: string[];
+}
+
+export class AnalyticsRetentionService {
+	/**
+	 * Удаляет события пользователей старше срока хранения
+	 * В режиме archive события перед удалением выгружаются в хранилище как JSON lines в gzip
+	 * Возвращает null, если срок хранения не задан или очистку уже выполняет другой процесс
+	 */
+	static async applyRetention(
+		retentionDays: number = config.analytics.retentionDays,
+		mode: 'archive' | 'purge' = config.analytics.retentionMode,
+	): Promise<RetentionResult | null> {
+		if (!retentionDays || retentionDays <= 0) {
+			return null;
+		}
+
+		const lockToken = await redisService.acquireLock(
+			RETENTION_LOCK_KEY,
+			RETENTION_LOCK_TTL,
+		);
+		if (!lockToken) {
+			return null;
+		}
+
+		try {
+			const threshold = new Date(Date.now() - retentionDays * DAY_MS);
+			const storageService = new StorageService();
+			const result: RetentionResult = { mode, removed: 0, files: [] };
+
+			for (let batch = 0; batch < MAX_BATCHES_PER_RUN; batch++) {
+				const events = await prisma.userEvent.findMany({
+					where: { createdAt: { lt: threshold } },
+					orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+					take: BATCH_SIZE,
+				});
+
+				if (events.length === 0) {
+					break;
+				}
+
+				// Сначала сохраняем архив, чтобы при ошибке загрузки события остались в базе
+				if (mode === 'archive') {
+					const lines = events.map((event) => JSON.stringify(event)).join('\n');
+					const key = `${ARCHIVE_FOLDER}/${events[0].createdAt
+						.toISOString()
+						.replace(/[:.]/g, '-')}-${events[0].id}.jsonl.gz`;
+
+					await storageService.uploadBuffer(
+						key,
+						zlib.gzipSync(`${lines}\n`),
+						'application/gzip',
+					);
+					result.files.push(key);
+				}
+
+				const { count } = await prisma.userEvent.deleteMany({
+					where: { id: { in: events.map((event) => event.id) } },
+				});
+				result.removed += count;
+
+				if (events.length < BATCH_SIZE) {
+					break;
+				}
+			}
+
+			return result;
+		} finally {
+			await redisService.releaseLock(RETENTION_LOCK_KEY, lockToken);
+		}
+	}
+}
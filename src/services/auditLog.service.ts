@@ -0,0 +1,179 @@
+import { Request } from 'express';
+import { prisma } from '../prisma';
+import { getTelegramIdFromRequest } from '../utils/roleUtils';
+import { Prisma } from '../../generated/prisma';
+
+export const AUDIT_ACTIONS = {
+	ADMIN_ADD: 'admin.add',
+	ADMIN_REMOVE: 'admin.remove',
+	ADMIN_PERMISSIONS_UPDATE: 'admin.permissions_update',
+	ADMIN_INVITE_CREATE: 'admin.invite_create',
+	ADMIN_INVITE_REDEEM: 'admin.invite_redeem',
+	OWNERS_RECONCILE: 'owner.reconcile',
+	OWNERSHIP_TRANSFER_REQUEST: 'owner.transfer_request',
+	OWNERSHIP_TRANSFER_CONFIRM: 'owner.transfer_confirm',
+	OWNERSHIP_TRANSFER_CANCEL: 'owner.transfer_cancel',
+	CLUB_CREATE: 'club.create',
+	CLUB_UPDATE: 'club.update',
+	CLUB_DELETE: 'club.delete',
+	PLAYER_CREATE: 'player.create',
+	PLAYER_UPDATE: 'player.update',
+	PLAYER_DELETE: 'player.delete',
+	PLAYER_TRANSFER: 'player.transfer',
+	LEAGUE_CREATE: 'league.create',
+	LEAGUE_UPDATE: 'league.update',
+	LEAGUE_DELETE: 'league.delete',
+	LEAGUE_CLUB_ADD: 'league.club_add',
+	LEAGUE_CLUB_REMOVE: 'league.club_remove',
+	SEASON_CREATE: 'season.create',
+	SEASON_UPDATE: 'season.update',
+	SEASON_SET_CURRENT: 'season.set_current',
+	SEASON_DELETE: 'season.delete',
+	TIER_TEMPLATE_CREATE: 'tier_template.create',
+	TIER_TEMPLATE_UPDATE: 'tier_template.update',
+	TIER_TEMPLATE_DELETE: 'tier_template.delete',
+	PLAYER_COLLECTION_CREATE: 'player_collection.create',
+	PLAYER_COLLECTION_UPDATE: 'player_collection.update',
+	PLAYER_COLLECTION_DELETE: 'player_collection.delete',
+	UPLOAD_URL_CREATE: 'upload.url_create',
+	TRASH_RESTORE: 'trash.restore',
+	CATALOG_IMPORT: 'catalog.import',
+	CATALOG_RESTORE: 'catalog.restore',
+	CACHE_CLEAR: 'cache.clear',
+	ANALYTICS_RESET: 'analytics.reset',
+	USER_LIMITS_RESET: 'user_limits.reset',
+} as const;
+
+export type AuditAction = (typeof AUDIT_ACTIONS)[keyof typeof AUDIT_ACTIONS];
+
+export interface AuditLogEntry {
+	action: AuditAction;
+	targetType?: string;
+	targetId?: string;
+	before?: unknown;
+	after?: unknown;
+}
+
+export interface AuditLogFilters {
+	actorId?: string;
+	action?: string;
+	targetType?: string;
+	targetId?: string;
+	from?: Date;
+	to?: Date;
+}
+
+/**
+ * Приводит значение к JSON для записи в журнал (даты становятся строками)
+ */
+const toJson = (value: unknown): Prisma.InputJsonValue | undefined =>
+	value === undefined ? undefined : JSON.parse(JSON.stringify(value));
+
+/**
+ * IP клиента с учетом прокси, как в ограничителе запросов
+ */
+export const getClientIp = (req: Request): string | null => {
+	const forwarded = req.headers['x-forwarded-for'];
+	const ip =
+		(typeof forwarded === 'string' ? forwarded.split(',')[0].trim() : '') ||
+		req.ip ||
+		req.socket?.remoteAddress;
+
+	return ip || null;
+};
+
+export class AuditLogService {
+	/**
+	 * Записывает действие админа в журнал
+	 * Ошибка записи не должна ломать само действие, поэтому она только логируется
+	 */
+	static async record(req: Request, entry: AuditLogEntry): Promise<void> {
+		await this.recordForActor(
+			getTelegramIdFromRequest(req) || 'unknown',
+			entry,
+			getClientIp(req),
+		);
+	}
+
+	/**
+	 * Записывает действие, выполненное вне HTTP запроса (например, через бота)
+	 */
+	static async recordForActor(
+		actorId: string,
+		entry: AuditLogEntry,
+		ip: string | null = null,
+	): Promise<void> {
+		try {
+			await prisma.adminAuditLog.create({
+				data: {
+					actorId,
+					action: entry.action,
+					targetType: entry.targetType,
+					targetId: entry.targetId,
+					before: toJson(entry.before),
+					after: toJson(entry.after),
+					ip,
+				},
+			});
+		} catch (error) {
+			console.error(
+				`Ошибка при записи в журнал действий (${entry.action}):`,
+				error,
+			);
+		}
+	}
+
+	/**
+	 * Получает записи журнала от новых к старым с постраничной выдачей по курсору
+	 */
+	static async getLogs(
+		filters: AuditLogFilters,
+		pagination: { limit: number; cursor?: string },
+	) {
+		const where: Prisma.AdminAuditLogWhereInput = {
+			...(filters.actorId ? { actorId: filters.actorId } : {}),
+			...(filters.action ? { action: filters.action } : {}),
+			...(filters.targetType ? { targetType: filters.targetType } : {}),
+			...(filters.targetId ? { targetId: filters.targetId } : {}),
+			...(filters.from || filters.to
+				? {
+						createdAt: {
+							...(filters.from ? { gte: filters.from } : {}),
+							...(filters.to ? { lte: filters.to } : {}),
+						},
+				  }
+				: {}),
+		};
+
+		const logs = await prisma.adminAuditLog.findMany({
+			where,
+			orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+			take: pagination.limit + 1,
+			...(pagination.cursor
+				? { cursor: { id: pagination.cursor }, skip: 1 }
+				: {}),
+		});
+
+		// Лишняя запись означает, что есть следующая страница
+		const hasMore = logs.length > pagination.limit;
+		const page = hasMore ? logs.slice(0, pagination.limit) : logs;
+
+		// Подставляем username админов, если они есть в базе
+		const actorIds = Array.from(new Set(page.map((log) => log.actorId)));
+		const users = await prisma.user.findMany({
+			where: { telegramId: { in: actorIds } },
+			select: { telegramId: true, username: true },
+		});
+		const usernames = new Map(
+			users.map((user) => [user.telegramId, user.username]),
+		);
+
+		return {
+			logs: page.map((log) => ({
+				...log,
+				actorUsername: usernames.get(log.actorId) || null,
+			})),
+			nextCursor: hasMore ? page[page.length - 1].id : null,
+		};
+	}
+}
@@ -334,12 +334,51 @@ export class SpecializedCaches {
 		);
 	}
 
+	/**
+	 * Кэш для общего тир-листа сообщества (короткоживущий, сбрасывается при новых голосах)
+	 */
+	static async getCommunityTierList<T>(
+		clubId: string,
+		fetchFn: () => Promise<T>,
+	): Promise<T> {
+		return this.cacheService.getOrSet(
+			`community_tier_list:${clubId}`,
+			fetchFn,
+			60 * 1000, // 1 минута L1
+			30 * 60, // 30 минут L2
+		);
+	}
+
+	/**
+	 * Кэш для публичных тир-листов по короткому коду (долгоживущий, расстановка не меняется)
+	 */
+	static async getPublicTierList<T>(
+		code: string,
+		fetchFn: () => Promise<T>,
+	): Promise<T> {
+		return this.cacheService.getOrSet(
+			`public_tier_list:${code}`,
+			fetchFn,
+			10 * 60 * 1000, // 10 минут L1
+			60 * 60, // 1 час L2
+		);
+	}
+
 	/**
 	 * Инвалидация кэша клубов
 	 */
 	static async invalidateClubs(): Promise<void> {
 		await this.cacheService.deletePattern('club:*');
 		await this.cacheService.deletePattern('players:*');
+		await this.cacheService.deletePattern('community_tier_list:*');
+		await this.cacheService.deletePattern('public_tier_list:*');
+	}
+
+	/**
+	 * Инвалидация общего тир-листа сообщества для клуба
+	 */
+	static async invalidateCommunityTierList(clubId: string): Promise<void> {
+		await this.cacheService.delete(`community_tier_list:${clubId}`);
 	}
 
 	/**
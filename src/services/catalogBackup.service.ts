@@ -0,0 +1,710 @@
+import path from 'path';
+import { prisma } from '../prisma';
+import { StorageService } from './storage.service';
+import { invalidateClubsCache } from '../utils/cacheUtils';
+import { invalidateAllAdminCache } from '../middleware/checkAdminRole';
+import { createZipArchive, ZipFile } from '../utils/zipWriter';
+import { ZipArchive } from '../utils/zipReader';
+import {
+	AdminPermissionSet,
+	ClubStatus,
+	PlayerPosition,
+	Prisma,
+} from '../../generated/prisma';
+
+// Версия формата резервной копии, увеличивается при несовместимых изменениях
+export const CATALOG_BACKUP_VERSION = 2;
+// В копиях версии 1 нет лиг, сезонов, подборок и истории трансферов
+const SUPPORTED_BACKUP_VERSIONS = [1, CATALOG_BACKUP_VERSION];
+
+// Имена файлов внутри ZIP архива резервной копии
+export const CATALOG_BACKUP_FILE = 'catalog.json';
+const IMAGES_FOLDER = 'images';
+
+// Заявленный в архиве размер не доверяем: изображения больше лимита пропускаются
+const MAX_IMAGE_SIZE = 5 * 1024 * 1024;
+
+// Разделы, появившиеся во второй версии, в первой версии считаются пустыми
+const V2_SECTIONS = [
+	'seasons',
+	'leagues',
+	'clubLeagues',
+	'rosters',
+	'playerCollections',
+	'playerTransfers',
+] as const;
+
+const IMAGE_MIME_TYPES: { [extension: string]: string } = {
+	'.jpg': 'image/jpeg',
+	'.jpeg': 'image/jpeg',
+	'.png': 'image/png',
+	'.webp': 'image/webp',
+	'.gif': 'image/gif',
+};
+
+export interface CatalogSnapshot {
+	version: number;
+	exportedAt: string;
+	tierTemplates: Array<{
+		id: string;
+		name: string;
+		categories: Prisma.JsonValue;
+		showShirtNumber: boolean;
+		showPosition: boolean;
+	}>;
+	clubs: Array<{
+		id: string;
+		name: string;
+		logo: string;
+		defaultTemplateId: string | null;
+		// Поля публикации появились позже, в старых копиях их нет
+		status?: ClubStatus;
+		publishAt?: string | null;
+		unpublishAt?: string | null;
+		deletedAt: string | null;
+		createdAt: string;
+	}>;
+	players: Array<{
+		id: string;
+		name: string;
+		avatar: string;
+		clubId: string;
+		isActive: boolean;
+		position: PlayerPosition | null;
+		shirtNumber: number | null;
+		nationality: string | null;
+		birthDate: string | null;
+		displayOrder: number;
+		deletedAt: string | null;
+		createdAt: string;
+	}>;
+	admins: Array<{
+		telegramId: string;
+		username: string | null;
+		addedBy: string | null;
+		// Наборы прав и владельцы появились позже, в старых копиях их нет
+		permissionSet?: AdminPermissionSet;
+		isOwner?: boolean;
+		createdAt: string;
+	}>;
+	systemSettings: Array<{ key: string; value: string }>;
+	seasons: Array<{
+		id: string;
+		name: string;
+		startDate: string;
+		endDate: string | null;
+		isCurrent: boolean;
+		createdAt: string;
+	}>;
+	leagues: Array<{
+		id: string;
+		name: string;
+		country: string | null;
+		logo: string;
+		seasonId: string | null;
+		createdAt: string;
+	}>;
+	clubLeagues: Array<{ leagueId: string; clubId: string }>;
+	rosters: Array<{
+		seasonId: string;
+		clubId: string;
+		playerId: string;
+		joinedAt: string;
+		leftAt: string | null;
+	}>;
+	playerCollections: Array<{
+		id: string;
+		name: string;
+		description: string | null;
+		createdAt: string;
+		items: Array<{ playerId: string; position: number }>;
+	}>;
+	playerTransfers: Array<{
+		playerId: string;
+		fromClubId: string | null;
+		toClubId: string | null;
+		transferredAt: string;
+		transferredBy: string | null;
+	}>;
+}
+
+export type CatalogSnapshotResult =
+	| { valid: true; data: CatalogSnapshot }
+	| { valid: false; error: string };
+
+export interface CatalogRestoreSummary {
+	tierTemplates: number;
+	clubs: number;
+	players: number;
+	admins: number;
+	systemSettings: number;
+	seasons: number;
+	leagues: number;
+	clubLeagues: number;
+	rosters: number;
+	playerCollections: number;
+	playerTransfers: number;
+	// existing - файлы, которые уже были в бакете и не перезаписывались
+	images: {
+		uploaded: number;
+		existing: number;
+		missing: number;
+		skipped: number;
+	};
+}
+
+const toDate = (value: string | null): Date | null =>
+	value ? new Date(value) : null;
+
+export class CatalogBackupService {
+	/**
+	 * Собирает снимок каталога: клубы и игроки (включая корзину), шаблоны категорий,
+	 * сезоны с составами, лиги, подборки, историю трансферов, админов и системные настройки
+	 */
+	static async createSnapshot(): Promise<CatalogSnapshot> {
+		const [
+			tierTemplates,
+			clubs,
+			players,
+			admins,
+			systemSettings,
+			seasons,
+			leagues,
+			clubLeagues,
+			rosters,
+			playerCollections,
+			playerTransfers,
+		] = await Promise.all([
+			prisma.tierTemplate.findMany({ orderBy: { createdAt: 'asc' } }),
+			prisma.club.findMany({ orderBy: { createdAt: 'asc' } }),
+			prisma.players.findMany({ orderBy: { createdAt: 'asc' } }),
+			prisma.adminUser.findMany({ orderBy: { createdAt: 'asc' } }),
+			prisma.systemSettings.findMany({ orderBy: { key: 'asc' } }),
+			prisma.season.findMany({ orderBy: { startDate: 'asc' } }),
+			prisma.league.findMany({ orderBy: { createdAt: 'asc' } }),
+			prisma.clubLeague.findMany({ orderBy: { createdAt: 'asc' } }),
+			prisma.clubSeasonRoster.findMany({ orderBy: { joinedAt: 'asc' } }),
+			prisma.playerCollection.findMany({
+				orderBy: { createdAt: 'asc' },
+				include: { items: { orderBy: { position: 'asc' } } },
+			}),
+			prisma.playerTransfer.findMany({ orderBy: { transferredAt: 'asc' } }),
+		]);
+
+		return {
+			version: CATALOG_BACKUP_VERSION,
+			exportedAt: new Date().toISOString(),
+			tierTemplates: tierTemplates.map((template) => ({
+				id: template.id,
+				name: template.name,
+				categories: template.categories,
+				showShirtNumber: template.showShirtNumber,
+				showPosition: template.showPosition,
+			})),
+			clubs: clubs.map((club) => ({
+				id: club.id,
+				name: club.name,
+				logo: club.logo,
+				defaultTemplateId: club.defaultTemplateId,
+				status: club.status,
+				publishAt: club.publishAt?.toISOString() || null,
+				unpublishAt: club.unpublishAt?.toISOString() || null,
+				deletedAt: club.deletedAt?.toISOString() || null,
+				createdAt: club.createdAt.toISOString(),
+			})),
+			players: players.map((player) => ({
+				id: player.id,
+				name: player.name,
+				avatar: player.avatar,
+				clubId: player.clubId,
+				isActive: player.isActive,
+				position: player.position,
+				shirtNumber: player.shirtNumber,
+				nationality: player.nationality,
+				birthDate: player.birthDate?.toISOString() || null,
+				displayOrder: player.displayOrder,
+				deletedAt: player.deletedAt?.toISOString() || null,
+				createdAt: player.createdAt.toISOString(),
+			})),
+			admins: admins.map((admin) => ({
+				telegramId: admin.telegramId,
+				username: admin.username,
+				addedBy: admin.addedBy,
+				permissionSet: admin.permissionSet,
+				isOwner: admin.isOwner,
+				createdAt: admin.createdAt.toISOString(),
+			})),
+			systemSettings: systemSettings.map((setting) => ({
+				key: setting.key,
+				value: setting.value,
+			})),
+			seasons: seasons.map((season) => ({
+				id: season.id,
+				name: season.name,
+				startDate: season.startDate.toISOString(),
+				endDate: season.endDate?.toISOString() || null,
+				isCurrent: season.isCurrent,
+				createdAt: season.createdAt.toISOString(),
+			})),
+			leagues: leagues.map((league) => ({
+				id: league.id,
+				name: league.name,
+				country: league.country,
+				logo: league.logo,
+				seasonId: league.seasonId,
+				createdAt: league.createdAt.toISOString(),
+			})),
+			clubLeagues: clubLeagues.map((link) => ({
+				leagueId: link.leagueId,
+				clubId: link.clubId,
+			})),
+			rosters: rosters.map((roster) => ({
+				seasonId: roster.seasonId,
+				clubId: roster.clubId,
+				playerId: roster.playerId,
+				joinedAt: roster.joinedAt.toISOString(),
+				leftAt: roster.leftAt?.toISOString() || null,
+			})),
+			playerCollections: playerCollections.map((collection) => ({
+				id: collection.id,
+				name: collection.name,
+				description: collection.description,
+				createdAt: collection.createdAt.toISOString(),
+				items: collection.items.map((item) => ({
+					playerId: item.playerId,
+					position: item.position,
+				})),
+			})),
+			playerTransfers: playerTransfers.map((transfer) => ({
+				playerId: transfer.playerId,
+				fromClubId: transfer.fromClubId,
+				toClubId: transfer.toClubId,
+				transferredAt: transfer.transferredAt.toISOString(),
+				transferredBy: transfer.transferredBy,
+			})),
+		};
+	}
+
+	/**
+	 * Упаковывает снимок в ZIP архив вместе с логотипами и аватарами из хранилища
+	 * Изображения, которые не удалось скачать, пропускаются
+	 */
+	static async createArchive(snapshot: CatalogSnapshot): Promise<Buffer> {
+		const storageService = new StorageService();
+		const files: ZipFile[] = [
+			{
+				path: CATALOG_BACKUP_FILE,
+				data: Buffer.from(JSON.stringify(snapshot, null, 2), 'utf8'),
+			},
+		];
+
+		for (const key of this.getImageKeys(snapshot)) {
+			try {
+				files.push({
+					path: `${IMAGES_FOLDER}/${key}`,
+					data: await storageService.downloadFile(key),
+				});
+			} catch (error) {
+				console.error(`Изображение ${key} не добавлено в архив:`, error);
+			}
+		}
+
+		return createZipArchive(files);
+	}
+
+	/**
+	 * Проверяет структуру и версию резервной копии
+	 */
+	static parseSnapshot(content: string): CatalogSnapshotResult {
+		let data: any;
+
+		try {
+			data = JSON.parse(content.replace(/^\uFEFF/, ''));
+		} catch {
+			return { valid: false, error: 'Некорректный JSON резервной копии' };
+		}
+
+		if (!SUPPORTED_BACKUP_VERSIONS.includes(data?.version)) {
+			return {
+				valid: false,
+				error: `Неподдерживаемая версия резервной копии: ${data?.version}. Ожидается ${CATALOG_BACKUP_VERSION}`,
+			};
+		}
+
+		if (data.version === 1) {
+			for (const section of V2_SECTIONS) {
+				data[section] = [];
+			}
+		}
+
+		const sections = [
+			'tierTemplates',
+			'clubs',
+			'players',
+			'admins',
+			'systemSettings',
+			...V2_SECTIONS,
+		];
+		const invalidSection = sections.find(
+			(section) => !Array.isArray(data[section]),
+		);
+
+		if (invalidSection) {
+			return {
+				valid: false,
+				error: `Раздел ${invalidSection} резервной копии должен быть массивом`,
+			};
+		}
+
+		const clubIds = new Set(data.clubs.map((club: any) => club.id));
+		if (data.players.some((player: any) => !clubIds.has(player.clubId))) {
+			return {
+				valid: false,
+				error: 'В резервной копии есть игроки без клуба',
+			};
+		}
+
+		const playerIds = new Set(data.players.map((player: any) => player.id));
+		const seasonIds = new Set(data.seasons.map((season: any) => season.id));
+		const leagueIds = new Set(data.leagues.map((league: any) => league.id));
+
+		const hasBrokenLinks =
+			data.clubLeagues.some(
+				(link: any) =>
+					!leagueIds.has(link.leagueId) || !clubIds.has(link.clubId),
+			) ||
+			data.rosters.some(
+				(roster: any) =>
+					!seasonIds.has(roster.seasonId) ||
+					!clubIds.has(roster.clubId) ||
+					!playerIds.has(roster.playerId),
+			) ||
+			data.playerCollections.some(
+				(collection: any) =>
+					!Array.isArray(collection.items) ||
+					collection.items.some((item: any) => !playerIds.has(item.playerId)),
+			) ||
+			data.playerTransfers.some(
+				(transfer: any) => !playerIds.has(transfer.playerId),
+			);
+
+		if (hasBrokenLinks) {
+			return {
+				valid: false,
+				error:
+					'В резервной копии есть ссылки на отсутствующие клубы, игроков, сезоны или лиги',
+			};
+		}
+
+		return { valid: true, data };
+	}
+
+	/**
+	 * Проверяет, что каталог пуст: восстановление не перезаписывает существующие клубы,
+	 * игроков и лиги
+	 */
+	static async isCatalogEmpty(): Promise<boolean> {
+		const [clubsCount, playersCount, leaguesCount] = await Promise.all([
+			prisma.club.count(),
+			prisma.players.count(),
+			prisma.league.count(),
+		]);
+
+		return clubsCount === 0 && playersCount === 0 && leaguesCount === 0;
+	}
+
+	/**
+	 * Восстанавливает каталог из резервной копии в пустую базу
+	 * Если передан архив, изображения загружаются в текущий бакет под прежними ключами,
+	 * иначе ключи сохраняются как есть (бакет уже содержит файлы)
+	 * Файлы, которые уже есть в бакете, не перезаписываются: при ошибке транзакции
+	 * удаляются только изображения, созданные этим восстановлением
+	 */
+	static async restore(
+		snapshot: CatalogSnapshot,
+		archive: ZipArchive | null,
+	): Promise<CatalogRestoreSummary> {
+		const storageService = new StorageService();
+		const images = { uploaded: 0, existing: 0, missing: 0, skipped: 0 };
+		// Только ключи, созданные этим восстановлением, их можно удалить при ошибке
+		const uploadedKeys: string[] = [];
+
+		let summary: Omit<CatalogRestoreSummary, 'images'>;
+
+		try {
+			if (archive) {
+				for (const key of this.getImageKeys(snapshot)) {
+					const entry = archive.findEntry(`${IMAGES_FOLDER}/${key}`);
+
+					if (!entry) {
+						images.missing++;
+						continue;
+					}
+
+					if (entry.size > MAX_IMAGE_SIZE) {
+						console.warn(`Изображение ${key} больше 5MB и не восстановлено`);
+						images.skipped++;
+						continue;
+					}
+
+					// Бакет может быть общим с рабочим окружением, живые файлы не трогаем
+					if (await storageService.fileExists(key)) {
+						images.existing++;
+						continue;
+					}
+
+					await storageService.uploadBuffer(
+						key,
+						archive.extract(entry),
+						IMAGE_MIME_TYPES[path.extname(key).toLowerCase()] ||
+							'application/octet-stream',
+					);
+					uploadedKeys.push(key);
+					images.uploaded++;
+				}
+			}
+
+			summary = await prisma.$transaction(
+				(tx) => this.restoreRecords(tx, snapshot),
+				{ timeout: 60000 },
+			);
+		} catch (error) {
+			await this.deleteFiles(storageService, uploadedKeys);
+			throw error;
+		}
+
+		await Promise.all([invalidateClubsCache(), invalidateAllAdminCache()]);
+
+		return { ...summary, images };
+	}
+
+	/**
+	 * Создает записи каталога из снимка внутри транзакции восстановления
+	 */
+	private static async restoreRecords(
+		tx: Prisma.TransactionClient,
+		snapshot: CatalogSnapshot,
+	): Promise<Omit<CatalogRestoreSummary, 'images'>> {
+		const templates = await tx.tierTemplate.createMany({
+			data: snapshot.tierTemplates.map((template) => ({
+				id: template.id,
+				name: template.name,
+				categories: template.categories as Prisma.InputJsonValue,
+				showShirtNumber: template.showShirtNumber,
+				showPosition: template.showPosition,
+			})),
+			skipDuplicates: true,
+		});
+
+		// Шаблон мог не восстановиться из-за совпадения названия с существующим
+		const templateIds = new Set(
+			(await tx.tierTemplate.findMany({ select: { id: true } })).map(
+				(template) => template.id,
+			),
+		);
+
+		// Сезоны с тем же названием уже могли завести, составы привязываем к ним.
+		// Текущим сезон становится, только если в базе текущего еще нет
+		const hasCurrentSeason =
+			(await tx.season.count({ where: { isCurrent: true } })) > 0;
+
+		const seasons = await tx.season.createMany({
+			data: snapshot.seasons.map((season) => ({
+				id: season.id,
+				name: season.name,
+				startDate: new Date(season.startDate),
+				endDate: toDate(season.endDate),
+				isCurrent: season.isCurrent && !hasCurrentSeason,
+				createdAt: new Date(season.createdAt),
+			})),
+			skipDuplicates: true,
+		});
+
+		const seasonIdsByName = new Map(
+			(await tx.season.findMany({ select: { id: true, name: true } })).map(
+				(season) => [season.name, season.id],
+			),
+		);
+		const seasonIds = new Map(
+			snapshot.seasons.map((season) => [
+				season.id,
+				seasonIdsByName.get(season.name) as string,
+			]),
+		);
+
+		const clubs = await tx.club.createMany({
+			data: snapshot.clubs.map((club) => ({
+				id: club.id,
+				name: club.name,
+				logo: club.logo,
+				defaultTemplateId:
+					club.defaultTemplateId && templateIds.has(club.defaultTemplateId)
+						? club.defaultTemplateId
+						: null,
+				status: club.status,
+				publishAt: toDate(club.publishAt || null),
+				unpublishAt: toDate(club.unpublishAt || null),
+				deletedAt: toDate(club.deletedAt),
+				createdAt: new Date(club.createdAt),
+			})),
+		});
+
+		const players = await tx.players.createMany({
+			data: snapshot.players.map((player) => ({
+				id: player.id,
+				name: player.name,
+				avatar: player.avatar,
+				clubId: player.clubId,
+				isActive: player.isActive,
+				position: player.position,
+				shirtNumber: player.shirtNumber,
+				nationality: player.nationality,
+				birthDate: toDate(player.birthDate),
+				displayOrder: player.displayOrder,
+				deletedAt: toDate(player.deletedAt),
+				createdAt: new Date(player.createdAt),
+			})),
+		});
+
+		const leagues = await tx.league.createMany({
+			data: snapshot.leagues.map((league) => ({
+				id: league.id,
+				name: league.name,
+				country: league.country,
+				logo: league.logo,
+				seasonId: league.seasonId
+					? seasonIds.get(league.seasonId) || null
+					: null,
+				createdAt: new Date(league.createdAt),
+			})),
+		});
+
+		const clubLeagues = await tx.clubLeague.createMany({
+			data: snapshot.clubLeagues,
+			skipDuplicates: true,
+		});
+
+		const rosters = await tx.clubSeasonRoster.createMany({
+			data: snapshot.rosters.map((roster) => ({
+				seasonId: seasonIds.get(roster.seasonId) as string,
+				clubId: roster.clubId,
+				playerId: roster.playerId,
+				joinedAt: new Date(roster.joinedAt),
+				leftAt: toDate(roster.leftAt),
+			})),
+			skipDuplicates: true,
+		});
+
+		// Подборка с тем же названием могла остаться пустой после удаления игроков
+		const playerCollections = await tx.playerCollection.createMany({
+			data: snapshot.playerCollections.map((collection) => ({
+				id: collection.id,
+				name: collection.name,
+				description: collection.description,
+				createdAt: new Date(collection.createdAt),
+			})),
+			skipDuplicates: true,
+		});
+
+		const collectionIdsByName = new Map(
+			(
+				await tx.playerCollection.findMany({ select: { id: true, name: true } })
+			).map((collection) => [collection.name, collection.id]),
+		);
+
+		await tx.playerCollectionItem.createMany({
+			data: snapshot.playerCollections.flatMap((collection) =>
+				collection.items.map((item) => ({
+					collectionId: collectionIdsByName.get(collection.name) as string,
+					playerId: item.playerId,
+					position: item.position,
+				})),
+			),
+			skipDuplicates: true,
+		});
+
+		const playerTransfers = await tx.playerTransfer.createMany({
+			data: snapshot.playerTransfers.map((transfer) => ({
+				playerId: transfer.playerId,
+				fromClubId: transfer.fromClubId,
+				toClubId: transfer.toClubId,
+				transferredAt: new Date(transfer.transferredAt),
+				transferredBy: transfer.transferredBy,
+			})),
+		});
+
+		// Админы и настройки текущего окружения не перезаписываются
+		const admins = await tx.adminUser.createMany({
+			data: snapshot.admins.map((admin) => ({
+				telegramId: admin.telegramId,
+				username: admin.username,
+				addedBy: admin.addedBy,
+				permissionSet: admin.permissionSet,
+				isOwner: admin.isOwner,
+				createdAt: new Date(admin.createdAt),
+			})),
+			skipDuplicates: true,
+		});
+
+		// Роль в основной таблице, как при добавлении админа через AdminService
+		await tx.user.updateMany({
+			where: {
+				telegramId: {
+					in: snapshot.admins.map((admin) => admin.telegramId),
+				},
+			},
+			data: { role: 'admin' },
+		});
+
+		const systemSettings = await tx.systemSettings.createMany({
+			data: snapshot.systemSettings.map((setting) => ({
+				key: setting.key,
+				value: setting.value,
+			})),
+			skipDuplicates: true,
+		});
+
+		return {
+			tierTemplates: templates.count,
+			clubs: clubs.count,
+			players: players.count,
+			admins: admins.count,
+			systemSettings: systemSettings.count,
+			seasons: seasons.count,
+			leagues: leagues.count,
+			clubLeagues: clubLeagues.count,
+			rosters: rosters.count,
+			playerCollections: playerCollections.count,
+			playerTransfers: playerTransfers.count,
+		};
+	}
+
+	/**
+	 * Удаляет файлы из хранилища, не прерываясь на ошибках
+	 */
+	private static async deleteFiles(
+		storageService: StorageService,
+		keys: string[],
+	): Promise<void> {
+		for (const key of keys) {
+			try {
+				await storageService.deleteFile(key);
+			} catch (error) {
+				console.error(`Ошибка при удалении файла ${key}:`, error);
+			}
+		}
+	}
+
+	/**
+	 * Уникальные ключи логотипов клубов и лиг и аватаров из снимка
+	 */
+	private static getImageKeys(snapshot: CatalogSnapshot): string[] {
+		return Array.from(
+			new Set([
+				...snapshot.clubs.map((club) => club.logo),
+				...snapshot.players.map((player) => player.avatar),
+				...snapshot.leagues.map((league) => league.logo),
+			]),
+		).filter(Boolean);
+	}
+}
@@ -0,0 +1,455 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { prisma } from '../prisma';
+import { StorageService } from './storage.service';
+import { SeasonService } from './season.service';
+import { invalidateClubsCache } from '../utils/cacheUtils';
+import { CatalogManifest } from '../utils/catalogManifest';
+import { PlayerMetadata, parsePlayerMetadata } from '../utils/playerMetadata';
+import { ZipArchive, ZipEntry } from '../utils/zipReader';
+
+export type ImportAction = 'create' | 'update' | 'skip';
+
+export interface ImportClubChange {
+	row: number;
+	name: string;
+	action: ImportAction;
+	reason?: string;
+	clubId?: string;
+	logo?: string; // путь к логотипу в архиве
+}
+
+export interface ImportPlayerChange {
+	row: number;
+	name: string;
+	club: string;
+	action: ImportAction;
+	reason?: string;
+	playerId?: string;
+	clubId?: string;
+	avatar?: string; // путь к аватару в архиве
+	metadata?: PlayerMetadata;
+}
+
+export interface ImportPlan {
+	clubs: ImportClubChange[];
+	players: ImportPlayerChange[];
+	summary: { [action in ImportAction]: number };
+}
+
+// Те же ограничения, что и при загрузке изображений через uploadMiddleware
+const IMAGE_MIME_TYPES: { [extension: string]: string } = {
+	'.jpg': 'image/jpeg',
+	'.jpeg': 'image/jpeg',
+	'.png': 'image/png',
+	'.webp': 'image/webp',
+	'.gif': 'image/gif',
+};
+const MAX_IMAGE_SIZE = 5 * 1024 * 1024;
+
+export class CatalogImportService {
+	/**
+	 * Строит план импорта без изменения данных: что будет создано, обновлено или пропущено
+	 * Клубы сопоставляются по названию, игроки - по имени внутри клуба
+	 */
+	static async planImport(
+		manifest: CatalogManifest,
+		archive: ZipArchive | null,
+	): Promise<ImportPlan> {
+		const clubNames = Array.from(
+			new Set([
+				...manifest.clubs.map((club) => club.name),
+				...manifest.players.map((player) => player.club),
+			]),
+		).filter(Boolean);
+
+		const existingClubs = await prisma.club.findMany({
+			where: { name: { in: clubNames }, deletedAt: null },
+			select: {
+				id: true,
+				name: true,
+				players: {
+					where: { deletedAt: null },
+					select: {
+						id: true,
+						name: true,
+						position: true,
+						shirtNumber: true,
+						nationality: true,
+						birthDate: true,
+						displayOrder: true,
+					},
+				},
+			},
+		});
+		const existingClubsMap = new Map(
+			existingClubs.map((club) => [club.name, club]),
+		);
+
+		const clubs: ImportClubChange[] = [];
+		const seenClubs = new Set<string>();
+
+		for (const row of manifest.clubs) {
+			const change: ImportClubChange = {
+				row: row.row,
+				name: row.name,
+				action: 'skip',
+			};
+			clubs.push(change);
+
+			if (!row.name) {
+				change.reason = 'Не указано название клуба';
+				continue;
+			}
+
+			if (seenClubs.has(row.name)) {
+				change.reason = 'Клуб уже указан в файле выше';
+				continue;
+			}
+			seenClubs.add(row.name);
+
+			const imageError = row.logo ? this.checkImage(archive, row.logo) : null;
+			if (imageError) {
+				change.reason = imageError;
+				continue;
+			}
+
+			const existing = existingClubsMap.get(row.name);
+
+			if (!existing) {
+				change.action = 'create';
+				change.logo = row.logo || undefined;
+			} else if (row.logo) {
+				change.action = 'update';
+				change.clubId = existing.id;
+				change.logo = row.logo;
+				change.reason = 'Логотип будет заменен';
+			} else {
+				change.clubId = existing.id;
+				change.reason = 'Клуб с таким названием уже существует';
+			}
+		}
+
+		const createdClubNames = new Set(
+			clubs.filter((club) => club.action === 'create').map((club) => club.name),
+		);
+
+		const players: ImportPlayerChange[] = [];
+		const seenPlayers = new Set<string>();
+
+		for (const row of manifest.players) {
+			const change: ImportPlayerChange = {
+				row: row.row,
+				name: row.name,
+				club: row.club,
+				action: 'skip',
+			};
+			players.push(change);
+
+			if (!row.name || !row.club) {
+				change.reason = 'Не указано имя игрока или клуб';
+				continue;
+			}
+
+			const existingClub = existingClubsMap.get(row.club);
+
+			if (!existingClub && !createdClubNames.has(row.club)) {
+				change.reason = 'Клуб не найден и не будет создан этим импортом';
+				continue;
+			}
+
+			// createPlayer отклоняет игроков с одинаковым именем в одном клубе
+			const playerKey = `${row.club}\u0000${row.name}`;
+			if (seenPlayers.has(playerKey)) {
+				change.reason =
+					'Игрок с таким именем уже указан в файле для этого клуба';
+				continue;
+			}
+			seenPlayers.add(playerKey);
+
+			const metadata = parsePlayerMetadata(row.metadata);
+			if (!metadata.valid) {
+				change.reason = metadata.error;
+				continue;
+			}
+
+			const imageError = row.avatar
+				? this.checkImage(archive, row.avatar)
+				: null;
+			if (imageError) {
+				change.reason = imageError;
+				continue;
+			}
+
+			change.clubId = existingClub?.id;
+			change.metadata = metadata.data;
+			change.avatar = row.avatar || undefined;
+
+			const existing = existingClub?.players.find(
+				(player) => player.name === row.name,
+			);
+
+			if (!existing) {
+				change.action = 'create';
+				continue;
+			}
+
+			change.playerId = existing.id;
+
+			const changedFields = (
+				Object.keys(metadata.data) as Array<keyof PlayerMetadata>
+			).filter(
+				(field) =>
+					String(metadata.data[field] ?? '') !== String(existing[field] ?? ''),
+			);
+
+			if (changedFields.length === 0 && !row.avatar) {
+				change.reason = 'Игрок с таким именем уже есть в клубе, изменений нет';
+				continue;
+			}
+
+			change.action = 'update';
+			change.reason = [
+				...changedFields,
+				...(row.avatar ? ['avatar'] : []),
+			].join(', ');
+		}
+
+		const summary = { create: 0, update: 0, skip: 0 };
+		for (const change of [...clubs, ...players]) {
+			summary[change.action]++;
+		}
+
+		return { clubs, players, summary };
+	}
+
+	/**
+	 * Применяет план импорта
+	 * Изображения загружаются в хранилище до транзакции и удаляются, если транзакция не прошла
+	 * Новые клубы создаются черновиками, пользователи увидят их после публикации
+	 */
+	static async applyImport(
+		plan: ImportPlan,
+		archive: ZipArchive | null,
+	): Promise<ImportPlan> {
+		const storageService = new StorageService();
+		const clubChanges = plan.clubs.filter((club) => club.action !== 'skip');
+		const playerChanges = plan.players.filter(
+			(player) => player.action !== 'skip',
+		);
+
+		const uploadedKeys: string[] = [];
+		const logoKeys = new Map<ImportClubChange, string>();
+		const avatarKeys = new Map<ImportPlayerChange, string>();
+
+		try {
+			for (const change of clubChanges) {
+				if (change.logo && archive) {
+					const key = await this.uploadImage(
+						storageService,
+						archive,
+						change.logo,
+						'clubs',
+					);
+					uploadedKeys.push(key);
+					logoKeys.set(change, key);
+				}
+			}
+
+			for (const change of playerChanges) {
+				if (change.avatar && archive) {
+					const key = await this.uploadImage(
+						storageService,
+						archive,
+						change.avatar,
+						'players',
+					);
+					uploadedKeys.push(key);
+					avatarKeys.set(change, key);
+				}
+			}
+		} catch (error) {
+			await this.deleteFiles(storageService, uploadedKeys);
+			throw error;
+		}
+
+		const currentSeason = await SeasonService.getCurrentSeason();
+		let replacedKeys: string[];
+
+		try {
+			replacedKeys = await prisma.$transaction(
+				async (tx) => {
+					const replaced: string[] = [];
+					const clubIds = new Map<string, string>();
+
+					for (const change of clubChanges) {
+						const logo = logoKeys.get(change) || '';
+
+						if (change.action === 'create') {
+							change.clubId = crypto.randomUUID();
+							await tx.club.create({
+								data: {
+									id: change.clubId,
+									name: change.name,
+									logo,
+									status: 'draft',
+								},
+							});
+						} else if (change.clubId) {
+							const club = await tx.club.findUniqueOrThrow({
+								where: { id: change.clubId },
+								select: { logo: true },
+							});
+							await tx.club.update({
+								where: { id: change.clubId },
+								data: { logo },
+							});
+							if (club.logo) replaced.push(club.logo);
+						}
+
+						clubIds.set(change.name, change.clubId as string);
+					}
+
+					const createdPlayers: Array<{ id: string; clubId: string }> = [];
+
+					for (const change of playerChanges) {
+						const avatar = avatarKeys.get(change);
+						change.clubId = change.clubId || clubIds.get(change.club);
+
+						if (change.action === 'create') {
+							change.playerId = crypto.randomUUID();
+							await tx.players.create({
+								data: {
+									id: change.playerId,
+									name: change.name,
+									clubId: change.clubId as string,
+									avatar: avatar || '',
+									...change.metadata,
+								},
+							});
+							createdPlayers.push({
+								id: change.playerId,
+								clubId: change.clubId as string,
+							});
+						} else if (change.playerId) {
+							const player = await tx.players.findUniqueOrThrow({
+								where: { id: change.playerId },
+								select: { avatar: true },
+							});
+							await tx.players.update({
+								where: { id: change.playerId },
+								data: {
+									...change.metadata,
+									...(avatar ? { avatar } : {}),
+								},
+							});
+							if (avatar && player.avatar) replaced.push(player.avatar);
+						}
+					}
+
+					// Новые игроки входят в состав клуба текущего сезона, как при createPlayer
+					if (currentSeason && createdPlayers.length > 0) {
+						await tx.clubSeasonRoster.createMany({
+							data: createdPlayers.map((player) => ({
+								seasonId: currentSeason.id,
+								clubId: player.clubId,
+								playerId: player.id,
+							})),
+							skipDuplicates: true,
+						});
+					}
+
+					return replaced;
+				},
+				{ timeout: 60000 },
+			);
+		} catch (error) {
+			await this.deleteFiles(storageService, uploadedKeys);
+			throw error;
+		}
+
+		// Старые изображения удаляем только после успешной транзакции
+		await this.deleteFiles(storageService, replacedKeys);
+		await invalidateClubsCache();
+
+		return plan;
+	}
+
+	/**
+	 * Проверяет, что изображение есть в архиве и подходит по формату и размеру
+	 */
+	private static checkImage(
+		archive: ZipArchive | null,
+		imagePath: string,
+	): string | null {
+		const entry = archive?.findEntry(imagePath);
+
+		if (!entry) {
+			return `Файл ${imagePath} не найден в архиве`;
+		}
+
+		if (!IMAGE_MIME_TYPES[path.extname(entry.path)]) {
+			return `Неподдерживаемый формат файла ${imagePath}. Разрешены JPEG, PNG, WebP, GIF`;
+		}
+
+		if (entry.size > MAX_IMAGE_SIZE) {
+			return `Файл ${imagePath} слишком большой. Максимальный размер: 5MB`;
+		}
+
+		return null;
+	}
+
+	/**
+	 * Распаковывает изображение во временный файл и загружает его через StorageService
+	 */
+	private static async uploadImage(
+		storageService: StorageService,
+		archive: ZipArchive,
+		imagePath: string,
+		folder: string,
+	): Promise<string> {
+		const entry = archive.findEntry(imagePath) as ZipEntry;
+		const extension = path.extname(entry.path);
+		const tmpPath = path.join(
+			process.cwd(),
+			'tmp/uploads',
+			`${crypto.randomBytes(16).toString('hex')}${extension}`,
+		);
+
+		fs.writeFileSync(tmpPath, archive.extract(entry));
+
+		try {
+			// uploadFile удаляет временный файл после загрузки
+			return await storageService.uploadFile(
+				{
+					originalname: path.basename(entry.path),
+					mimetype: IMAGE_MIME_TYPES[extension],
+					path: tmpPath,
+				} as Express.Multer.File,
+				folder,
+			);
+		} catch (error) {
+			if (fs.existsSync(tmpPath)) {
+				fs.unlinkSync(tmpPath);
+			}
+			throw error;
+		}
+	}
+
+	/**
+	 * Удаляет файлы из хранилища, не прерываясь на ошибках
+	 */
+	private static async deleteFiles(
+		storageService: StorageService,
+		keys: string[],
+	): Promise<void> {
+		for (const key of keys) {
+			try {
+				await storageService.deleteFile(key);
+			} catch (error) {
+				console.error(`Ошибка при удалении файла ${key}:`, error);
+			}
+		}
+	}
+}
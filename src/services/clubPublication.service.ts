@@ -0,0 +1,38 @@
+import { prisma } from '../prisma';
+import { invalidateClubsCache } from '../utils/cacheUtils';
+
+export class ClubPublicationService {
+	/**
+	 * Применяет запланированные изменения видимости клубов:
+	 * публикует клубы, у которых наступил publishAt, и архивирует клубы с наступившим unpublishAt
+	 * Примененная дата очищается, чтобы изменение не повторялось
+	 */
+	static async applyScheduledChanges(
+		now: Date = new Date(),
+	): Promise<{ published: number; unpublished: number }> {
+		const [published, unpublished] = await prisma.$transaction([
+			prisma.club.updateMany({
+				where: {
+					deletedAt: null,
+					status: { not: 'published' },
+					publishAt: { lte: now },
+				},
+				data: { status: 'published', publishAt: null },
+			}),
+			prisma.club.updateMany({
+				where: {
+					deletedAt: null,
+					status: 'published',
+					unpublishAt: { lte: now },
+				},
+				data: { status: 'archived', unpublishAt: null },
+			}),
+		]);
+
+		if (published.count > 0 || unpublished.count > 0) {
+			await invalidateClubsCache();
+		}
+
+		return { published: published.count, unpublished: unpublished.count };
+	}
+}
@@ -4,6 +4,12 @@ import { StorageService } from './storage.service';
 import { generateImageInWorker } from '../workers/imageWorker';
 import { puppeteerPoolService } from './puppeteerPool.service';
 import { logger } from '../utils/logger';
+import {
+	escapeHtml,
+	isSafeImageUrl,
+	sanitizeCssColor,
+} from '../utils/htmlUtils';
+import { formatPlayerCaption } from '../utils/playerMetadata';
 import fs from 'fs';
 import path from 'path';
 
@@ -11,7 +17,11 @@ import path from 'path';
 export interface ShareImageData {
 	categorizedPlayerIds: { [categoryName: string]: string[] };
 	categories: Array<{ name: string; color: string; slots: number }>;
-	clubId: string;
+	// Пул игроков: клуб или подборка игроков из разных клубов (ровно одно из полей)
+	clubId?: string;
+	collectionId?: string;
+	// Подписи под аватарами; если не указаны, берутся из шаблона клуба по умолчанию
+	playerCaption?: { shirtNumber: boolean; position: boolean };
 }
 
 // Настройки качества изображения
@@ -51,7 +61,10 @@ function createPlayerAvatarPlaceholder(playerName: string): string {
 	}
 	const color = colors[Math.abs(hash) % colors.length];
 
-	const initial = playerName.charAt(0).toUpperCase();
+	// Экранируем символ, так как он вставляется внутрь SVG разметки
+	const initial = encodeURIComponent(
+		escapeHtml(playerName.charAt(0).toUpperCase()),
+	);
 
 	return `data:image/svg+xml,%3Csvg xmlns='http://www.w3.org/2000/svg' width='32' height='32' viewBox='0 0 32 32'%3E%3Ccircle cx='16' cy='16' r='16' fill='${encodeURIComponent(
 		color,
@@ -279,20 +292,48 @@ export class ImageGenerationService {
 
 	/**
 	 * Получает данные клуба и игроков из базы данных с кэшированием
+	 * Для подборки игроков заголовком служит подборка,
+	 * а каждому игроку добавляется логотип его клуба
 	 */
 	private async getClubAndPlayersData(data: ShareImageData) {
 		const storageService = new StorageService();
+		const isCollection = Boolean(data.collectionId);
 
 		// Используем оптимизированное логирование
-		logger.silentImageProcess(`Получение данных для клуба ${data.clubId}`);
+		logger.silentImageProcess(
+			isCollection
+				? `Получение данных для подборки ${data.collectionId}`
+				: `Получение данных для клуба ${data.clubId}`,
+		);
 
-		// Получаем клуб с подписанным URL логотипа
-		const club = await prisma.club.findUnique({
-			where: { id: data.clubId },
-		});
+		// Получаем клуб с подписанным URL логотипа или подборку (без логотипа)
+		const club = data.collectionId
+			? await prisma.playerCollection
+					.findUnique({
+						where: { id: data.collectionId },
+						select: { id: true, name: true },
+					})
+					.then(
+						(collection) =>
+							collection && {
+								...collection,
+								logo: '',
+								defaultTemplate: null,
+							},
+					)
+			: await prisma.club.findUnique({
+					where: { id: data.clubId },
+					include: {
+						defaultTemplate: {
+							select: { showShirtNumber: true, showPosition: true },
+						},
+					},
+			  });
 
 		if (!club) {
-			throw new Error('Клуб не найден');
+			throw new Error(
+				isCollection ? 'Подборка игроков не найдена' : 'Клуб не найден',
+			);
 		}
 
 		logger.silentImageProcess(`Клуб найден: ${club.name}`);
@@ -301,6 +342,7 @@ export class ImageGenerationService {
 		const allPlayerIds = Object.values(data.categorizedPlayerIds).flat();
 		const players = await prisma.players.findMany({
 			where: { id: { in: allPlayerIds } },
+			include: { club: { select: { name: true, logo: true } } },
 		});
 
 		logger.silentImageProcess(
@@ -308,7 +350,14 @@ export class ImageGenerationService {
 		);
 
 		// Собираем все ключи изображений для батч-обработки
-		const logoKeys = club.logo ? [club.logo] : [];
+		const logoKeys = Array.from(
+			new Set(
+				[
+					club.logo,
+					...(isCollection ? players.map((player) => player.club.logo) : []),
+				].filter(Boolean),
+			),
+		);
 		const avatarKeys = players
 			.map((player) => player.avatar)
 			.filter(Boolean) as string[];
@@ -325,6 +374,11 @@ export class ImageGenerationService {
 
 		const clubLogoUrl = club.logo ? logoUrls[club.logo] || '' : '';
 
+		const captionOptions = data.playerCaption || {
+			shirtNumber: club.defaultTemplate?.showShirtNumber ?? false,
+			position: club.defaultTemplate?.showPosition ?? false,
+		};
+
 		// Создаем карту игроков для быстрого поиска
 		const playersMap = new Map();
 
@@ -335,6 +389,13 @@ export class ImageGenerationService {
 				id: player.id,
 				name: player.name,
 				avatarUrl,
+				caption: formatPlayerCaption(player, captionOptions),
+				// Бейдж клуба нужен только в подборке, где игроки из разных клубов
+				clubName: player.club.name,
+				clubLogoUrl:
+					isCollection && player.club.logo
+						? logoUrls[player.club.logo] || ''
+						: '',
 			});
 		}
 
@@ -402,25 +463,55 @@ export class ImageGenerationService {
 										return '';
 									}
 
+									const placeholder = createPlayerAvatarPlaceholder(
+										player.name,
+									);
 									const playerAvatar =
-										player.avatarUrl ||
-										createPlayerAvatarPlaceholder(player.name);
-
-									return `<img src="${playerAvatar}" alt="${
-										player.name
-									}" class="player-avatar" onerror="this.src='${createPlayerAvatarPlaceholder(
+										player.avatarUrl && isSafeImageUrl(player.avatarUrl)
+											? player.avatarUrl
+											: placeholder;
+
+									// Все значения экранируются: имена и URL не должны менять разметку
+									const avatarHTML = `<img src="${escapeHtml(
+										playerAvatar,
+									)}" alt="${escapeHtml(
 										player.name,
-									)}'" />`;
+									)}" class="player-avatar" onerror="this.src=${escapeHtml(
+										JSON.stringify(placeholder),
+									)}" />`;
+
+									const badgeHTML =
+										player.clubLogoUrl && isSafeImageUrl(player.clubLogoUrl)
+											? `<img src="${escapeHtml(
+													player.clubLogoUrl,
+											  )}" alt="${escapeHtml(
+													player.clubName,
+											  )}" class="club-badge" />`
+											: '';
+
+									if (!player.caption && !badgeHTML) {
+										return avatarHTML;
+									}
+
+									const captionHTML = player.caption
+										? `<span class="player-caption">${escapeHtml(
+												player.caption,
+										  )}</span>`
+										: '';
+
+									return `<div class="player-card"><div class="player-avatar-wrapper">${avatarHTML}${badgeHTML}</div>${captionHTML}</div>`;
 								})
 								.filter((html) => html !== '') // Убираем пустые строки
 								.join('')
 						: '<div class="empty-category">— Пусто</div>';
 
 				return `
-        <div class="category-section" style="background-color: ${
-					category.color
-				}">
-        	<span class="category-title">${category.name.toUpperCase()}</span>
+        <div class="category-section" style="background-color: ${escapeHtml(
+					sanitizeCssColor(category.color),
+				)}">
+        	<span class="category-title">${escapeHtml(
+						category.name.toUpperCase(),
+					)}</span>
           	<div class="category-players">
             	${playersListHTML}
           	</div>
@@ -571,6 +662,43 @@ export class ImageGenerationService {
 			image-rendering: crisp-edges;
 		}
 
+		.player-card {
+			display: flex;
+			flex-direction: column;
+			align-items: center;
+			gap: 2px;
+			min-width: 0;
+		}
+
+		.player-avatar-wrapper {
+			position: relative;
+			display: inline-block;
+		}
+
+		.club-badge {
+			position: absolute;
+			right: -3px;
+			bottom: -3px;
+			width: 20px;
+			height: 20px;
+			padding: 1px;
+			border-radius: 50%;
+			background: white;
+			object-fit: contain;
+			box-shadow: 0 1px 3px rgba(0, 0, 0, 0.3);
+		}
+
+		.player-caption {
+			max-width: 100%;
+			font-size: 10px;
+			font-weight: 700;
+			line-height: 1.1;
+			white-space: nowrap;
+			overflow: hidden;
+			text-overflow: ellipsis;
+			text-shadow: 0 1px 2px rgba(0, 0, 0, 0.4);
+		}
+
 		.empty-category {
 			color: rgba(255, 255, 255, 0.8);
 			font-style: italic;
@@ -604,11 +732,15 @@ export class ImageGenerationService {
 				<div class="content">
             		<div class="tier-list-header">
                         ${
-													showClubLogo && clubLogoUrl
-														? `<img src="${clubLogoUrl}" alt="Логотип" class="club-logo" />`
+													showClubLogo &&
+													clubLogoUrl &&
+													isSafeImageUrl(clubLogoUrl)
+														? `<img src="${escapeHtml(
+																clubLogoUrl,
+														  )}" alt="Логотип" class="club-logo" />`
 														: ''
 												}
-                		<div class="club-name">${displayClubName}</div>
+                		<div class="club-name">${escapeHtml(displayClubName)}</div>
             		</div>
             
             		<div class="categories">
@@ -617,9 +749,9 @@ export class ImageGenerationService {
           		</div>
           
           		<div class="footer">
-					<div class="watermark">@${
-						process.env.TELEGRAM_BOT_USERNAME || 'myach_pro_bot'
-					}</div>
+					<div class="watermark">@${escapeHtml(
+						process.env.TELEGRAM_BOT_USERNAME || 'myach_pro_bot',
+					)}</div>
 				</div>
         	</div>
       </body>
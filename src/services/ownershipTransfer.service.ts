@@ -0,0 +1,231 @@
+import { prisma } from '../prisma';
+import { invalidateAdminCache } from '../middleware/checkAdminRole';
+import { AdminService } from './admin.service';
+
+// Сколько часов владелец может подтвердить передачу прав
+const OWNERSHIP_TRANSFER_TTL_HOURS = 24;
+
+export interface OwnershipTransferResult {
+	success: boolean;
+	message: string;
+	transfer?: {
+		id: string;
+		fromTelegramId: string;
+		toTelegramId: string;
+		expiresAt: Date;
+	};
+}
+
+export class OwnershipTransferService {
+	/**
+	 * Создает запрос на передачу прав владельца другому админу
+	 * Права переходят только после подтверждения владельцем fromTelegramId
+	 */
+	static async requestTransfer(
+		fromTelegramId: string,
+		toTelegramId: string,
+		requestedBy: string,
+	): Promise<OwnershipTransferResult> {
+		if (fromTelegramId === toTelegramId) {
+			return {
+				success: false,
+				message: 'Нельзя передать права владельца самому себе',
+			};
+		}
+
+		if (!(await AdminService.isOwner(fromTelegramId))) {
+			return {
+				success: false,
+				message: 'Передать права может только владелец',
+			};
+		}
+
+		const recipient = await prisma.adminUser.findUnique({
+			where: { telegramId: toTelegramId },
+			select: { isOwner: true },
+		});
+
+		// Новым владельцем может стать только уже добавленный админ
+		if (!recipient) {
+			return { success: false, message: 'Получатель должен быть админом' };
+		}
+
+		if (recipient.isOwner) {
+			return { success: false, message: 'Получатель уже является владельцем' };
+		}
+
+		const transfer = await prisma.$transaction(async (tx) => {
+			// У владельца может быть только один ожидающий запрос
+			await tx.ownershipTransfer.updateMany({
+				where: { fromTelegramId, confirmedAt: null, cancelledAt: null },
+				data: { cancelledAt: new Date() },
+			});
+
+			return tx.ownershipTransfer.create({
+				data: {
+					fromTelegramId,
+					toTelegramId,
+					requestedBy,
+					expiresAt: new Date(
+						Date.now() + OWNERSHIP_TRANSFER_TTL_HOURS * 60 * 60 * 1000,
+					),
+				},
+			});
+		});
+
+		return {
+			success: true,
+			message:
+				fromTelegramId === requestedBy
+					? 'Подтвердите передачу прав владельца'
+					: 'Передача прав ожидает подтверждения владельца',
+			transfer: {
+				id: transfer.id,
+				fromTelegramId: transfer.fromTelegramId,
+				toTelegramId: transfer.toTelegramId,
+				expiresAt: transfer.expiresAt,
+			},
+		};
+	}
+
+	/**
+	 * Подтверждает передачу прав: владелец становится обычным superadmin,
+	 * получатель становится владельцем
+	 */
+	static async confirmTransfer(
+		transferId: string,
+		confirmedBy: string,
+	): Promise<OwnershipTransferResult> {
+		const transfer = await prisma.ownershipTransfer.findUnique({
+			where: { id: transferId },
+		});
+
+		if (!transfer || transfer.cancelledAt) {
+			return { success: false, message: 'Запрос на передачу прав не найден' };
+		}
+
+		if (transfer.fromTelegramId !== confirmedBy) {
+			return {
+				success: false,
+				message: 'Подтвердить передачу может только текущий владелец',
+			};
+		}
+
+		if (transfer.confirmedAt) {
+			return { success: false, message: 'Передача прав уже подтверждена' };
+		}
+
+		if (transfer.expiresAt <= new Date()) {
+			return {
+				success: false,
+				message: 'Срок подтверждения передачи прав истек',
+			};
+		}
+
+		// Пока запрос ждал подтверждения, состав админов мог измениться
+		const [isOwner, recipient] = await Promise.all([
+			AdminService.isOwner(confirmedBy),
+			prisma.adminUser.findUnique({
+				where: { telegramId: transfer.toTelegramId },
+				select: { id: true },
+			}),
+		]);
+
+		if (!isOwner) {
+			return { success: false, message: 'Вы больше не являетесь владельцем' };
+		}
+
+		if (!recipient) {
+			return {
+				success: false,
+				message: 'Получатель больше не является админом',
+			};
+		}
+
+		const confirmed = await prisma.$transaction(async (tx) => {
+			// Условие защищает от повторного подтверждения одного запроса
+			const { count } = await tx.ownershipTransfer.updateMany({
+				where: { id: transfer.id, confirmedAt: null, cancelledAt: null },
+				data: { confirmedAt: new Date() },
+			});
+
+			if (count === 0) {
+				return false;
+			}
+
+			// Владелец из окружения мог еще не попасть в таблицу админов
+			await tx.adminUser.upsert({
+				where: { telegramId: transfer.fromTelegramId },
+				update: { isOwner: false, permissionSet: 'superadmin' },
+				create: {
+					telegramId: transfer.fromTelegramId,
+					isOwner: false,
+					permissionSet: 'superadmin',
+				},
+			});
+
+			await tx.adminUser.update({
+				where: { telegramId: transfer.toTelegramId },
+				data: { isOwner: true, permissionSet: 'superadmin' },
+			});
+
+			return true;
+		});
+
+		if (!confirmed) {
+			return { success: false, message: 'Передача прав уже подтверждена' };
+		}
+
+		await Promise.all([
+			invalidateAdminCache(transfer.fromTelegramId),
+			invalidateAdminCache(transfer.toTelegramId),
+		]);
+
+		return {
+			success: true,
+			message: 'Права владельца переданы',
+			transfer: {
+				id: transfer.id,
+				fromTelegramId: transfer.fromTelegramId,
+				toTelegramId: transfer.toTelegramId,
+				expiresAt: transfer.expiresAt,
+			},
+		};
+	}
+
+	/**
+	 * Отменяет ожидающую передачу прав (владелец или автор запроса)
+	 */
+	static async cancelTransfer(
+		transferId: string,
+		cancelledBy: string,
+	): Promise<OwnershipTransferResult> {
+		const transfer = await prisma.ownershipTransfer.findUnique({
+			where: { id: transferId },
+		});
+
+		if (!transfer || transfer.cancelledAt || transfer.confirmedAt) {
+			return {
+				success: false,
+				message: 'Ожидающий запрос на передачу прав не найден',
+			};
+		}
+
+		if (
+			transfer.fromTelegramId !== cancelledBy &&
+			transfer.requestedBy !== cancelledBy
+		) {
+			return {
+				success: false,
+				message: 'Отменить передачу может только владелец или автор запроса',
+			};
+		}
+
+		await prisma.ownershipTransfer.update({
+			where: { id: transfer.id },
+			data: { cancelledAt: new Date() },
+		});
+
+		return { success: true, message: 'Передача прав отменена' };
+	}
+}
@@ -0,0 +1,233 @@
+import { prisma } from '../prisma';
+import { StorageService } from './storage.service';
+import { invalidateClubsCache } from '../utils/cacheUtils';
+import { PUBLISHED_CLUB_WHERE } from '../utils/clubPublication';
+import { Prisma } from '../../generated/prisma';
+
+// В подборке видны только игроки опубликованных клубов, не попавшие в корзину
+const VISIBLE_ITEM_WHERE: Prisma.PlayerCollectionItemWhereInput = {
+	player: { deletedAt: null, club: PUBLISHED_CLUB_WHERE },
+};
+
+export interface PlayerCollectionSummary {
+	id: string;
+	name: string;
+	description: string | null;
+	playersCount: number;
+	updatedAt: Date;
+}
+
+export interface PlayerCollectionData {
+	id: string;
+	name: string;
+	description: string | null;
+	players: Array<{
+		id: string;
+		name: string;
+		avatarUrl: string;
+		club: { id: string; name: string; logoUrl: string };
+	}>;
+	updatedAt: Date;
+}
+
+export class PlayerCollectionService {
+	/**
+	 * Получает все подборки с количеством игроков
+	 */
+	static async getCollections(): Promise<PlayerCollectionSummary[]> {
+		const collections = await prisma.playerCollection.findMany({
+			orderBy: { name: 'asc' },
+			include: {
+				_count: {
+					select: { items: { where: VISIBLE_ITEM_WHERE } },
+				},
+			},
+		});
+
+		return collections.map((collection) => ({
+			id: collection.id,
+			name: collection.name,
+			description: collection.description,
+			playersCount: collection._count.items,
+			updatedAt: collection.updatedAt,
+		}));
+	}
+
+	/**
+	 * Получает подборку с игроками, их аватарами и логотипами клубов
+	 */
+	static async getCollectionById(
+		id: string,
+	): Promise<PlayerCollectionData | null> {
+		const collection = await prisma.playerCollection.findUnique({
+			where: { id },
+			include: {
+				items: {
+					where: VISIBLE_ITEM_WHERE,
+					orderBy: { position: 'asc' },
+					include: {
+						player: {
+							select: {
+								id: true,
+								name: true,
+								avatar: true,
+								club: { select: { id: true, name: true, logo: true } },
+							},
+						},
+					},
+				},
+			},
+		});
+
+		if (!collection) {
+			return null;
+		}
+
+		const players = collection.items.map((item) => item.player);
+
+		const storageService = new StorageService();
+		const [avatarUrls, logoUrls] = await Promise.all([
+			storageService.getBatchFastUrls(
+				players.map((player) => player.avatar).filter(Boolean),
+				'avatar',
+			),
+			storageService.getBatchFastUrls(
+				Array.from(
+					new Set(players.map((player) => player.club.logo).filter(Boolean)),
+				),
+				'logo',
+			),
+		]);
+
+		return {
+			id: collection.id,
+			name: collection.name,
+			description: collection.description,
+			players: players.map((player) => ({
+				id: player.id,
+				name: player.name,
+				avatarUrl: player.avatar ? avatarUrls[player.avatar] || '' : '',
+				club: {
+					id: player.club.id,
+					name: player.club.name,
+					logoUrl: player.club.logo ? logoUrls[player.club.logo] || '' : '',
+				},
+			})),
+			updatedAt: collection.updatedAt,
+		};
+	}
+
+	/**
+	 * Проверяет, занято ли название подборки (без учета указанной подборки)
+	 */
+	static async isNameTaken(name: string, excludeId?: string): Promise<boolean> {
+		const collection = await prisma.playerCollection.findUnique({
+			where: { name },
+			select: { id: true },
+		});
+
+		return Boolean(collection && collection.id !== excludeId);
+	}
+
+	/**
+	 * Создает подборку игроков
+	 * Порядок игроков в подборке соответствует порядку playerIds
+	 */
+	static async createCollection(data: {
+		name: string;
+		description?: string | null;
+		playerIds: string[];
+	}): Promise<PlayerCollectionSummary> {
+		const collection = await prisma.playerCollection.create({
+			data: {
+				name: data.name,
+				description: data.description || null,
+				items: {
+					create: data.playerIds.map((playerId, position) => ({
+						playerId,
+						position,
+					})),
+				},
+			},
+		});
+
+		await invalidateClubsCache();
+
+		return {
+			id: collection.id,
+			name: collection.name,
+			description: collection.description,
+			playersCount: data.playerIds.length,
+			updatedAt: collection.updatedAt,
+		};
+	}
+
+	/**
+	 * Обновляет подборку; переданный список игроков полностью заменяет текущий
+	 */
+	static async updateCollection(
+		id: string,
+		data: {
+			name?: string;
+			description?: string | null;
+			playerIds?: string[];
+		},
+	): Promise<PlayerCollectionSummary> {
+		const collection = await prisma.$transaction(async (tx) => {
+			if (data.playerIds) {
+				await tx.playerCollectionItem.deleteMany({
+					where: { collectionId: id },
+				});
+
+				await tx.playerCollectionItem.createMany({
+					data: data.playerIds.map((playerId, position) => ({
+						collectionId: id,
+						playerId,
+						position,
+					})),
+				});
+			}
+
+			return tx.playerCollection.update({
+				where: { id },
+				data: {
+					name: data.name,
+					description: data.description,
+				},
+				include: {
+					_count: {
+						select: { items: { where: VISIBLE_ITEM_WHERE } },
+					},
+				},
+			});
+		});
+
+		await invalidateClubsCache();
+
+		return {
+			id: collection.id,
+			name: collection.name,
+			description: collection.description,
+			playersCount: collection._count.items,
+			updatedAt: collection.updatedAt,
+		};
+	}
+
+	/**
+	 * Удаляет подборку
+	 * Сохраненные тир-листы по подборке остаются, но теряют привязку к ней
+	 */
+	static async deleteCollection(id: string): Promise<void> {
+		await prisma.$transaction([
+			prisma.tierList.updateMany({
+				where: { collectionId: id },
+				data: { collectionId: null },
+			}),
+			prisma.playerCollection.delete({
+				where: { id },
+			}),
+		]);
+
+		await invalidateClubsCache();
+	}
+}
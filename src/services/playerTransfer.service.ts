@@ -0,0 +1,118 @@
+import { prisma } from '../prisma';
+import { SeasonService } from './season.service';
+import { invalidateClubsCache } from '../utils/cacheUtils';
+import { Prisma } from '../../generated/prisma';
+
+export interface PlayerTransferData {
+	id: string;
+	fromClub: { id: string; name: string } | null;
+	toClub: { id: string; name: string } | null;
+	transferredAt: Date;
+}
+
+export class PlayerTransferService {
+	/**
+	 * Проверяет, есть ли в клубе другой игрок с таким именем (без учета корзины)
+	 * Проверка выполняется до трансфера, как и при создании игрока
+	 */
+	static async hasNamesake(
+		name: string,
+		clubId: string,
+		excludePlayerId: string,
+	): Promise<boolean> {
+		const namesake = await prisma.players.findFirst({
+			where: {
+				name,
+				clubId,
+				deletedAt: null,
+				id: { not: excludePlayerId },
+			},
+			select: { id: true },
+		});
+
+		return Boolean(namesake);
+	}
+
+	/**
+	 * Переводит игрока в другой клуб и записывает переход в историю
+	 * ID игрока и аватар сохраняются, поэтому прошлые игровые сессии
+	 * и тир-листы остаются привязанными к старому клубу
+	 * changes - другие поля игрока, которые меняются в той же транзакции
+	 */
+	static async transferPlayer(
+		playerId: string,
+		toClubId: string,
+		transferredBy: string | null,
+		transferredAt: Date = new Date(),
+		changes: Prisma.PlayersUncheckedUpdateInput = {},
+	): Promise<PlayerTransferData> {
+		const player = await prisma.players.findUniqueOrThrow({
+			where: { id: playerId },
+			select: { clubId: true, isActive: true },
+		});
+
+		const transfer = await prisma.$transaction(async (tx) => {
+			await tx.players.update({
+				where: { id: playerId },
+				data: { ...changes, clubId: toClubId },
+			});
+
+			return tx.playerTransfer.create({
+				data: {
+					playerId,
+					fromClubId: player.clubId,
+					toClubId,
+					transferredAt,
+					transferredBy,
+				},
+				include: {
+					fromClub: { select: { id: true, name: true } },
+					toClub: { select: { id: true, name: true } },
+				},
+			});
+		});
+
+		// Состав текущего сезона меняется только для активных игроков
+		if (player.isActive) {
+			await SeasonService.leaveCurrentRoster(playerId, player.clubId);
+			await SeasonService.joinCurrentRoster(playerId, toClubId);
+		}
+
+		// Меняются составы обоих клубов
+		await invalidateClubsCache();
+
+		return this.formatTransfer(transfer);
+	}
+
+	/**
+	 * Получает историю переходов игрока (от новых к старым)
+	 */
+	static async getTransferHistory(
+		playerId: string,
+	): Promise<PlayerTransferData[]> {
+		const transfers = await prisma.playerTransfer.findMany({
+			where: { playerId },
+			orderBy: { transferredAt: 'desc' },
+			include: {
+				fromClub: { select: { id: true, name: true } },
+				toClub: { select: { id: true, name: true } },
+			},
+		});
+
+		return transfers.map((transfer) => this.formatTransfer(transfer));
+	}
+
+	private static formatTransfer(transfer: {
+		id: string;
+		transferredAt: Date;
+		fromClub: { id: string; name: string } | null;
+		toClub: { id: string; name: string } | null;
+	}): PlayerTransferData {
+		return {
+			id: transfer.id,
+			fromClub: transfer.fromClub,
+			toClub: transfer.toClub,
+			transferredAt: transfer.transferredAt,
+		};
+	}
+}
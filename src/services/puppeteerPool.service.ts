@@ -2,6 +2,7 @@ import puppeteer, { Browser, Page } from 'puppeteer-core';
 import chromium from '@sparticuz/chromium';
 import { EventEmitter } from 'events';
 import { logger } from '../utils/logger';
+import { config } from '../config/env';
 
 interface BrowserInstance {
 	browser: Browser;
@@ -58,9 +59,67 @@ export class PuppeteerPoolService extends EventEmitter {
 	private shutdownInProgress = false;
 	private cleanupInterval: NodeJS.Timeout | null = null;
 
+	// Сетевые источники, из которых странице разрешено загружать изображения
+	private readonly allowedOrigins: Set<string>;
+
 	private constructor() {
 		super();
 		this.setMaxListeners(1000);
+		this.allowedOrigins = this.buildAllowedOrigins();
+	}
+
+	/**
+	 * Собирает список разрешенных источников: публичный домен R2,
+	 * а если он не настроен - домены подписанных URL хранилища
+	 */
+	private buildAllowedOrigins(): Set<string> {
+		const origins = new Set<string>();
+		const addOrigin = (url: string) => {
+			try {
+				origins.add(new URL(url).origin);
+			} catch {
+				logger.warn(`⚠️ Некорректный URL хранилища: ${url}`, 'PUPPETEER_POOL');
+			}
+		};
+
+		if (config.r2.publicDomain) {
+			addOrigin(config.r2.publicDomain);
+		} else {
+			addOrigin(`https://${config.r2.bucketName}.r2.dev`);
+			addOrigin(config.r2.endpoint);
+
+			// S3 клиент использует virtual-hosted адреса вида bucket.endpoint
+			try {
+				const endpoint = new URL(config.r2.endpoint);
+				addOrigin(
+					`${endpoint.protocol}//${config.r2.bucketName}.${endpoint.host}`,
+				);
+			} catch {
+				// Некорректный endpoint уже залогирован выше
+			}
+		}
+
+		return origins;
+	}
+
+	/**
+	 * Проверяет, может ли страница рендера выполнить сетевой запрос
+	 * Разрешены только встроенные data: ресурсы и изображения из хранилища
+	 */
+	private isRequestAllowed(url: string, resourceType: string): boolean {
+		if (url.startsWith('data:') || url === 'about:blank') {
+			return true;
+		}
+
+		if (resourceType !== 'image') {
+			return false;
+		}
+
+		try {
+			return this.allowedOrigins.has(new URL(url).origin);
+		} catch {
+			return false;
+		}
 	}
 
 	public static getInstance(): PuppeteerPoolService {
@@ -341,32 +400,25 @@ export class PuppeteerPoolService extends EventEmitter {
 			page = await browserInstance.browser.newPage();
 			browserInstance.pages.set(pageId, page);
 
-			// Настраиваем страницу для оптимизации
-			if (options.optimizeForSpeed) {
-				await page.setRequestInterception(true);
-				page.on('request', (req: any) => {
-					const resourceType = req.resourceType();
-					const url = req.url();
-
-					if (
-						resourceType === 'stylesheet' ||
-						resourceType === 'font' ||
-						resourceType === 'script'
-					) {
-						if (url.startsWith('http') && !url.startsWith('data:')) {
-							req.abort();
-							return;
-						}
-					}
+			// Блокируем все сетевые запросы, кроме изображений из нашего хранилища
+			await page.setRequestInterception(true);
+			page.on('request', (req: any) => {
+				const url = req.url();
 
-					if (resourceType === 'image') {
-						req.continue();
-						return;
-					}
+				if (!this.isRequestAllowed(url, req.resourceType())) {
+					logger.warn(
+						`🚫 Заблокирован запрос страницы рендера: ${url.substring(0, 100)}`,
+						'PUPPETEER_POOL',
+					);
+					req.abort('blockedbyclient');
+					return;
+				}
 
-					req.continue();
-				});
+				req.continue();
+			});
 
+			// Настраиваем страницу для оптимизации
+			if (options.optimizeForSpeed) {
 				await page.setJavaScriptEnabled(false);
 			}
 
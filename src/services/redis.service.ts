@@ -1,6 +1,15 @@
+import crypto from 'crypto';
 import { Redis } from 'ioredis';
 import { config } from '../config/env';
 
+// Удаляет ключ блокировки, только если в нем записан переданный токен
+const RELEASE_LOCK_SCRIPT = `
+if redis.call('get', KEYS[1]) == ARGV[1] then
+	return redis.call('del', KEYS[1])
+end
+return 0
+`;
+
 /**
  * Сервис для работы с Redis
  */
@@ -90,6 +99,25 @@ class RedisService {
 		return this.client.del(...keys);
 	}
 
+	/**
+	 * Взять блокировку на ttl секунд, если ее еще не взял другой процесс PM2
+	 * Возвращает токен для releaseLock или null, если блокировка занята
+	 */
+	async acquireLock(key: string, ttl: number): Promise<string | null> {
+		const token = crypto.randomUUID();
+		const result = await this.client.set(key, token, 'EX', ttl, 'NX');
+		return result === 'OK' ? token : null;
+	}
+
+	/**
+	 * Снять блокировку, только если ее все еще держит владелец токена
+	 * Если ttl истек и блокировку взял другой процесс, она не снимается
+	 */
+	async releaseLock(key: string, token: string): Promise<boolean> {
+		const result = await this.client.eval(RELEASE_LOCK_SCRIPT, 1, key, token);
+		return result === 1;
+	}
+
 	/**
 	 * Получить прямой доступ к Redis клиенту для специальных операций
 	 */
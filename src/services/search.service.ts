@@ -0,0 +1,181 @@
+import { prisma } from '../prisma';
+import { StorageService } from './storage.service';
+import { withCache } from '../utils/cacheUtils';
+import { normalizeForSearch, scoreSearchMatch } from '../utils/searchUtils';
+
+export type SearchResultType = 'club' | 'player';
+
+export interface ClubSearchResult {
+	id: string;
+	name: string;
+	logoUrl: string;
+	score: number;
+}
+
+export interface PlayerSearchResult {
+	id: string;
+	name: string;
+	avatarUrl: string;
+	isActive: boolean;
+	club: { id: string; name: string };
+	score: number;
+}
+
+export interface SearchResults {
+	clubs: ClubSearchResult[];
+	players: PlayerSearchResult[];
+}
+
+type SearchIndex = {
+	clubs: Array<{
+		id: string;
+		name: string;
+		logo: string;
+		isPublished: boolean;
+		normalized: string;
+	}>;
+	players: Array<{
+		id: string;
+		name: string;
+		avatar: string;
+		isActive: boolean;
+		isPublished: boolean; // опубликован ли клуб игрока
+		club: { id: string; name: string };
+		normalized: string;
+	}>;
+};
+
+// Индекс лежит в пространстве клубов, чтобы сбрасываться вместе с кэшем клубов
+const SEARCH_INDEX_CACHE_KEY = 'cache:clubs:search_index';
+const SEARCH_INDEX_TTL = 600; // 10 минут
+
+export class SearchService {
+	/**
+	 * Ищет клубы и игроков по части названия
+	 * Учитывает опечатки и написание кириллицей или латиницей ("Дзюба" / "Dzyuba")
+	 * Неактивные игроки и неопубликованные клубы находятся только при includeHidden (для админки)
+	 */
+	static async search(
+		query: string,
+		options: {
+			types?: SearchResultType[];
+			limit?: number;
+			includeHidden?: boolean;
+		} = {},
+	): Promise<SearchResults> {
+		const {
+			types = ['club', 'player'],
+			limit = 10,
+			includeHidden = false,
+		} = options;
+		const normalizedQuery = normalizeForSearch(query);
+
+		if (!normalizedQuery) {
+			return { clubs: [], players: [] };
+		}
+
+		const index = await this.getIndex();
+
+		const rank = <T extends { normalized: string; name: string }>(items: T[]) =>
+			items
+				.map((item) => ({
+					item,
+					score: scoreSearchMatch(normalizedQuery, item.normalized),
+				}))
+				.filter(({ score }) => score > 0)
+				.sort(
+					(a, b) =>
+						b.score - a.score || a.item.name.localeCompare(b.item.name, 'ru'),
+				)
+				.slice(0, limit);
+
+		const clubs = types.includes('club')
+			? rank(
+					includeHidden
+						? index.clubs
+						: index.clubs.filter((club) => club.isPublished),
+			  )
+			: [];
+		const players = types.includes('player')
+			? rank(
+					includeHidden
+						? index.players
+						: index.players.filter(
+								(player) => player.isActive && player.isPublished,
+						  ),
+			  )
+			: [];
+
+		// Подписываем URL только для найденных записей
+		const storageService = new StorageService();
+		const [logoUrls, avatarUrls] = await Promise.all([
+			storageService.getBatchFastUrls(
+				clubs.map(({ item }) => item.logo).filter(Boolean),
+				'logo',
+			),
+			storageService.getBatchFastUrls(
+				players.map(({ item }) => item.avatar).filter(Boolean),
+				'avatar',
+			),
+		]);
+
+		return {
+			clubs: clubs.map(({ item, score }) => ({
+				id: item.id,
+				name: item.name,
+				logoUrl: item.logo ? logoUrls[item.logo] || '' : '',
+				score: Math.round(score * 100) / 100,
+			})),
+			players: players.map(({ item, score }) => ({
+				id: item.id,
+				name: item.name,
+				avatarUrl: item.avatar ? avatarUrls[item.avatar] || '' : '',
+				isActive: item.isActive,
+				club: item.club,
+				score: Math.round(score * 100) / 100,
+			})),
+		};
+	}
+
+	/**
+	 * Получает поисковый индекс с уже нормализованными названиями
+	 */
+	private static async getIndex(): Promise<SearchIndex> {
+		return withCache(
+			async () => {
+				const [clubs, players] = await Promise.all([
+					prisma.club.findMany({
+						where: { deletedAt: null },
+						select: { id: true, name: true, logo: true, status: true },
+					}),
+					prisma.players.findMany({
+						where: { deletedAt: null },
+						select: {
+							id: true,
+							name: true,
+							avatar: true,
+							isActive: true,
+							club: { select: { id: true, name: true, status: true } },
+						},
+					}),
+				]);
+
+				return {
+					clubs: clubs.map(({ status, ...club }) => ({
+						...club,
+						isPublished: status === 'published',
+						normalized: normalizeForSearch(club.name),
+					})),
+					players: players.map(({ club: { status, ...club }, ...player }) => ({
+						...player,
+						club,
+						isPublished: status === 'published',
+						normalized: normalizeForSearch(player.name),
+					})),
+				};
+			},
+			SEARCH_INDEX_CACHE_KEY,
+			{ ttl: SEARCH_INDEX_TTL },
+		);
+	}
+}
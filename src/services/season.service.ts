@@ -0,0 +1,254 @@
+import { prisma } from '../prisma';
+import { PlayerPosition } from '../../generated/prisma';
+import { invalidateClubsCache } from '../utils/cacheUtils';
+
+export interface SeasonData {
+	id: string;
+	name: string;
+	startDate: Date;
+	endDate: Date | null;
+	isCurrent: boolean;
+}
+
+type RosterPlayer = {
+	id: string;
+	name: string;
+	avatar: string;
+	clubId: string;
+	isActive: boolean;
+	position: PlayerPosition | null;
+	shirtNumber: number | null;
+	displayOrder: number;
+};
+
+const SEASON_SELECT = {
+	id: true,
+	name: true,
+	startDate: true,
+	endDate: true,
+	isCurrent: true,
+};
+
+export class SeasonService {
+	/**
+	 * Получает текущий сезон (или null, если сезоны еще не заведены)
+	 */
+	static async getCurrentSeason(): Promise<SeasonData | null> {
+		return prisma.season.findFirst({
+			where: { isCurrent: true },
+			select: SEASON_SELECT,
+		});
+	}
+
+	/**
+	 * Находит сезон по ID или названию (например, ?season=2024/25)
+	 */
+	static async resolveSeason(idOrName: string): Promise<SeasonData | null> {
+		return prisma.season.findFirst({
+			where: { OR: [{ id: idOrName }, { name: idOrName }] },
+			select: SEASON_SELECT,
+		});
+	}
+
+	/**
+	 * Получает все сезоны (от новых к старым)
+	 */
+	static async getSeasons(): Promise<
+		Array<SeasonData & { playersCount: number }>
+	> {
+		const seasons = await prisma.season.findMany({
+			orderBy: { startDate: 'desc' },
+			select: { ...SEASON_SELECT, _count: { select: { rosters: true } } },
+		});
+
+		return seasons.map(({ _count, ...season }) => ({
+			...season,
+			playersCount: _count.rosters,
+		}));
+	}
+
+	/**
+	 * Создает сезон
+	 * Если сезон становится текущим, предыдущий закрывается, а в новый
+	 * копируется текущий состав всех клубов (снимок состава)
+	 */
+	static async createSeason(data: {
+		name: string;
+		startDate: Date;
+		endDate?: Date | null;
+		makeCurrent: boolean;
+	}): Promise<SeasonData> {
+		const season = await prisma.$transaction(async (tx) => {
+			const created = await tx.season.create({
+				data: {
+					name: data.name,
+					startDate: data.startDate,
+					endDate: data.endDate || null,
+				},
+				select: SEASON_SELECT,
+			});
+
+			if (!data.makeCurrent) {
+				return created;
+			}
+
+			await tx.season.updateMany({
+				where: { isCurrent: true },
+				data: { isCurrent: false, endDate: data.startDate },
+			});
+
+			const activePlayers = await tx.players.findMany({
+				where: { isActive: true, deletedAt: null },
+				select: { id: true, clubId: true },
+			});
+
+			await tx.clubSeasonRoster.createMany({
+				data: activePlayers.map((player) => ({
+					seasonId: created.id,
+					clubId: player.clubId,
+					playerId: player.id,
+					joinedAt: data.startDate,
+				})),
+				skipDuplicates: true,
+			});
+
+			return tx.season.update({
+				where: { id: created.id },
+				data: { isCurrent: true },
+				select: SEASON_SELECT,
+			});
+		});
+
+		await invalidateClubsCache();
+
+		return season;
+	}
+
+	/**
+	 * Обновляет название и даты сезона
+	 */
+	static async updateSeason(
+		id: string,
+		data: { name?: string; startDate?: Date; endDate?: Date | null },
+	): Promise<SeasonData> {
+		const season = await prisma.season.update({
+			where: { id },
+			data,
+			select: SEASON_SELECT,
+		});
+
+		await invalidateClubsCache();
+
+		return season;
+	}
+
+	/**
+	 * Делает сезон текущим (состав при этом не копируется)
+	 */
+	static async setCurrentSeason(id: string): Promise<SeasonData> {
+		const season = await prisma.$transaction(async (tx) => {
+			await tx.season.updateMany({
+				where: { isCurrent: true, id: { not: id } },
+				data: { isCurrent: false },
+			});
+
+			return tx.season.update({
+				where: { id },
+				data: { isCurrent: true },
+				select: SEASON_SELECT,
+			});
+		});
+
+		await invalidateClubsCache();
+
+		return season;
+	}
+
+	/**
+	 * Удаляет сезон вместе с его составами
+	 * Игровые сессии сезона сохраняются без привязки к сезону
+	 */
+	static async deleteSeason(id: string): Promise<void> {
+		await prisma.season.delete({
+			where: { id },
+		});
+
+		await invalidateClubsCache();
+	}
+
+	/**
+	 * Получает игроков клуба: текущий состав или состав указанного сезона
+	 * Игроки упорядочены по порядку отображения, затем по имени
+	 * Без сезонов текущим составом считаются все активные игроки клуба
+	 */
+	static async getClubRoster(
+		clubId: string,
+		seasonId?: string,
+	): Promise<RosterPlayer[]> {
+		const select = {
+			id: true,
+			name: true,
+			avatar: true,
+			clubId: true,
+			isActive: true,
+			position: true,
+			shirtNumber: true,
+			displayOrder: true,
+		};
+
+		if (!seasonId) {
+			return prisma.players.findMany({
+				where: { clubId, isActive: true, deletedAt: null },
+				orderBy: [{ displayOrder: 'asc' }, { name: 'asc' }],
+				select,
+			});
+		}
+
+		const rosters = await prisma.clubSeasonRoster.findMany({
+			where: { clubId, seasonId, player: { deletedAt: null } },
+			include: { player: { select } },
+			orderBy: [
+				{ player: { displayOrder: 'asc' } },
+				{ player: { name: 'asc' } },
+			],
+		});
+
+		return rosters.map((roster) => roster.player);
+	}
+
+	/**
+	 * Добавляет игрока в состав клуба в текущем сезоне
+	 * Если игрок уже был в составе этого клуба в сезоне, членство возобновляется
+	 */
+	static async joinCurrentRoster(
+		playerId: string,
+		clubId: string,
+	): Promise<void> {
+		const season = await this.getCurrentSeason();
+		if (!season) return;
+
+		await prisma.clubSeasonRoster.upsert({
+			where: {
+				seasonId_clubId_playerId: { seasonId: season.id, clubId, playerId },
+			},
+			create: { seasonId: season.id, clubId, playerId },
+			update: { leftAt: null },
+		});
+	}
+
+	/**
+	 * Отмечает уход игрока из состава клуба в текущем сезоне
+	 */
+	static async leaveCurrentRoster(
+		playerId: string,
+		clubId: string,
+	): Promise<void> {
+		const season = await this.getCurrentSeason();
+		if (!season) return;
+
+		await prisma.clubSeasonRoster.updateMany({
+			where: { seasonId: season.id, clubId, playerId, leftAt: null },
+			data: { leftAt: new Date() },
+		});
+	}
+}
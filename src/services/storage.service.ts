@@ -3,6 +3,7 @@ import {
 	PutObjectCommand,
 	DeleteObjectCommand,
 	GetObjectCommand,
+	HeadObjectCommand,
 } from '@aws-sdk/client-s3';
 import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
 import { config } from '../config/env';
@@ -310,6 +311,78 @@ export class StorageService {
 		}
 	}
 
+	/**
+	 * Загружает содержимое файла в R2 под указанным ключом (для восстановления из резервной копии)
+	 */
+	async uploadBuffer(
+		fileKey: string,
+		body: Buffer,
+		contentType: string,
+	): Promise<void> {
+		try {
+			await this.s3Client.send(
+				new PutObjectCommand({
+					Bucket: this.bucketName,
+					Key: fileKey,
+					Body: body,
+					ContentType: contentType,
+				}),
+			);
+		} catch (error) {
+			console.error('Ошибка загрузки файла в R2:', error);
+			throw new Error('Не удалось загрузить файл в хранилище');
+		}
+	}
+
+	/**
+	 * Скачивает содержимое файла из R2
+	 */
+	async downloadFile(fileKey: string): Promise<Buffer> {
+		try {
+			const response = await this.s3Client.send(
+				new GetObjectCommand({
+					Bucket: this.bucketName,
+					Key: fileKey,
+				}),
+			);
+
+			if (!response.Body) {
+				throw new Error('Пустой ответ хранилища');
+			}
+
+			return Buffer.from(await response.Body.transformToByteArray());
+		} catch (error) {
+			console.error('Ошибка скачивания файла из R2:', error);
+			throw new Error('Не удалось скачать файл из хранилища');
+		}
+	}
+
+	/**
+	 * Проверяет, есть ли файл в R2
+	 * Ошибки, кроме отсутствия файла, пробрасываются, чтобы не принять существующий файл за новый
+	 */
+	async fileExists(fileKey: string): Promise<boolean> {
+		try {
+			await this.s3Client.send(
+				new HeadObjectCommand({
+					Bucket: this.bucketName,
+					Key: fileKey,
+				}),
+			);
+			return true;
+		} catch (error: any) {
+			if (
+				error?.name === 'NotFound' ||
+				error?.$metadata?.httpStatusCode === 404
+			) {
+				return false;
+			}
+
+			console.error('Ошибка проверки файла в R2:', error);
+			throw new Error('Не удалось проверить файл в хранилище');
+		}
+	}
+
 	/**
 	 * Удаляет файл из R2
 	 */
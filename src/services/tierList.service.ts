@@ -0,0 +1,583 @@
+import { prisma } from '../prisma';
+import { ShareImageData } from './imageGeneration.service';
+import { StorageService } from './storage.service';
+import { SpecializedCaches } from './cacheService';
+import { buildTierListDeepLink, generateShareCode } from '../utils/shareLinks';
+
+export interface TierListCategory {
+	name: string;
+	color: string;
+	slots: number;
+}
+
+export interface TierListData {
+	id: string;
+	telegramId: string;
+	clubId: string | null;
+	collectionId: string | null;
+	sessionId: string | null;
+	shareCode: string | null;
+	categories: TierListCategory[];
+	categorizedPlayerIds: { [categoryName: string]: string[] };
+	createdAt: Date;
+	updatedAt: Date;
+}
+
+export interface PublicTierList {
+	code: string;
+	deepLink: string;
+	club: { id: string; name: string; logoUrl: string } | null;
+	collection: { id: string; name: string } | null;
+	categories: Array<
+		TierListCategory & {
+			players: Array<{ id: string; name: string; avatarUrl: string }>;
+		}
+	>;
+	createdAt: Date;
+}
+
+export interface CommunityTierListPlayer {
+	id: string;
+	name: string;
+	avatarUrl: string;
+	votes: number;
+	averagePosition: number; // средняя позиция от 0 (лучшая категория) до 1 (худшая)
+	averageTier: number; // средняя позиция в категориях общего тир-листа
+	spread: number; // стандартное отклонение в категориях общего тир-листа
+	controversy: number; // 0 - все согласны, 1 - мнения максимально разделились
+}
+
+export interface CommunityTierList {
+	clubId: string;
+	totalVotes: number;
+	categories: Array<TierListCategory & { players: CommunityTierListPlayer[] }>;
+	generatedAt: string;
+}
+
+type TierListWithPlacements = {
+	id: string;
+	telegramId: string;
+	clubId: string | null;
+	collectionId: string | null;
+	sessionId: string | null;
+	shareCode: string | null;
+	categories: any;
+	createdAt: Date;
+	updatedAt: Date;
+	placements: Array<{
+		playerId: string;
+		categoryName: string;
+		categoryIndex: number;
+		position: number;
+	}>;
+};
+
+export class TierListService {
+	/**
+	 * Сохраняет тир-лист пользователя
+	 * Если последний тир-лист пользователя по этому клубу (или подборке) совпадает с новым,
+	 * обновляет существующую запись вместо создания дубликата
+	 */
+	static async saveTierList(
+		telegramId: string,
+		data: ShareImageData,
+		sessionId?: string | null,
+	): Promise<TierListData> {
+		const categories = data.categories.map((category) => ({
+			name: category.name,
+			color: category.color,
+			slots: category.slots,
+		}));
+
+		const placements = categories.flatMap((category, categoryIndex) =>
+			(data.categorizedPlayerIds[category.name] || []).map(
+				(playerId, position) => ({
+					playerId,
+					categoryName: category.name,
+					categoryIndex,
+					position,
+				}),
+			),
+		);
+
+		const latest = await prisma.tierList.findFirst({
+			where: {
+				telegramId,
+				clubId: data.clubId || null,
+				collectionId: data.collectionId || null,
+			},
+			orderBy: { createdAt: 'desc' },
+			include: { placements: true },
+		});
+
+		if (latest && this.isSameRanking(latest, categories, placements)) {
+			const updated = await prisma.tierList.update({
+				where: { id: latest.id },
+				data: { sessionId: latest.sessionId || sessionId || null },
+				include: { placements: true },
+			});
+
+			return this.formatTierList(updated);
+		}
+
+		const tierList = await prisma.tierList.create({
+			data: {
+				telegramId,
+				clubId: data.clubId || null,
+				collectionId: data.collectionId || null,
+				sessionId: sessionId || null,
+				categories,
+				placements: {
+					create: placements,
+				},
+			},
+			include: { placements: true },
+		});
+
+		// Новый голос меняет общий тир-лист клуба (для подборок он не строится)
+		if (data.clubId) {
+			await SpecializedCaches.invalidateCommunityTierList(data.clubId);
+		}
+
+		return this.formatTierList(tierList);
+	}
+
+	/**
+	 * Получает тир-листы пользователя (от новых к старым)
+	 */
+	static async getUserTierLists(
+		telegramId: string,
+		limit: number = 20,
+	): Promise<TierListData[]> {
+		const tierLists = await prisma.tierList.findMany({
+			where: { telegramId },
+			orderBy: { createdAt: 'desc' },
+			take: limit,
+			include: { placements: true },
+		});
+
+		return tierLists.map((tierList) => this.formatTierList(tierList));
+	}
+
+	/**
+	 * Получает тир-лист по ID
+	 */
+	static async getTierListById(id: string): Promise<TierListData | null> {
+		const tierList = await prisma.tierList.findUnique({
+			where: { id },
+			include: { placements: true },
+		});
+
+		return tierList ? this.formatTierList(tierList) : null;
+	}
+
+	/**
+	 * Получает тир-лист по коду публичной ссылки
+	 */
+	static async getTierListByShareCode(
+		code: string,
+	): Promise<TierListData | null> {
+		const tierList = await prisma.tierList.findUnique({
+			where: { shareCode: code },
+			include: { placements: true },
+		});
+
+		return tierList ? this.formatTierList(tierList) : null;
+	}
+
+	/**
+	 * Возвращает код публичной ссылки тир-листа, создавая его при необходимости
+	 */
+	static async ensureShareCode(tierListId: string): Promise<string> {
+		const tierList = await prisma.tierList.findUnique({
+			where: { id: tierListId },
+			select: { shareCode: true },
+		});
+
+		if (!tierList) {
+			throw new Error(`Тир-лист ${tierListId} не найден`);
+		}
+
+		if (tierList.shareCode) {
+			return tierList.shareCode;
+		}
+
+		// Фиксируем игроков до выдачи ссылки, чтобы ее содержимое не менялось
+		await this.snapshotPlacementPlayers(tierListId);
+
+		// Повторяем при маловероятной коллизии кода
+		for (let attempt = 0; attempt < 5; attempt++) {
+			const shareCode = generateShareCode();
+
+			try {
+				await prisma.tierList.update({
+					where: { id: tierListId },
+					data: { shareCode },
+				});
+				return shareCode;
+			} catch (error: any) {
+				if (error?.code !== 'P2002') {
+					throw error;
+				}
+			}
+		}
+
+		throw new Error('Не удалось сгенерировать уникальный код тир-листа');
+	}
+
+	/**
+	 * Сохраняет в расстановке имена и аватары игроков на текущий момент
+	 * Уже зафиксированные позиции не перезаписываются
+	 */
+	private static async snapshotPlacementPlayers(
+		tierListId: string,
+	): Promise<void> {
+		const placements = await prisma.tierListPlacement.findMany({
+			where: { tierListId, playerName: null },
+			select: { playerId: true },
+		});
+
+		if (placements.length === 0) {
+			return;
+		}
+
+		const players = await prisma.players.findMany({
+			where: { id: { in: placements.map((placement) => placement.playerId) } },
+			select: { id: true, name: true, avatar: true },
+		});
+
+		await prisma.$transaction(
+			players.map((player) =>
+				prisma.tierListPlacement.updateMany({
+					where: { tierListId, playerId: player.id, playerName: null },
+					data: { playerName: player.name, playerAvatar: player.avatar },
+				}),
+			),
+		);
+	}
+
+	/**
+	 * Получает публичное представление тир-листа по коду (с кэшированием)
+	 * Возвращает null, если тир-лист не найден
+	 */
+	static async getPublicTierList(code: string): Promise<PublicTierList | null> {
+		return SpecializedCaches.getPublicTierList(code, () =>
+			this.buildPublicTierList(code),
+		);
+	}
+
+	/**
+	 * Собирает публичный тир-лист: клуб, категории и игроков с аватарами
+	 * Имена и аватары берутся из снимка на момент выдачи ссылки
+	 * Ссылки, выданные до появления снимков, фиксируются при первом просмотре
+	 * Игроки, окончательно удаленные до фиксации, пропускаются
+	 */
+	private static async buildPublicTierList(
+		code: string,
+	): Promise<PublicTierList | null> {
+		const tierList = await this.getTierListByShareCode(code);
+
+		if (!tierList) {
+			return null;
+		}
+
+		await this.snapshotPlacementPlayers(tierList.id);
+
+		const [club, collection, players] = await Promise.all([
+			tierList.clubId
+				? prisma.club.findUnique({
+						where: { id: tierList.clubId },
+						select: { id: true, name: true, logo: true },
+				  })
+				: Promise.resolve(null),
+			tierList.collectionId
+				? prisma.playerCollection.findUnique({
+						where: { id: tierList.collectionId },
+						select: { id: true, name: true },
+				  })
+				: Promise.resolve(null),
+			prisma.tierListPlacement.findMany({
+				where: { tierListId: tierList.id, playerName: { not: null } },
+				select: { playerId: true, playerName: true, playerAvatar: true },
+			}),
+		]);
+
+		const storageService = new StorageService();
+		const [logoUrls, avatarUrls] = await Promise.all([
+			storageService.getBatchFastUrls(club?.logo ? [club.logo] : [], 'logo'),
+			storageService.getBatchFastUrls(
+				players
+					.map((player) => player.playerAvatar)
+					.filter((avatar): avatar is string => Boolean(avatar)),
+				'avatar',
+			),
+		]);
+
+		const playersMap = new Map(
+			players.map((player) => [player.playerId, player]),
+		);
+
+		return {
+			code,
+			deepLink: buildTierListDeepLink(code),
+			club: club
+				? {
+						id: club.id,
+						name: club.name,
+						logoUrl: club.logo ? logoUrls[club.logo] || '' : '',
+				  }
+				: null,
+			collection,
+			categories: tierList.categories.map((category) => ({
+				...category,
+				players: (tierList.categorizedPlayerIds[category.name] || [])
+					.map((playerId) => playersMap.get(playerId))
+					.filter((player) => player !== undefined)
+					.map((player) => ({
+						id: player!.playerId,
+						name: player!.playerName!,
+						avatarUrl: player!.playerAvatar
+							? avatarUrls[player!.playerAvatar] || ''
+							: '',
+					})),
+			})),
+			createdAt: tierList.createdAt,
+		};
+	}
+
+	/**
+	 * Получает общий тир-лист сообщества для клуба (с кэшированием)
+	 */
+	static async getCommunityTierList(
+		clubId: string,
+	): Promise<CommunityTierList> {
+		return SpecializedCaches.getCommunityTierList(clubId, () =>
+			this.buildCommunityTierList(clubId),
+		);
+	}
+
+	/**
+	 * Проверяет, учтен ли тир-лист в общем тир-листе сообщества
+	 * Учитывается только последний тир-лист пользователя (не админа) по клубу
+	 */
+	static async isCountedInCommunity(tierList: TierListData): Promise<boolean> {
+		if (!tierList.clubId) return false;
+
+		const latest = await prisma.tierList.findFirst({
+			where: {
+				telegramId: tierList.telegramId,
+				clubId: tierList.clubId,
+				User: {
+					role: 'user',
+				},
+			},
+			orderBy: { createdAt: 'desc' },
+			select: { id: true },
+		});
+
+		return latest?.id === tierList.id;
+	}
+
+	/**
+	 * Агрегирует тир-листы пользователей клуба в общий тир-лист (исключая админов)
+	 * Учитывается только последний тир-лист каждого пользователя
+	 */
+	private static async buildCommunityTierList(
+		clubId: string,
+	): Promise<CommunityTierList> {
+		const [tierLists, players] = await Promise.all([
+			prisma.tierList.findMany({
+				where: {
+					clubId,
+					// Исключаем админов
+					User: {
+						role: 'user',
+					},
+				},
+				orderBy: { createdAt: 'desc' },
+				distinct: ['telegramId'],
+				include: { placements: true },
+			}),
+			prisma.players.findMany({
+				where: { clubId, isActive: true, deletedAt: null },
+				select: { id: true, name: true, avatar: true },
+			}),
+		]);
+
+		const categories = this.getConsensusCategories(tierLists);
+		const playersMap = new Map(players.map((player) => [player.id, player]));
+
+		// Позиции игрока в каждом тир-листе, нормализованные к диапазону [0, 1]
+		const positionsByPlayer = new Map<string, number[]>();
+
+		for (const tierList of tierLists) {
+			const categoriesCount = (tierList.categories as any[])?.length || 1;
+
+			for (const placement of tierList.placements) {
+				// Пропускаем игроков, которых больше нет в клубе
+				if (!playersMap.has(placement.playerId)) continue;
+
+				const normalized =
+					categoriesCount > 1
+						? placement.categoryIndex / (categoriesCount - 1)
+						: 0;
+
+				const positions = positionsByPlayer.get(placement.playerId) || [];
+				positions.push(normalized);
+				positionsByPlayer.set(placement.playerId, positions);
+			}
+		}
+
+		const avatarKeys = players
+			.filter((player) => positionsByPlayer.has(player.id) && player.avatar)
+			.map((player) => player.avatar);
+		const avatarUrls = await new StorageService().getBatchFastUrls(
+			avatarKeys,
+			'avatar',
+		);
+
+		const tiersCount = Math.max(categories.length, 1);
+		const result = categories.map((category) => ({
+			...category,
+			players: [] as CommunityTierListPlayer[],
+		}));
+
+		for (const [playerId, positions] of positionsByPlayer) {
+			const player = playersMap.get(playerId)!;
+			const votes = positions.length;
+			const average = positions.reduce((sum, p) => sum + p, 0) / votes;
+			const variance =
+				positions.reduce((sum, p) => sum + (p - average) ** 2, 0) / votes;
+			const deviation = Math.sqrt(variance);
+
+			const tierIndex = Math.min(
+				Math.round(average * (tiersCount - 1)),
+				result.length - 1,
+			);
+
+			if (tierIndex < 0) continue;
+
+			result[tierIndex].players.push({
+				id: player.id,
+				name: player.name,
+				avatarUrl: player.avatar ? avatarUrls[player.avatar] || '' : '',
+				votes,
+				averagePosition: Math.round(average * 1000) / 1000,
+				averageTier: Math.round(average * (tiersCount - 1) * 100) / 100,
+				spread: Math.round(deviation * (tiersCount - 1) * 100) / 100,
+				// Максимальное стандартное отклонение для значений из [0, 1] равно 0.5
+				controversy: Math.round(Math.min(deviation / 0.5, 1) * 100) / 100,
+			});
+		}
+
+		for (const category of result) {
+			category.players.sort(
+				(a, b) => a.averagePosition - b.averagePosition || b.votes - a.votes,
+			);
+		}
+
+		return {
+			clubId,
+			totalVotes: tierLists.length,
+			categories: result,
+			generatedAt: new Date().toISOString(),
+		};
+	}
+
+	/**
+	 * Выбирает самый популярный набор категорий среди тир-листов
+	 * При равенстве побеждает более свежий набор (тир-листы отсортированы от новых)
+	 */
+	private static getConsensusCategories(
+		tierLists: Array<{ categories: any }>,
+	): TierListCategory[] {
+		const counts = new Map<
+			string,
+			{ categories: TierListCategory[]; count: number }
+		>();
+
+		for (const tierList of tierLists) {
+			const categories = (tierList.categories || []) as TierListCategory[];
+			if (categories.length === 0) continue;
+
+			const signature = JSON.stringify(categories);
+			const entry = counts.get(signature);
+
+			if (entry) {
+				entry.count++;
+			} else {
+				counts.set(signature, { categories, count: 1 });
+			}
+		}
+
+		let best: { categories: TierListCategory[]; count: number } | null = null;
+		for (const entry of counts.values()) {
+			if (!best || entry.count > best.count) {
+				best = entry;
+			}
+		}
+
+		return best ? best.categories : [];
+	}
+
+	/**
+	 * Сравнивает сохраненный тир-лист с новой расстановкой
+	 */
+	private static isSameRanking(
+		tierList: TierListWithPlacements,
+		categories: TierListCategory[],
+		placements: TierListWithPlacements['placements'],
+	): boolean {
+		if (JSON.stringify(tierList.categories) !== JSON.stringify(categories)) {
+			return false;
+		}
+
+		if (tierList.placements.length !== placements.length) {
+			return false;
+		}
+
+		const key = (p: TierListWithPlacements['placements'][number]) =>
+			`${p.categoryIndex}:${p.position}:${p.playerId}`;
+		const existing = new Set(tierList.placements.map(key));
+
+		return placements.every((placement) => existing.has(key(placement)));
+	}
+
+	/**
+	 * Приводит запись из БД к формату ShareImageData
+	 */
+	private static formatTierList(
+		tierList: TierListWithPlacements,
+	): TierListData {
+		const categories = (tierList.categories || []) as TierListCategory[];
+		const categorizedPlayerIds: { [categoryName: string]: string[] } = {};
+
+		for (const category of categories) {
+			categorizedPlayerIds[category.name] = [];
+		}
+
+		const sortedPlacements = [...tierList.placements].sort(
+			(a, b) => a.categoryIndex - b.categoryIndex || a.position - b.position,
+		);
+
+		for (const placement of sortedPlacements) {
+			if (!categorizedPlayerIds[placement.categoryName]) {
+				categorizedPlayerIds[placement.categoryName] = [];
+			}
+			categorizedPlayerIds[placement.categoryName].push(placement.playerId);
+		}
+
+		return {
+			id: tierList.id,
+			telegramId: tierList.telegramId,
+			clubId: tierList.clubId,
+			collectionId: tierList.collectionId,
+			sessionId: tierList.sessionId,
+			shareCode: tierList.shareCode,
+			categories,
+			categorizedPlayerIds,
+			createdAt: tierList.createdAt,
+			updatedAt: tierList.updatedAt,
+		};
+	}
+}
@@ -0,0 +1,323 @@
+import { prisma } from '../prisma';
+import { StorageService } from './storage.service';
+import { TierListData, TierListService } from './tierList.service';
+
+export interface ComparedPlayer {
+	id: string;
+	name: string;
+	avatarUrl: string;
+	categoryA: string;
+	categoryB: string;
+	positionA: number; // позиция от 0 (лучшая категория) до 1 (худшая)
+	positionB: number;
+	difference: number; // positionB - positionA, отрицательное значение - во втором списке выше
+}
+
+export interface TierListComparison {
+	clubId: string;
+	commonPlayers: number;
+	rankCorrelation: number | null; // коэффициент Спирмена от -1 до 1
+	similarity: number | null; // схожесть в процентах от 0 до 100
+	players: ComparedPlayer[];
+	biggestDisagreements: ComparedPlayer[];
+	sharedPicks: ComparedPlayer[];
+	onlyInA: string[];
+	onlyInB: string[];
+}
+
+export interface HotTake {
+	id: string;
+	name: string;
+	avatarUrl: string;
+	category: string;
+	position: number; // позиция в тир-листе пользователя от 0 до 1
+	communityCategory: string;
+	communityPosition: number; // средняя позиция по сообществу от 0 до 1
+	deviation: number; // position - communityPosition, положительное значение - ниже сообщества
+	votes: number;
+}
+
+export interface HotTakesResult {
+	clubId: string;
+	totalVotes: number;
+	comparedPlayers: number;
+	hotTakePercentage: number; // доля игроков, поставленных хотя бы на категорию дальше сообщества
+	averageDeviation: number;
+	hotTakes: HotTake[];
+}
+
+type RankedPlacement = {
+	category: string;
+	categoryIndex: number;
+	position: number; // нормализованная позиция категории
+	rank: number; // сквозной порядковый номер в тир-листе
+};
+
+const DISAGREEMENTS_LIMIT = 5;
+// Минимум голосов, чтобы мнение сообщества об игроке считалось устоявшимся
+const MIN_COMMUNITY_VOTES = 3;
+const EPSILON = 1e-9;
+
+export class TierListComparisonService {
+	/**
+	 * Сравнивает два тир-листа одного клуба
+	 * Списки должны относиться к одному клубу (проверяется в контроллере)
+	 */
+	static async compare(
+		a: TierListData,
+		b: TierListData,
+	): Promise<TierListComparison> {
+		const rankedA = this.rankPlacements(a);
+		const rankedB = this.rankPlacements(b);
+
+		const commonIds = [...rankedA.keys()].filter((id) => rankedB.has(id));
+		const onlyInA = [...rankedA.keys()].filter((id) => !rankedB.has(id));
+		const onlyInB = [...rankedB.keys()].filter((id) => !rankedA.has(id));
+
+		const players = await prisma.players.findMany({
+			where: { id: { in: commonIds } },
+			select: { id: true, name: true, avatar: true },
+		});
+		const avatarUrls = await new StorageService().getBatchFastUrls(
+			players.map((player) => player.avatar).filter(Boolean),
+			'avatar',
+		);
+		const playersMap = new Map(players.map((player) => [player.id, player]));
+
+		const compared: ComparedPlayer[] = [];
+		for (const playerId of commonIds) {
+			const player = playersMap.get(playerId);
+			// Игрок удален после составления тир-листов
+			if (!player) continue;
+
+			const placementA = rankedA.get(playerId)!;
+			const placementB = rankedB.get(playerId)!;
+
+			compared.push({
+				id: player.id,
+				name: player.name,
+				avatarUrl: player.avatar ? avatarUrls[player.avatar] || '' : '',
+				categoryA: placementA.category,
+				categoryB: placementB.category,
+				positionA: this.round(placementA.position),
+				positionB: this.round(placementB.position),
+				difference: this.round(placementB.position - placementA.position),
+			});
+		}
+
+		const rankCorrelation = this.spearman(
+			compared.map((player) => rankedA.get(player.id)!.rank),
+			compared.map((player) => rankedB.get(player.id)!.rank),
+		);
+
+		const biggestDisagreements = compared
+			.filter((player) => Math.abs(player.difference) > EPSILON)
+			.sort((x, y) => Math.abs(y.difference) - Math.abs(x.difference))
+			.slice(0, DISAGREEMENTS_LIMIT);
+
+		const sharedPicks = compared
+			.filter((player) => Math.abs(player.difference) <= EPSILON)
+			.sort((x, y) => x.positionA - y.positionA);
+
+		return {
+			clubId: a.clubId!,
+			commonPlayers: compared.length,
+			rankCorrelation:
+				rankCorrelation === null ? null : this.round(rankCorrelation),
+			similarity:
+				rankCorrelation === null
+					? null
+					: Math.round(((rankCorrelation + 1) / 2) * 100),
+			players: compared.sort((x, y) => x.positionA - y.positionA),
+			biggestDisagreements,
+			sharedPicks,
+			onlyInA,
+			onlyInB,
+		};
+	}
+
+	/**
+	 * Сравнивает тир-лист с общим тир-листом сообщества клуба
+	 * Голос самого автора исключается из среднего, если он учтен в общем тир-листе
+	 */
+	static async compareWithCommunity(
+		tierList: TierListData,
+		limit: number = 10,
+	): Promise<HotTakesResult> {
+		const clubId = tierList.clubId!;
+		const [community, isCounted] = await Promise.all([
+			TierListService.getCommunityTierList(clubId),
+			TierListService.isCountedInCommunity(tierList),
+		]);
+
+		const communityPlayers = new Map(
+			community.categories.flatMap((category) =>
+				category.players.map((player) => [
+					player.id,
+					{ ...player, category: category.name },
+				]),
+			),
+		);
+
+		const ranked = this.rankPlacements(tierList);
+		const step = this.getCategoryStep(tierList);
+
+		const hotTakes: HotTake[] = [];
+		for (const [playerId, placement] of ranked) {
+			const communityPlayer = communityPlayers.get(playerId);
+			if (!communityPlayer) continue;
+
+			let votes = communityPlayer.votes;
+			let communityPosition = communityPlayer.averagePosition;
+
+			if (isCounted) {
+				votes--;
+				if (votes === 0) continue;
+				communityPosition =
+					(communityPosition * (votes + 1) - placement.position) / votes;
+			}
+
+			if (votes < MIN_COMMUNITY_VOTES) continue;
+
+			// Категория сообщества считается по шкале пользователя из позиции без его голоса,
+			// иначе она могла совпасть с категорией пользователя при заметном отклонении
+			const communityIndex = Math.min(
+				tierList.categories.length - 1,
+				Math.max(0, Math.round(communityPosition / step)),
+			);
+
+			hotTakes.push({
+				id: communityPlayer.id,
+				name: communityPlayer.name,
+				avatarUrl: communityPlayer.avatarUrl,
+				category: placement.category,
+				position: this.round(placement.position),
+				communityCategory: tierList.categories[communityIndex].name,
+				communityPosition: this.round(communityPosition),
+				deviation: this.round(placement.position - communityPosition),
+				votes,
+			});
+		}
+
+		hotTakes.sort((x, y) => Math.abs(y.deviation) - Math.abs(x.deviation));
+
+		const hotCount = hotTakes.filter(
+			(take) => Math.abs(take.deviation) >= step - EPSILON,
+		).length;
+		const averageDeviation =
+			hotTakes.length > 0
+				? hotTakes.reduce((sum, take) => sum + Math.abs(take.deviation), 0) /
+				  hotTakes.length
+				: 0;
+
+		return {
+			clubId,
+			totalVotes: community.totalVotes - (isCounted ? 1 : 0),
+			comparedPlayers: hotTakes.length,
+			hotTakePercentage:
+				hotTakes.length > 0
+					? Math.round((hotCount / hotTakes.length) * 100)
+					: 0,
+			averageDeviation: this.round(averageDeviation),
+			hotTakes: hotTakes
+				.filter((take) => Math.abs(take.deviation) > EPSILON)
+				.slice(0, limit),
+		};
+	}
+
+	/**
+	 * Самая спорная позиция для подписи к изображению
+	 * Возвращает null, если пользователь и сообщество расходятся меньше чем на категорию
+	 */
+	static async getCaptionHotTake(
+		tierList: TierListData,
+	): Promise<HotTake | null> {
+		const { hotTakes } = await this.compareWithCommunity(tierList, 1);
+		const [hotTake] = hotTakes;
+
+		if (
+			!hotTake ||
+			Math.abs(hotTake.deviation) <
+				this.round(this.getCategoryStep(tierList)) ||
+			hotTake.category === hotTake.communityCategory
+		) {
+			return null;
+		}
+
+		return hotTake;
+	}
+
+	/**
+	 * Расстояние между соседними категориями на шкале от 0 до 1
+	 */
+	private static getCategoryStep(tierList: TierListData): number {
+		return tierList.categories.length > 1
+			? 1 / (tierList.categories.length - 1)
+			: 1;
+	}
+
+	/**
+	 * Строит позиции игроков в тир-листе
+	 * Ранг внутри одной категории одинаковый (средний ранг для связанных значений)
+	 */
+	private static rankPlacements(
+		tierList: TierListData,
+	): Map<string, RankedPlacement> {
+		const result = new Map<string, RankedPlacement>();
+		const categoriesCount = tierList.categories.length;
+		let offset = 0;
+
+		tierList.categories.forEach((category, categoryIndex) => {
+			const playerIds = tierList.categorizedPlayerIds[category.name] || [];
+			// Средний ранг игроков категории: offset + (1 + n) / 2
+			const rank = offset + (1 + playerIds.length) / 2;
+
+			for (const playerId of playerIds) {
+				result.set(playerId, {
+					category: category.name,
+					categoryIndex,
+					position:
+						categoriesCount > 1 ? categoryIndex / (categoriesCount - 1) : 0,
+					rank,
+				});
+			}
+
+			offset += playerIds.length;
+		});
+
+		return result;
+	}
+
+	/**
+	 * Коэффициент ранговой корреляции Спирмена (корреляция Пирсона по рангам)
+	 * Возвращает null, если данных недостаточно для расчета
+	 */
+	private static spearman(ranksA: number[], ranksB: number[]): number | null {
+		const n = ranksA.length;
+		if (n < 2) return null;
+
+		const meanA = ranksA.reduce((sum, r) => sum + r, 0) / n;
+		const meanB = ranksB.reduce((sum, r) => sum + r, 0) / n;
+
+		let covariance = 0;
+		let varianceA = 0;
+		let varianceB = 0;
+
+		for (let i = 0; i < n; i++) {
+			const da = ranksA[i] - meanA;
+			const db = ranksB[i] - meanB;
+			covariance += da * db;
+			varianceA += da * da;
+			varianceB += db * db;
+		}
+
+		// Все игроки в одной категории хотя бы в одном из списков
+		if (varianceA === 0 || varianceB === 0) return null;
+
+		return covariance / Math.sqrt(varianceA * varianceB);
+	}
+
+	private static round(value: number): number {
+		return Math.round(value * 1000) / 1000;
+	}
+}
@@ -0,0 +1,152 @@
+import { prisma } from '../prisma';
+import { TierListCategory } from './tierList.service';
+import { invalidateClubsCache } from '../utils/cacheUtils';
+
+export interface TierTemplateData {
+	id: string;
+	name: string;
+	categories: TierListCategory[];
+	showShirtNumber: boolean;
+	showPosition: boolean;
+	clubsCount?: number;
+	createdAt: Date;
+	updatedAt: Date;
+}
+
+type TierTemplateRecord = {
+	id: string;
+	name: string;
+	categories: any;
+	showShirtNumber: boolean;
+	showPosition: boolean;
+	createdAt: Date;
+	updatedAt: Date;
+	_count?: { clubs: number };
+};
+
+export class TierTemplateService {
+	/**
+	 * Получает все шаблоны категорий с количеством привязанных клубов
+	 */
+	static async getTemplates(): Promise<TierTemplateData[]> {
+		const templates = await prisma.tierTemplate.findMany({
+			orderBy: { name: 'asc' },
+			include: { _count: { select: { clubs: true } } },
+		});
+
+		return templates.map((template) => this.formatTemplate(template));
+	}
+
+	/**
+	 * Получает шаблон по ID
+	 */
+	static async getTemplateById(id: string): Promise<TierTemplateData | null> {
+		const template = await prisma.tierTemplate.findUnique({
+			where: { id },
+			include: { _count: { select: { clubs: true } } },
+		});
+
+		return template ? this.formatTemplate(template) : null;
+	}
+
+	/**
+	 * Проверяет, занято ли название шаблона (без учета указанного шаблона)
+	 */
+	static async isNameTaken(name: string, excludeId?: string): Promise<boolean> {
+		const template = await prisma.tierTemplate.findUnique({
+			where: { name },
+			select: { id: true },
+		});
+
+		return Boolean(template && template.id !== excludeId);
+	}
+
+	/**
+	 * Создает шаблон категорий
+	 * Категории должны быть предварительно провалидированы
+	 */
+	static async createTemplate(
+		name: string,
+		categories: TierListCategory[],
+		captions: { showShirtNumber?: boolean; showPosition?: boolean } = {},
+	): Promise<TierTemplateData> {
+		const template = await prisma.tierTemplate.create({
+			data: {
+				name,
+				categories: this.normalizeCategories(categories),
+				showShirtNumber: captions.showShirtNumber,
+				showPosition: captions.showPosition,
+			},
+		});
+
+		return this.formatTemplate(template);
+	}
+
+	/**
+	 * Обновляет шаблон категорий
+	 * Клубы получают новые категории сразу, поэтому сбрасываем кэш клубов
+	 */
+	static async updateTemplate(
+		id: string,
+		data: {
+			name?: string;
+			categories?: TierListCategory[];
+			showShirtNumber?: boolean;
+			showPosition?: boolean;
+		},
+	): Promise<TierTemplateData> {
+		const template = await prisma.tierTemplate.update({
+			where: { id },
+			data: {
+				name: data.name,
+				categories: data.categories
+					? this.normalizeCategories(data.categories)
+					: undefined,
+				showShirtNumber: data.showShirtNumber,
+				showPosition: data.showPosition,
+			},
+		});
+
+		await invalidateClubsCache();
+
+		return this.formatTemplate(template);
+	}
+
+	/**
+	 * Удаляет шаблон
+	 * Клубы, использовавшие его по умолчанию, остаются без шаблона (ON DELETE SET NULL)
+	 */
+	static async deleteTemplate(id: string): Promise<void> {
+		await prisma.tierTemplate.delete({
+			where: { id },
+		});
+
+		await invalidateClubsCache();
+	}
+
+	/**
+	 * Оставляет в категориях только известные поля
+	 */
+	private static normalizeCategories(categories: TierListCategory[]) {
+		return categories.map((category) => ({
+			name: category.name.trim(),
+			color: category.color.trim(),
+			slots: category.slots,
+		}));
+	}
+
+	private static formatTemplate(
+		template: TierTemplateRecord,
+	): TierTemplateData {
+		return {
+			id: template.id,
+			name: template.name,
+			categories: (template.categories || []) as TierListCategory[],
+			showShirtNumber: template.showShirtNumber,
+			showPosition: template.showPosition,
+			...(template._count ? { clubsCount: template._count.clubs } : {}),
+			createdAt: template.createdAt,
+			updatedAt: template.updatedAt,
+		};
+	}
+}
@@ -0,0 +1,354 @@
+import { prisma } from '../prisma';
+import { StorageService } from './storage.service';
+import { redisService } from './redis.service';
+import { invalidateClubsCache } from '../utils/cacheUtils';
+import { config } from '../config/env';
+
+export type TrashItemType = 'club' | 'player';
+
+export interface TrashClub {
+	id: string;
+	name: string;
+	logo: string;
+	playersCount: number;
+	deletedAt: Date;
+	purgeAt: Date;
+}
+
+export interface TrashPlayer {
+	id: string;
+	name: string;
+	avatar: string;
+	club: { id: string; name: string };
+	deletedAt: Date;
+	purgeAt: Date;
+}
+
+export interface RestoreResult {
+	success: boolean;
+	message: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Блокировка очистки корзины, чтобы процессы PM2 не удаляли одни и те же записи
+const PURGE_LOCK_KEY = 'trash_purge:lock';
+const PURGE_LOCK_TTL = 30 * 60;
+
+export class TrashService {
+	/**
+	 * Перемещает клуб и всех его игроков в корзину
+	 * Игроки получают ту же отметку времени, что и клуб, чтобы восстановиться вместе с ним
+	 */
+	static async softDeleteClub(clubId: string): Promise<void> {
+		const deletedAt = new Date();
+
+		await prisma.$transaction([
+			prisma.club.update({
+				where: { id: clubId },
+				data: { deletedAt },
+			}),
+			prisma.players.updateMany({
+				where: { clubId, deletedAt: null },
+				data: { deletedAt },
+			}),
+		]);
+
+		await invalidateClubsCache();
+	}
+
+	/**
+	 * Перемещает игрока в корзину
+	 */
+	static async softDeletePlayer(playerId: string): Promise<void> {
+		await prisma.players.update({
+			where: { id: playerId },
+			data: { deletedAt: new Date() },
+		});
+
+		await invalidateClubsCache();
+	}
+
+	/**
+	 * Получает содержимое корзины
+	 * Игроки удаленных клубов не показываются отдельно - они восстанавливаются вместе с клубом
+	 */
+	static async getTrash(): Promise<{
+		clubs: TrashClub[];
+		players: TrashPlayer[];
+	}> {
+		const retentionMs = config.trash.retentionDays * DAY_MS;
+
+		const [clubs, players] = await Promise.all([
+			prisma.club.findMany({
+				where: { deletedAt: { not: null } },
+				orderBy: { deletedAt: 'desc' },
+				select: {
+					id: true,
+					name: true,
+					logo: true,
+					deletedAt: true,
+					players: {
+						where: { deletedAt: { not: null } },
+						select: { deletedAt: true },
+					},
+				},
+			}),
+			prisma.players.findMany({
+				where: {
+					deletedAt: { not: null },
+					club: { deletedAt: null },
+				},
+				orderBy: { deletedAt: 'desc' },
+				select: {
+					id: true,
+					name: true,
+					avatar: true,
+					deletedAt: true,
+					club: { select: { id: true, name: true } },
+				},
+			}),
+		]);
+
+		return {
+			clubs: clubs.map(({ players: clubPlayers, ...club }) => {
+				const deletedAt = club.deletedAt as Date;
+
+				return {
+					...club,
+					deletedAt,
+					playersCount: clubPlayers.filter(
+						(player) => player.deletedAt?.getTime() === deletedAt.getTime(),
+					).length,
+					purgeAt: new Date(deletedAt.getTime() + retentionMs),
+				};
+			}),
+			players: players.map((player) => {
+				const deletedAt = player.deletedAt as Date;
+
+				return {
+					...player,
+					deletedAt,
+					purgeAt: new Date(deletedAt.getTime() + retentionMs),
+				};
+			}),
+		};
+	}
+
+	/**
+	 * Восстанавливает клуб из корзины вместе с игроками, удаленными вместе с ним
+	 */
+	static async restoreClub(clubId: string): Promise<RestoreResult> {
+		const club = await prisma.club.findUnique({
+			where: { id: clubId },
+			select: { id: true, name: true, deletedAt: true },
+		});
+
+		if (!club || !club.deletedAt) {
+			return { success: false, message: 'Клуб не найден в корзине' };
+		}
+
+		const namesake = await prisma.club.findFirst({
+			where: { name: club.name, deletedAt: null },
+			select: { id: true },
+		});
+
+		if (namesake) {
+			return {
+				success: false,
+				message: 'Клуб с таким названием уже существует',
+			};
+		}
+
+		await prisma.$transaction([
+			prisma.club.update({
+				where: { id: clubId },
+				data: { deletedAt: null },
+			}),
+			prisma.players.updateMany({
+				where: { clubId, deletedAt: club.deletedAt },
+				data: { deletedAt: null },
+			}),
+		]);
+
+		await invalidateClubsCache();
+
+		return { success: true, message: 'Клуб успешно восстановлен' };
+	}
+
+	/**
+	 * Восстанавливает игрока из корзины
+	 */
+	static async restorePlayer(playerId: string): Promise<RestoreResult> {
+		const player = await prisma.players.findUnique({
+			where: { id: playerId },
+			select: {
+				id: true,
+				name: true,
+				clubId: true,
+				deletedAt: true,
+				club: { select: { deletedAt: true } },
+			},
+		});
+
+		if (!player || !player.deletedAt) {
+			return { success: false, message: 'Игрок не найден в корзине' };
+		}
+
+		if (player.club.deletedAt) {
+			return {
+				success: false,
+				message: 'Клуб игрока находится в корзине, восстановите сначала клуб',
+			};
+		}
+
+		const namesake = await prisma.players.findFirst({
+			where: { name: player.name, clubId: player.clubId, deletedAt: null },
+			select: { id: true },
+		});
+
+		if (namesake) {
+			return {
+				success: false,
+				message: 'Игрок с таким именем уже существует в этом клубе',
+			};
+		}
+
+		await prisma.players.update({
+			where: { id: playerId },
+			data: { deletedAt: null },
+		});
+
+		await invalidateClubsCache();
+
+		return { success: true, message: 'Игрок успешно восстановлен' };
+	}
+
+	/**
+	 * Окончательно удаляет клубы и игроков, пролежавших в корзине дольше срока хранения
+	 * Файлы в хранилище удаляются только на этом этапе
+	 * Интервал запускается во всех процессах PM2, очистку выполняет только взявший блокировку
+	 */
+	static async purgeExpired(
+		retentionDays: number = config.trash.retentionDays,
+	): Promise<{ clubs: number; players: number }> {
+		const lockToken = await redisService.acquireLock(
+			PURGE_LOCK_KEY,
+			PURGE_LOCK_TTL,
+		);
+		if (!lockToken) {
+			return { clubs: 0, players: 0 };
+		}
+
+		try {
+			return await this.purgeExpiredItems(retentionDays);
+		} finally {
+			await redisService.releaseLock(PURGE_LOCK_KEY, lockToken);
+		}
+	}
+
+	private static async purgeExpiredItems(
+		retentionDays: number,
+	): Promise<{ clubs: number; players: number }> {
+		const threshold = new Date(Date.now() - retentionDays * DAY_MS);
+		const storageService = new StorageService();
+
+		const [expiredClubs, expiredPlayers] = await Promise.all([
+			prisma.club.findMany({
+				where: { deletedAt: { lt: threshold } },
+				select: { id: true, logo: true },
+			}),
+			prisma.players.findMany({
+				where: {
+					deletedAt: { lt: threshold },
+					club: { deletedAt: null },
+				},
+				select: { id: true, avatar: true },
+			}),
+		]);
+
+		let purgedClubs = 0;
+		let purgedPlayers = 0;
+
+		// deleteMany не падает, если запись уже удалили (например, восстановили и удалили вручную)
+		for (const player of expiredPlayers) {
+			const { count } = await prisma.players.deleteMany({
+				where: { id: player.id, deletedAt: { lt: threshold } },
+			});
+
+			if (count > 0) {
+				await this.deleteStorageFile(storageService, player.avatar);
+				purgedPlayers++;
+			}
+		}
+
+		for (const club of expiredClubs) {
+			const players = await prisma.players.findMany({
+				where: { clubId: club.id },
+				select: { avatar: true },
+			});
+
+			const purged = await prisma.$transaction(async (tx) => {
+				// Клуб могли восстановить или уже удалить, пока шла очистка
+				const expired = await tx.club.findFirst({
+					where: { id: club.id, deletedAt: { lt: threshold } },
+					select: { id: true },
+				});
+				if (!expired) {
+					return false;
+				}
+
+				await tx.players.deleteMany({ where: { clubId: club.id } });
+				// Обнуляем clubId в игровых сессиях, чтобы аналитика не показывала "Неизвестный клуб"
+				await tx.gameSession.updateMany({
+					where: { clubId: club.id },
+					data: { clubId: null },
+				});
+				// Отвязываем сохраненные тир-листы, сохраняя сами расстановки
+				await tx.tierList.updateMany({
+					where: { clubId: club.id },
+					data: { clubId: null },
+				});
+				await tx.club.deleteMany({ where: { id: club.id } });
+
+				return true;
+			});
+
+			if (!purged) {
+				continue;
+			}
+
+			// Файлы удаляем после записей, чтобы не потерять их при ошибке транзакции
+			for (const player of players) {
+				await this.deleteStorageFile(storageService, player.avatar);
+			}
+			await this.deleteStorageFile(storageService, club.logo);
+			purgedClubs++;
+			purgedPlayers += players.length;
+		}
+
+		if (purgedClubs > 0 || purgedPlayers > 0) {
+			await invalidateClubsCache();
+		}
+
+		return { clubs: purgedClubs, players: purgedPlayers };
+	}
+
+	/**
+	 * Удаляет файл из хранилища, не прерывая очистку при ошибке
+	 */
+	private static async deleteStorageFile(
+		storageService: StorageService,
+		key: string,
+	): Promise<void> {
+		if (!key) {
+			return;
+		}
+
+		try {
+			await storageService.deleteFile(key);
+		} catch (error) {
+			console.error(`Ошибка при удалении файла ${key}:`, error);
+		}
+	}
+}
@@ -1,4 +1,5 @@
 import { Request } from 'express';
+import { Permission } from '../utils/permissions';
 
 // Расширенный интерфейс Request с данными Telegram
 export interface TelegramRequest extends Request {
@@ -18,6 +19,7 @@ export interface TelegramRequest extends Request {
 export interface AuthResponse {
 	ok: boolean;
 	role: 'admin' | 'user';
+	permissions: Permission[];
 	user: {
 		id: string;
 		telegramId: string;
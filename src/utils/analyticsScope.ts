@@ -0,0 +1,108 @@
+import { EventType } from '../services/analytics.service';
+
+// Границы сброса аналитики; пустая область означает полный сброс
+export interface AnalyticsScope {
+	from?: Date;
+	to?: Date;
+	eventType?: EventType;
+	clubId?: string;
+	telegramId?: string;
+}
+
+export type AnalyticsScopeResult =
+	| { valid: true; data: AnalyticsScope }
+	| { valid: false; error: string };
+
+/**
+ * Разбирает область сброса аналитики из параметров запроса
+ * from - включительно, to - не включительно (ISO даты)
+ */
+export function parseAnalyticsScope(
+	input: Record<string, any>,
+): AnalyticsScopeResult {
+	const data: AnalyticsScope = {};
+
+	for (const field of ['from', 'to'] as const) {
+		if (input[field] === undefined || input[field] === '') continue;
+
+		const date = new Date(input[field]);
+		if (isNaN(date.getTime())) {
+			return { valid: false, error: 'Некорректная дата периода' };
+		}
+		data[field] = date;
+	}
+
+	if (data.from && data.to && data.to <= data.from) {
+		return {
+			valid: false,
+			error: 'Конец периода должен быть позже начала',
+		};
+	}
+
+	if (input.eventType !== undefined && input.eventType !== '') {
+		// analytics.service импортирует этот модуль, поэтому enum читаем при вызове
+		const EVENT_TYPES = Object.values(EventType) as string[];
+		if (!EVENT_TYPES.includes(input.eventType)) {
+			return {
+				valid: false,
+				error: `Тип события должен быть одним из: ${EVENT_TYPES.join(', ')}`,
+			};
+		}
+		data.eventType = input.eventType;
+	}
+
+	if (input.clubId !== undefined && input.clubId !== '') {
+		data.clubId = String(input.clubId).trim();
+	}
+
+	if (input.telegramId !== undefined && input.telegramId !== '') {
+		const telegramId = String(input.telegramId).trim();
+		if (!/^\d+$/.test(telegramId)) {
+			return { valid: false, error: 'Некорректный telegramId пользователя' };
+		}
+		data.telegramId = telegramId;
+	}
+
+	return { valid: true, data };
+}
+
+/**
+ * Проверяет, что область не ограничена (полный сброс)
+ */
+export function isFullAnalyticsScope(scope: AnalyticsScope): boolean {
+	return Object.values(scope).every((value) => value === undefined);
+}
+
+/**
+ * Приводит область к строкам для хранения в Redis, обратное преобразование - parseAnalyticsScope
+ */
+export function serializeAnalyticsScope(
+	scope: AnalyticsScope,
+): Record<string, string> {
+	const params: Record<string, string> = {};
+
+	for (const [key, value] of Object.entries(scope)) {
+		if (value === undefined) continue;
+		params[key] = value instanceof Date ? value.toISOString() : String(value);
+	}
+
+	return params;
+}
+
+/**
+ * Описание области для сообщения с подтверждением
+ */
+export function describeAnalyticsScope(scope: AnalyticsScope): string {
+	if (isFullAnalyticsScope(scope)) {
+		return 'вся аналитика';
+	}
+
+	const parts: string[] = [];
+	if (scope.from) parts.push(`с ${scope.from.toISOString().slice(0, 10)}`);
+	if (scope.to) parts.push(`до ${scope.to.toISOString().slice(0, 10)}`);
+	if (scope.eventType) parts.push(`события ${scope.eventType}`);
+	if (scope.clubId) parts.push(`клуб ${scope.clubId}`);
+	if (scope.telegramId) parts.push(`пользователь ${scope.telegramId}`);
+
+	return parts.join(', ');
+}
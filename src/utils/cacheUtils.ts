@@ -1,4 +1,5 @@
 import { redisService } from '../services/redis.service';
+import { SpecializedCaches } from '../services/cacheService';
 
 /**
  * Опции кэширования
@@ -111,6 +112,9 @@ export async function invalidateClubsCache(): Promise<void> {
 		for (const pattern of patterns) {
 			await invalidateCache(pattern);
 		}
+
+		// Общие тир-листы содержат имена и аватары игроков
+		await SpecializedCaches.invalidateClubs();
 	} catch (error) {
 		console.error('Ошибка при очистке кеша клубов:', error);
 	}
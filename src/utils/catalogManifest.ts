@@ -0,0 +1,250 @@
+export type CatalogManifestFormat = 'csv' | 'json';
+
+export interface ManifestClubRow {
+	row: number;
+	name: string;
+	logo: string;
+}
+
+export interface ManifestPlayerRow {
+	row: number;
+	name: string;
+	club: string;
+	avatar: string;
+	// Поля метаданных в формате parsePlayerMetadata (отсутствующие не передаются)
+	metadata: { [field: string]: string | number };
+}
+
+export interface CatalogManifest {
+	clubs: ManifestClubRow[];
+	players: ManifestPlayerRow[];
+}
+
+export type CatalogManifestResult =
+	| { valid: true; data: CatalogManifest }
+	| { valid: false; error: string };
+
+export const CATALOG_MANIFEST_LIMITS = {
+	MAX_ROWS: 2000,
+};
+
+const PLAYER_METADATA_FIELDS = [
+	'position',
+	'shirtNumber',
+	'nationality',
+	'birthDate',
+	'displayOrder',
+];
+
+// Колонки CSV: type (club или player), name, club (для игроков), image и метаданные игрока
+const CSV_COLUMNS = [
+	'type',
+	'name',
+	'club',
+	'image',
+	...PLAYER_METADATA_FIELDS,
+];
+
+/**
+ * Разбирает манифест каталога клубов и игроков
+ *
+ * JSON: { "clubs": [{ "name", "logo" }], "players": [{ "name", "club", "avatar", "position", ... }] }
+ * CSV: строка заголовков и строки с колонкой type = club | player, изображение в колонке image
+ */
+export function parseCatalogManifest(
+	content: string,
+	format: CatalogManifestFormat,
+): CatalogManifestResult {
+	const text = content.replace(/^\uFEFF/, '');
+	const result =
+		format === 'json' ? parseJsonManifest(text) : parseCsvManifest(text);
+
+	if (!result.valid) {
+		return result;
+	}
+
+	const rowsCount = result.data.clubs.length + result.data.players.length;
+
+	if (rowsCount === 0) {
+		return { valid: false, error: 'Манифест не содержит клубов и игроков' };
+	}
+
+	if (rowsCount > CATALOG_MANIFEST_LIMITS.MAX_ROWS) {
+		return {
+			valid: false,
+			error: `Манифест может содержать не более ${CATALOG_MANIFEST_LIMITS.MAX_ROWS} записей`,
+		};
+	}
+
+	return result;
+}
+
+function parseJsonManifest(text: string): CatalogManifestResult {
+	let parsed: any;
+
+	try {
+		parsed = JSON.parse(text);
+	} catch {
+		return { valid: false, error: 'Некорректный JSON манифеста' };
+	}
+
+	const clubs = parsed?.clubs ?? [];
+	const players = parsed?.players ?? [];
+
+	if (!Array.isArray(clubs) || !Array.isArray(players)) {
+		return {
+			valid: false,
+			error: 'Манифест должен содержать массивы clubs и players',
+		};
+	}
+
+	return {
+		valid: true,
+		data: {
+			clubs: clubs.map((club: any, index: number) => ({
+				row: index + 1,
+				name: toCell(club?.name),
+				logo: toCell(club?.logo),
+			})),
+			players: players.map((player: any, index: number) => ({
+				row: index + 1,
+				name: toCell(player?.name),
+				club: toCell(player?.club),
+				avatar: toCell(player?.avatar),
+				metadata: pickMetadata(player || {}),
+			})),
+		},
+	};
+}
+
+function parseCsvManifest(text: string): CatalogManifestResult {
+	const firstLine = text.slice(0, text.search(/\r?\n|$/));
+	// Excel с русской локалью сохраняет CSV через точку с запятой
+	const delimiter =
+		firstLine.split(';').length > firstLine.split(',').length ? ';' : ',';
+	const [header, ...lines] = parseCsv(text, delimiter);
+
+	if (!header) {
+		return { valid: false, error: 'CSV манифест пуст' };
+	}
+
+	const columns = header.map((column) => {
+		const normalized = column.trim().toLowerCase();
+		return CSV_COLUMNS.find((known) => known.toLowerCase() === normalized);
+	});
+
+	if (!columns.includes('type') || !columns.includes('name')) {
+		return {
+			valid: false,
+			error: 'CSV манифест должен содержать колонки type и name',
+		};
+	}
+
+	const manifest: CatalogManifest = { clubs: [], players: [] };
+
+	for (let index = 0; index < lines.length; index++) {
+		const cells = lines[index];
+		// Номер строки в файле с учетом заголовка
+		const row = index + 2;
+
+		if (cells.every((cell) => !cell.trim())) {
+			continue;
+		}
+
+		const record: { [column: string]: string } = {};
+		columns.forEach((column, columnIndex) => {
+			if (column && cells[columnIndex]?.trim()) {
+				record[column] = cells[columnIndex].trim();
+			}
+		});
+
+		const type = (record.type || '').toLowerCase();
+
+		if (type === 'club') {
+			manifest.clubs.push({
+				row,
+				name: toCell(record.name),
+				logo: toCell(record.image),
+			});
+		} else if (type === 'player') {
+			manifest.players.push({
+				row,
+				name: toCell(record.name),
+				club: toCell(record.club),
+				avatar: toCell(record.image),
+				metadata: pickMetadata(record),
+			});
+		} else {
+			return {
+				valid: false,
+				error: `Строка ${row}: тип записи должен быть club или player`,
+			};
+		}
+	}
+
+	return { valid: true, data: manifest };
+}
+
+/**
+ * Разбирает CSV с поддержкой кавычек и переносов строк внутри значений
+ */
+function parseCsv(text: string, delimiter: string): string[][] {
+	const rows: string[][] = [];
+	let row: string[] = [];
+	let cell = '';
+	let inQuotes = false;
+
+	for (let i = 0; i < text.length; i++) {
+		const char = text[i];
+
+		if (inQuotes) {
+			if (char === '"' && text[i + 1] === '"') {
+				cell += '"';
+				i++;
+			} else if (char === '"') {
+				inQuotes = false;
+			} else {
+				cell += char;
+			}
+		} else if (char === '"') {
+			inQuotes = true;
+		} else if (char === delimiter) {
+			row.push(cell);
+			cell = '';
+		} else if (char === '\n' || char === '\r') {
+			if (char === '\r' && text[i + 1] === '\n') {
+				i++;
+			}
+			row.push(cell);
+			rows.push(row);
+			row = [];
+			cell = '';
+		} else {
+			cell += char;
+		}
+	}
+
+	if (cell || row.length > 0) {
+		row.push(cell);
+		rows.push(row);
+	}
+
+	return rows;
+}
+
+function toCell(value: any): string {
+	return value === undefined || value === null ? '' : String(value).trim();
+}
+
+function pickMetadata(source: any): { [field: string]: string | number } {
+	const metadata: { [field: string]: string | number } = {};
+
+	for (const field of PLAYER_METADATA_FIELDS) {
+		const value = source[field];
+		if (value !== undefined && value !== null && value !== '') {
+			metadata[field] = typeof value === 'number' ? value : String(value);
+		}
+	}
+
+	return metadata;
+}
@@ -0,0 +1,86 @@
+import { ClubStatus, Prisma } from '../../generated/prisma';
+
+export const CLUB_STATUSES: ClubStatus[] = ['draft', 'published', 'archived'];
+
+// Клубы, которые видят пользователи (админы видят все, кроме корзины)
+export const PUBLISHED_CLUB_WHERE: Prisma.ClubWhereInput = {
+	deletedAt: null,
+	status: 'published',
+};
+
+export interface ClubPublication {
+	status?: ClubStatus;
+	publishAt?: Date | null;
+	unpublishAt?: Date | null;
+}
+
+export type ClubPublicationResult =
+	| { valid: true; data: ClubPublication }
+	| { valid: false; error: string };
+
+/**
+ * Проверяет, что значение является допустимым статусом клуба
+ */
+export function isClubStatus(value: any): value is ClubStatus {
+	return CLUB_STATUSES.includes(value);
+}
+
+/**
+ * Разбирает статус и расписание публикации клуба из тела запроса
+ * Отсутствующее поле не меняется, пустая строка очищает дату
+ * current - текущие даты клуба, чтобы проверить порядок при частичном обновлении
+ */
+export function parseClubPublication(
+	body: any,
+	current: { publishAt: Date | null; unpublishAt: Date | null } = {
+		publishAt: null,
+		unpublishAt: null,
+	},
+): ClubPublicationResult {
+	const data: ClubPublication = {};
+
+	if (body.status !== undefined) {
+		if (!isClubStatus(body.status)) {
+			return {
+				valid: false,
+				error: `Статус клуба должен быть одним из: ${CLUB_STATUSES.join(', ')}`,
+			};
+		}
+		data.status = body.status;
+	}
+
+	for (const field of ['publishAt', 'unpublishAt'] as const) {
+		if (body[field] === undefined) continue;
+
+		if (body[field] === '' || body[field] === null) {
+			data[field] = null;
+			continue;
+		}
+
+		const date = new Date(body[field]);
+		if (isNaN(date.getTime())) {
+			return {
+				valid: false,
+				error:
+					field === 'publishAt'
+						? 'Некорректная дата публикации'
+						: 'Некорректная дата снятия с публикации',
+			};
+		}
+		data[field] = date;
+	}
+
+	const publishAt =
+		data.publishAt !== undefined ? data.publishAt : current.publishAt;
+	const unpublishAt =
+		data.unpublishAt !== undefined ? data.unpublishAt : current.unpublishAt;
+
+	if (publishAt && unpublishAt && unpublishAt <= publishAt) {
+		return {
+			valid: false,
+			error: 'Дата снятия с публикации должна быть позже даты публикации',
+		};
+	}
+
+	return { valid: true, data };
+}
@@ -0,0 +1,111 @@
+import { config } from '../config/env';
+
+// Базовый список корней нецензурных слов, дополняется через BLOCKED_WORDS
+const DEFAULT_BLOCKED_WORDS = [
+	'хуй',
+	'хуе',
+	'хуё',
+	'хуя',
+	'пизд',
+	'ебат',
+	'ебан',
+	'ебал',
+	'еби',
+	'ёб',
+	'бля',
+	'блят',
+	'сука',
+	'суки',
+	'мудак',
+	'мудил',
+	'пидор',
+	'пидар',
+	'гандон',
+	'шлюх',
+	'залуп',
+	'fuck',
+	'shit',
+	'bitch',
+	'cunt',
+	'nigger',
+	'faggot',
+];
+
+// Латинские символы, которыми часто маскируют кириллицу
+const LOOKALIKE_MAP: { [char: string]: string } = {
+	a: 'а',
+	b: 'в',
+	c: 'с',
+	e: 'е',
+	h: 'н',
+	k: 'к',
+	m: 'м',
+	o: 'о',
+	p: 'р',
+	t: 'т',
+	x: 'х',
+	y: 'у',
+	'0': 'о',
+	'3': 'з',
+	'6': 'б',
+	'@': 'а',
+};
+
+/**
+ * Приводит текст к виду для сравнения: нижний регистр, ё -> е,
+ * латинские двойники -> кириллица
+ */
+function normalize(text: string, mapLookalikes: boolean): string {
+	const lower = text.toLowerCase().replace(/ё/g, 'е');
+
+	if (!mapLookalikes) {
+		return lower;
+	}
+
+	return lower.replace(/[a-z0-9@]/g, (char) => LOOKALIKE_MAP[char] || char);
+}
+
+/**
+ * Разбивает текст на слова (маскировочные символы внутри слова отбрасываются)
+ */
+function tokenize(text: string): string[] {
+	return text
+		.split(/[\s,.;:!?()[\]{}"'«»\-_/\\|]+/)
+		.map((token) => token.replace(/[^\p{L}]/gu, ''))
+		.filter(Boolean);
+}
+
+const blockedWords = Array.from(
+	new Set(
+		[...DEFAULT_BLOCKED_WORDS, ...config.moderation.blockedWords]
+			.map((word) => normalize(word.trim(), false))
+			.filter(Boolean),
+	),
+);
+
+/**
+ * Ищет запрещенное слово в тексте
+ * Слово считается найденным, если с него начинается одно из слов текста
+ * @returns Найденное запрещенное слово или null
+ */
+export function findBlockedWord(text: string): string | null {
+	const variants = [normalize(text, false), normalize(text, true)];
+
+	for (const variant of variants) {
+		const tokens = tokenize(variant);
+
+		for (const word of blockedWords) {
+			const candidates = [word, normalize(word, true)];
+
+			if (
+				tokens.some((token) =>
+					candidates.some((candidate) => token.startsWith(candidate)),
+				)
+			) {
+				return word;
+			}
+		}
+	}
+
+	return null;
+}
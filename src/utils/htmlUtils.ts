@@ -0,0 +1,44 @@
+import { isValidCssColor } from './shareDataValidator';
+
+const HTML_ESCAPE_MAP: { [char: string]: string } = {
+	'&': '&amp;',
+	'<': '&lt;',
+	'>': '&gt;',
+	'"': '&quot;',
+	"'": '&#39;',
+	'`': '&#96;',
+	'=': '&#61;',
+};
+
+/**
+ * Экранирует строку для безопасной вставки в HTML (текст и значения атрибутов)
+ */
+export function escapeHtml(value: string): string {
+	return String(value ?? '').replace(
+		/[&<>"'`=]/g,
+		(char) => HTML_ESCAPE_MAP[char],
+	);
+}
+
+/**
+ * Возвращает цвет, безопасный для вставки в CSS
+ * Неизвестные форматы заменяются на цвет по умолчанию
+ */
+export function sanitizeCssColor(
+	color: string,
+	fallback: string = '#6c757d',
+): string {
+	if (typeof color !== 'string' || !isValidCssColor(color)) {
+		return fallback;
+	}
+
+	return color.trim();
+}
+
+/**
+ * Проверяет, что URL можно вставить в атрибут src изображения
+ * Разрешены только https и data:image URL
+ */
+export function isSafeImageUrl(url: string): boolean {
+	return /^https:\/\//i.test(url) || /^data:image\//i.test(url);
+}
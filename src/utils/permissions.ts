@@ -0,0 +1,62 @@
+import { AdminPermissionSet } from '../../generated/prisma';
+
+export const PERMISSIONS = [
+	'clubs:write',
+	'players:write',
+	'leagues:write',
+	'templates:write',
+	'seasons:write',
+	'catalog:write',
+	'catalog:backup',
+	'uploads:write',
+	'analytics:read',
+	'analytics:reset',
+	'cache:clear',
+	'cache:clear_all',
+	'users:manage',
+	'system:read',
+	'admins:manage',
+	'audit:read',
+] as const;
+
+export type Permission = (typeof PERMISSIONS)[number];
+
+export const ADMIN_PERMISSION_SETS: AdminPermissionSet[] = [
+	'superadmin',
+	'content_editor',
+	'analyst',
+	'support',
+];
+
+// Права каждого набора; владельцы всегда имеют все права
+export const PERMISSION_SETS: Record<AdminPermissionSet, Permission[]> = {
+	superadmin: [...PERMISSIONS],
+	content_editor: [
+		'clubs:write',
+		'players:write',
+		'leagues:write',
+		'templates:write',
+		'seasons:write',
+		'catalog:write',
+		'uploads:write',
+	],
+	analyst: ['analytics:read'],
+	support: ['users:manage', 'system:read', 'cache:clear', 'analytics:read'],
+};
+
+/**
+ * Проверяет, что значение является допустимым набором прав
+ */
+export function isAdminPermissionSet(value: any): value is AdminPermissionSet {
+	return ADMIN_PERMISSION_SETS.includes(value);
+}
+
+/**
+ * Проверяет, входит ли право в список прав админа
+ */
+export function hasPermission(
+	permissions: Permission[],
+	permission: Permission,
+): boolean {
+	return permissions.includes(permission);
+}
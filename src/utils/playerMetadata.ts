@@ -0,0 +1,148 @@
+import { PlayerPosition } from '../../generated/prisma';
+
+// Сокращения позиций для подписей на изображении
+export const PLAYER_POSITION_LABELS: Record<PlayerPosition, string> = {
+	goalkeeper: 'ВРТ',
+	defender: 'ЗЩ',
+	midfielder: 'ПЗ',
+	forward: 'НП',
+};
+
+export const PLAYER_METADATA_LIMITS = {
+	MIN_SHIRT_NUMBER: 1,
+	MAX_SHIRT_NUMBER: 99,
+	MAX_NATIONALITY_LENGTH: 56,
+};
+
+export interface PlayerMetadata {
+	position?: PlayerPosition | null;
+	shirtNumber?: number | null;
+	nationality?: string | null;
+	birthDate?: Date | null;
+	displayOrder?: number;
+}
+
+export type PlayerMetadataResult =
+	| { valid: true; data: PlayerMetadata }
+	| { valid: false; error: string };
+
+/**
+ * Проверяет, что значение является допустимой позицией игрока
+ */
+export function isPlayerPosition(value: any): value is PlayerPosition {
+	return (
+		typeof value === 'string' &&
+		Object.prototype.hasOwnProperty.call(PLAYER_POSITION_LABELS, value)
+	);
+}
+
+/**
+ * Разбирает целое число из поля multipart формы
+ */
+function parseInteger(value: any): number | null {
+	const number = typeof value === 'number' ? value : Number(value);
+	return Number.isInteger(number) ? number : null;
+}
+
+/**
+ * Разбирает метаданные игрока из тела запроса (поля multipart формы приходят строками)
+ * Отсутствующее поле не меняется, пустая строка очищает значение
+ */
+export function parsePlayerMetadata(body: any): PlayerMetadataResult {
+	const data: PlayerMetadata = {};
+	const isEmpty = (value: any) => value === '' || value === null;
+
+	if (body.position !== undefined) {
+		if (isEmpty(body.position)) {
+			data.position = null;
+		} else if (isPlayerPosition(body.position)) {
+			data.position = body.position;
+		} else {
+			return {
+				valid: false,
+				error: `Позиция должна быть одной из: ${Object.keys(
+					PLAYER_POSITION_LABELS,
+				).join(', ')}`,
+			};
+		}
+	}
+
+	if (body.shirtNumber !== undefined) {
+		if (isEmpty(body.shirtNumber)) {
+			data.shirtNumber = null;
+		} else {
+			const shirtNumber = parseInteger(body.shirtNumber);
+			if (
+				shirtNumber === null ||
+				shirtNumber < PLAYER_METADATA_LIMITS.MIN_SHIRT_NUMBER ||
+				shirtNumber > PLAYER_METADATA_LIMITS.MAX_SHIRT_NUMBER
+			) {
+				return {
+					valid: false,
+					error: `Игровой номер должен быть целым числом от ${PLAYER_METADATA_LIMITS.MIN_SHIRT_NUMBER} до ${PLAYER_METADATA_LIMITS.MAX_SHIRT_NUMBER}`,
+				};
+			}
+			data.shirtNumber = shirtNumber;
+		}
+	}
+
+	if (body.nationality !== undefined) {
+		if (isEmpty(body.nationality) || !String(body.nationality).trim()) {
+			data.nationality = null;
+		} else {
+			const nationality = String(body.nationality).trim();
+			if (nationality.length > PLAYER_METADATA_LIMITS.MAX_NATIONALITY_LENGTH) {
+				return {
+					valid: false,
+					error: `Гражданство не должно превышать ${PLAYER_METADATA_LIMITS.MAX_NATIONALITY_LENGTH} символов`,
+				};
+			}
+			data.nationality = nationality;
+		}
+	}
+
+	if (body.birthDate !== undefined) {
+		if (isEmpty(body.birthDate)) {
+			data.birthDate = null;
+		} else {
+			const birthDate = new Date(body.birthDate);
+			if (isNaN(birthDate.getTime()) || birthDate > new Date()) {
+				return { valid: false, error: 'Некорректная дата рождения' };
+			}
+			data.birthDate = birthDate;
+		}
+	}
+
+	if (body.displayOrder !== undefined && !isEmpty(body.displayOrder)) {
+		const displayOrder = parseInteger(body.displayOrder);
+		if (displayOrder === null || displayOrder < 0) {
+			return {
+				valid: false,
+				error: 'Порядок отображения должен быть неотрицательным целым числом',
+			};
+		}
+		data.displayOrder = displayOrder;
+	}
+
+	return { valid: true, data };
+}
+
+/**
+ * Формирует подпись под аватаром игрока: номер и/или позиция
+ */
+export function formatPlayerCaption(
+	player: { shirtNumber: number | null; position: PlayerPosition | null },
+	options: { shirtNumber: boolean; position: boolean },
+): string {
+	const parts: string[] = [];
+
+	if (options.shirtNumber && player.shirtNumber !== null) {
+		parts.push(`#${player.shirtNumber}`);
+	}
+
+	if (options.position && player.position) {
+		parts.push(PLAYER_POSITION_LABELS[player.position]);
+	}
+
+	return parts.join(' ');
+}
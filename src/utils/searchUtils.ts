@@ -0,0 +1,142 @@
+// Транслитерация кириллицы в латиницу (упрощенная, близкая к написанию в СМИ)
+const CYRILLIC_TO_LATIN: { [char: string]: string } = {
+	а: 'a',
+	б: 'b',
+	в: 'v',
+	г: 'g',
+	д: 'd',
+	е: 'e',
+	ё: 'e',
+	ж: 'zh',
+	з: 'z',
+	и: 'i',
+	й: 'y',
+	к: 'k',
+	л: 'l',
+	м: 'm',
+	н: 'n',
+	о: 'o',
+	п: 'p',
+	р: 'r',
+	с: 's',
+	т: 't',
+	у: 'u',
+	ф: 'f',
+	х: 'h',
+	ц: 'ts',
+	ч: 'ch',
+	ш: 'sh',
+	щ: 'sch',
+	ъ: '',
+	ы: 'y',
+	ь: '',
+	э: 'e',
+	ю: 'yu',
+	я: 'ya',
+	і: 'i',
+	ї: 'yi',
+	є: 'ye',
+	ґ: 'g',
+};
+
+// Разные системы латинизации приводятся к одному написанию
+// ("Dziuba", "Djuba" и "Dzyuba" совпадают)
+const LATIN_FOLDING: Array<[RegExp, string]> = [
+	[/shch/g, 'sch'],
+	[/kh/g, 'h'],
+	[/tz/g, 'ts'],
+	[/ts/g, 'c'],
+	[/x/g, 'ks'],
+	[/w/g, 'v'],
+	[/q/g, 'k'],
+	[/ph/g, 'f'],
+	[/[ij](?=[aueo])/g, 'y'],
+	[/j/g, 'y'],
+	[/(.)\1+/g, '$1'], // двойные буквы ("Golovinn" -> "golovin")
+];
+
+/**
+ * Приводит строку к виду для поиска: нижний регистр, латиница без диакритики,
+ * единое написание вариантов транслитерации, только буквы, цифры и пробелы
+ */
+export function normalizeForSearch(text: string): string {
+	const transliterated = Array.from(text.toLowerCase())
+		.map((char) => CYRILLIC_TO_LATIN[char] ?? char)
+		.join('')
+		.normalize('NFD')
+		.replace(/[\u0300-\u036f]/g, '');
+
+	const folded = LATIN_FOLDING.reduce(
+		(result, [pattern, replacement]) => result.replace(pattern, replacement),
+		transliterated,
+	);
+
+	return folded
+		.replace(/[^a-z0-9]+/g, ' ')
+		.trim()
+		.replace(/\s+/g, ' ');
+}
+
+/**
+ * Расстояние Левенштейна между строками
+ */
+export function levenshteinDistance(a: string, b: string): number {
+	if (a === b) return 0;
+	if (!a.length) return b.length;
+	if (!b.length) return a.length;
+
+	let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+
+	for (let i = 1; i <= a.length; i++) {
+		const current = [i];
+
+		for (let j = 1; j <= b.length; j++) {
+			current[j] = Math.min(
+				previous[j] + 1,
+				current[j - 1] + 1,
+				previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+			);
+		}
+
+		previous = current;
+	}
+
+	return previous[b.length];
+}
+
+/**
+ * Оценивает совпадение нормализованного запроса с нормализованным названием
+ * Возвращает значение от 0 (нет совпадения) до 1 (точное совпадение)
+ * Точные и префиксные совпадения всегда выше нечетких совпадений с опечатками
+ */
+export function scoreSearchMatch(query: string, name: string): number {
+	if (!query || !name) return 0;
+	if (name === query) return 1;
+	if (name.startsWith(query)) return 0.95;
+
+	const words = name.split(' ');
+	if (words.some((word) => word.startsWith(query))) return 0.9;
+	if (name.includes(query)) return 0.8;
+
+	// Короткие запросы слишком неоднозначны для нечеткого поиска
+	if (query.length < 3) return 0;
+
+	// Сравниваем запрос с началом каждого слова (и названия целиком):
+	// запрос может быть недописанным словом с опечаткой
+	const candidates = [name, ...words];
+	let bestSimilarity = 0;
+
+	for (const candidate of candidates) {
+		const prefix = candidate.slice(0, query.length + 1);
+		const distance = Math.min(
+			levenshteinDistance(query, prefix),
+			levenshteinDistance(query, candidate.slice(0, query.length)),
+		);
+		const similarity = 1 - distance / query.length;
+
+		bestSimilarity = Math.max(bestSimilarity, similarity);
+	}
+
+	// Допускаем примерно одну опечатку на четыре символа запроса
+	return bestSimilarity >= 0.75 ? bestSimilarity * 0.7 : 0;
+}
@@ -0,0 +1,513 @@
+import { prisma } from '../prisma';
+import { ShareImageData } from '../services/imageGeneration.service';
+import { findBlockedWord } from './contentFilter';
+import { PUBLISHED_CLUB_WHERE } from './clubPublication';
+
+/**
+ * Коды ошибок валидации данных тир-листа
+ */
+export enum ShareDataErrorCode {
+	REQUIRED = 'REQUIRED',
+	INVALID_TYPE = 'INVALID_TYPE',
+	TOO_MANY_ITEMS = 'TOO_MANY_ITEMS',
+	INVALID_LENGTH = 'INVALID_LENGTH',
+	BLOCKED_WORD = 'BLOCKED_WORD',
+	INVALID_COLOR = 'INVALID_COLOR',
+	INVALID_SLOTS = 'INVALID_SLOTS',
+	DUPLICATE_CATEGORY = 'DUPLICATE_CATEGORY',
+	UNKNOWN_CATEGORY = 'UNKNOWN_CATEGORY',
+	SLOTS_EXCEEDED = 'SLOTS_EXCEEDED',
+	DUPLICATE_PLAYER = 'DUPLICATE_PLAYER',
+	CLUB_NOT_FOUND = 'CLUB_NOT_FOUND',
+	PLAYER_NOT_FOUND = 'PLAYER_NOT_FOUND',
+	PLAYER_NOT_IN_CLUB = 'PLAYER_NOT_IN_CLUB',
+	TEMPLATE_NOT_FOUND = 'TEMPLATE_NOT_FOUND',
+	COLLECTION_NOT_FOUND = 'COLLECTION_NOT_FOUND',
+	PLAYER_NOT_IN_COLLECTION = 'PLAYER_NOT_IN_COLLECTION',
+	AMBIGUOUS_PLAYER_POOL = 'AMBIGUOUS_PLAYER_POOL',
+}
+
+export interface ShareDataFieldError {
+	field: string;
+	code: ShareDataErrorCode;
+	message: string;
+}
+
+export type ShareDataValidationResult =
+	| { valid: true; data: ShareImageData }
+	| { valid: false; errors: ShareDataFieldError[] };
+
+// Ограничения на данные тир-листа
+export const SHARE_DATA_LIMITS = {
+	MAX_CATEGORIES: 10,
+	MAX_CATEGORY_NAME_LENGTH: 40,
+	MAX_SLOTS: 50,
+	MAX_DRAFT_BYTES: 32 * 1024, // размер черновика незавершенной игры
+};
+
+// Именованные цвета CSS
+const CSS_NAMED_COLORS = new Set(
+	[
+		'aliceblue antiquewhite aqua aquamarine azure beige bisque black',
+		'blanchedalmond blue blueviolet brown burlywood cadetblue',
+		'chartreuse chocolate coral cornflowerblue cornsilk crimson cyan',
+		'darkblue darkcyan darkgoldenrod darkgray darkgreen darkgrey',
+		'darkkhaki darkmagenta darkolivegreen darkorange darkorchid darkred',
+		'darksalmon darkseagreen darkslateblue darkslategray darkslategrey',
+		'darkturquoise darkviolet deeppink deepskyblue dimgray dimgrey',
+		'dodgerblue firebrick floralwhite forestgreen fuchsia gainsboro',
+		'ghostwhite gold goldenrod gray green greenyellow grey honeydew',
+		'hotpink indianred indigo ivory khaki lavender lavenderblush',
+		'lawngreen lemonchiffon lightblue lightcoral lightcyan',
+		'lightgoldenrodyellow lightgray lightgreen lightgrey lightpink',
+		'lightsalmon lightseagreen lightskyblue lightslategray',
+		'lightslategrey lightsteelblue lightyellow lime limegreen linen',
+		'magenta maroon mediumaquamarine mediumblue mediumorchid',
+		'mediumpurple mediumseagreen mediumslateblue mediumspringgreen',
+		'mediumturquoise mediumvioletred midnightblue mintcream mistyrose',
+		'moccasin navajowhite navy oldlace olive olivedrab orange orangered',
+		'orchid palegoldenrod palegreen paleturquoise palevioletred',
+		'papayawhip peachpuff peru pink plum powderblue purple',
+		'rebeccapurple red rosybrown royalblue saddlebrown salmon',
+		'sandybrown seagreen seashell sienna silver skyblue slateblue',
+		'slategray slategrey snow springgreen steelblue tan teal thistle',
+		'tomato turquoise violet wheat white whitesmoke yellow yellowgreen',
+		'transparent',
+	]
+		.join(' ')
+		.split(' '),
+);
+
+const HEX_COLOR_REGEX = /^#(?:[0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/i;
+const NUMBER = '\\s*-?(?:\\d*\\.)?\\d+%?\\s*';
+const RGB_COLOR_REGEX = new RegExp(
+	`^rgba?\\((?:${NUMBER},${NUMBER},${NUMBER}(?:,${NUMBER})?)\\)$`,
+	'i',
+);
+const HSL_COLOR_REGEX = new RegExp(
+	`^hsla?\\(\\s*-?(?:\\d*\\.)?\\d+(?:deg)?\\s*,${NUMBER},${NUMBER}(?:,${NUMBER})?\\)$`,
+	'i',
+);
+
+/**
+ * Проверяет, что строка является допустимым цветом CSS
+ * Поддерживаются hex, rgb(a), hsl(a) и именованные цвета
+ */
+export function isValidCssColor(color: string): boolean {
+	const value = color.trim();
+
+	return (
+		HEX_COLOR_REGEX.test(value) ||
+		RGB_COLOR_REGEX.test(value) ||
+		HSL_COLOR_REGEX.test(value) ||
+		CSS_NAMED_COLORS.has(value.toLowerCase())
+	);
+}
+
+/**
+ * Проверяет список категорий тир-листа (названия, цвета, количество мест)
+ * Используется и для данных пользователя, и для шаблонов категорий
+ */
+export function validateCategories(categories: any): ShareDataFieldError[] {
+	const errors: ShareDataFieldError[] = [];
+	const addError = (field: string, code: ShareDataErrorCode, message: string) =>
+		errors.push({ field, code, message });
+
+	if (!categories) {
+		addError(
+			'categories',
+			ShareDataErrorCode.REQUIRED,
+			'Категории обязательны',
+		);
+	} else if (!Array.isArray(categories) || categories.length === 0) {
+		addError(
+			'categories',
+			ShareDataErrorCode.INVALID_TYPE,
+			'Категории должны быть непустым массивом',
+		);
+	} else if (categories.length > SHARE_DATA_LIMITS.MAX_CATEGORIES) {
+		addError(
+			'categories',
+			ShareDataErrorCode.TOO_MANY_ITEMS,
+			`Допускается не более ${SHARE_DATA_LIMITS.MAX_CATEGORIES} категорий`,
+		);
+	} else {
+		const seenNames = new Set<string>();
+
+		categories.forEach((category: any, index: number) => {
+			const field = `categories[${index}]`;
+
+			if (!category || typeof category !== 'object') {
+				addError(
+					field,
+					ShareDataErrorCode.INVALID_TYPE,
+					'Некорректная категория',
+				);
+				return;
+			}
+
+			if (typeof category.name !== 'string' || !category.name.trim()) {
+				addError(
+					`${field}.name`,
+					ShareDataErrorCode.REQUIRED,
+					'Название категории обязательно',
+				);
+			} else if (
+				category.name.length > SHARE_DATA_LIMITS.MAX_CATEGORY_NAME_LENGTH
+			) {
+				addError(
+					`${field}.name`,
+					ShareDataErrorCode.INVALID_LENGTH,
+					`Название категории не должно превышать ${SHARE_DATA_LIMITS.MAX_CATEGORY_NAME_LENGTH} символов`,
+				);
+			} else if (findBlockedWord(category.name)) {
+				addError(
+					`${field}.name`,
+					ShareDataErrorCode.BLOCKED_WORD,
+					'Название категории содержит недопустимые слова',
+				);
+			} else if (seenNames.has(category.name)) {
+				addError(
+					`${field}.name`,
+					ShareDataErrorCode.DUPLICATE_CATEGORY,
+					`Категория "${category.name}" указана несколько раз`,
+				);
+			} else {
+				seenNames.add(category.name);
+			}
+
+			if (typeof category.color !== 'string' || !category.color) {
+				addError(
+					`${field}.color`,
+					ShareDataErrorCode.REQUIRED,
+					'Цвет категории обязателен',
+				);
+			} else if (!isValidCssColor(category.color)) {
+				addError(
+					`${field}.color`,
+					ShareDataErrorCode.INVALID_COLOR,
+					'Некорректный цвет категории',
+				);
+			}
+
+			if (
+				!Number.isInteger(category.slots) ||
+				category.slots < 1 ||
+				category.slots > SHARE_DATA_LIMITS.MAX_SLOTS
+			) {
+				addError(
+					`${field}.slots`,
+					ShareDataErrorCode.INVALID_SLOTS,
+					`Количество мест должно быть целым числом от 1 до ${SHARE_DATA_LIMITS.MAX_SLOTS}`,
+				);
+			}
+		});
+	}
+
+	return errors;
+}
+
+/**
+ * Проверяет структуру данных тир-листа без обращения к БД
+ */
+function validateStructure(payload: any): ShareDataFieldError[] {
+	const errors: ShareDataFieldError[] = [];
+	const addError = (field: string, code: ShareDataErrorCode, message: string) =>
+		errors.push({ field, code, message });
+
+	if (!payload || typeof payload !== 'object') {
+		addError('', ShareDataErrorCode.REQUIRED, 'Отсутствуют данные тир-листа');
+		return errors;
+	}
+
+	const { clubId, collectionId, categories, categorizedPlayerIds } = payload;
+
+	// Пул игроков задается клубом или подборкой игроков, но не обоими сразу
+	if (clubId && collectionId) {
+		addError(
+			'collectionId',
+			ShareDataErrorCode.AMBIGUOUS_PLAYER_POOL,
+			'Укажите либо клуб, либо подборку игроков',
+		);
+	} else if (collectionId) {
+		if (typeof collectionId !== 'string') {
+			addError(
+				'collectionId',
+				ShareDataErrorCode.INVALID_TYPE,
+				'ID подборки должен быть строкой',
+			);
+		}
+	} else if (!clubId) {
+		addError('clubId', ShareDataErrorCode.REQUIRED, 'ID клуба обязателен');
+	} else if (typeof clubId !== 'string') {
+		addError(
+			'clubId',
+			ShareDataErrorCode.INVALID_TYPE,
+			'ID клуба должен быть строкой',
+		);
+	}
+
+	errors.push(...validateCategories(categories));
+
+	if (!categorizedPlayerIds) {
+		addError(
+			'categorizedPlayerIds',
+			ShareDataErrorCode.REQUIRED,
+			'Расстановка игроков обязательна',
+		);
+	} else if (
+		typeof categorizedPlayerIds !== 'object' ||
+		Array.isArray(categorizedPlayerIds)
+	) {
+		addError(
+			'categorizedPlayerIds',
+			ShareDataErrorCode.INVALID_TYPE,
+			'Расстановка игроков должна быть объектом',
+		);
+	} else if (Array.isArray(categories)) {
+		const categoriesByName = new Map<string, any>(
+			categories
+				.filter((category: any) => category && typeof category === 'object')
+				.map((category: any) => [category.name, category]),
+		);
+		const seenPlayers = new Map<string, string>();
+
+		for (const [categoryName, playerIds] of Object.entries(
+			categorizedPlayerIds,
+		)) {
+			const field = `categorizedPlayerIds.${categoryName}`;
+			const category = categoriesByName.get(categoryName);
+
+			if (!category) {
+				addError(
+					field,
+					ShareDataErrorCode.UNKNOWN_CATEGORY,
+					`Категория "${categoryName}" отсутствует в списке категорий`,
+				);
+				continue;
+			}
+
+			if (
+				!Array.isArray(playerIds) ||
+				playerIds.some((playerId) => typeof playerId !== 'string')
+			) {
+				addError(
+					field,
+					ShareDataErrorCode.INVALID_TYPE,
+					'Список игроков должен быть массивом ID',
+				);
+				continue;
+			}
+
+			if (
+				Number.isInteger(category.slots) &&
+				playerIds.length > category.slots
+			) {
+				addError(
+					field,
+					ShareDataErrorCode.SLOTS_EXCEEDED,
+					`В категории "${categoryName}" не более ${category.slots} мест`,
+				);
+			}
+
+			playerIds.forEach((playerId: string, index: number) => {
+				const previousCategory = seenPlayers.get(playerId);
+
+				if (previousCategory !== undefined) {
+					addError(
+						`${field}[${index}]`,
+						ShareDataErrorCode.DUPLICATE_PLAYER,
+						previousCategory === categoryName
+							? `Игрок ${playerId} указан в категории несколько раз`
+							: `Игрок ${playerId} уже находится в категории "${previousCategory}"`,
+					);
+				} else {
+					seenPlayers.set(playerId, categoryName);
+				}
+			});
+		}
+	}
+
+	return errors;
+}
+
+/**
+ * Подставляет категории из шаблона, если клиент передал templateId
+ * Категории шаблона имеют приоритет над переданными клиентом,
+ * вместе с ними переносятся настройки подписей под аватарами
+ */
+async function resolveTemplateCategories(
+	payload: any,
+): Promise<{ payload: any; errors: ShareDataFieldError[] }> {
+	if (!payload || typeof payload !== 'object' || !payload.templateId) {
+		return { payload, errors: [] };
+	}
+
+	if (typeof payload.templateId !== 'string') {
+		return {
+			payload,
+			errors: [
+				{
+					field: 'templateId',
+					code: ShareDataErrorCode.INVALID_TYPE,
+					message: 'ID шаблона должен быть строкой',
+				},
+			],
+		};
+	}
+
+	const template = await prisma.tierTemplate.findUnique({
+		where: { id: payload.templateId },
+		select: { categories: true, showShirtNumber: true, showPosition: true },
+	});
+
+	if (!template) {
+		return {
+			payload,
+			errors: [
+				{
+					field: 'templateId',
+					code: ShareDataErrorCode.TEMPLATE_NOT_FOUND,
+					message: 'Шаблон категорий не найден',
+				},
+			],
+		};
+	}
+
+	return {
+		payload: {
+			...payload,
+			categories: template.categories,
+			playerCaption: {
+				shirtNumber: template.showShirtNumber,
+				position: template.showPosition,
+			},
+		},
+		errors: [],
+	};
+}
+
+/**
+ * Валидирует данные тир-листа перед рендером или сохранением
+ * Проверяет структуру, цвета, лимиты мест, дубликаты игроков
+ * и принадлежность всех игроков указанному клубу или подборке
+ * Вместо категорий можно передать templateId шаблона категорий
+ */
+export async function validateShareImageData(
+	rawPayload: any,
+): Promise<ShareDataValidationResult> {
+	const resolved = await resolveTemplateCategories(rawPayload);
+
+	if (resolved.errors.length > 0) {
+		return { valid: false, errors: resolved.errors };
+	}
+
+	const payload = resolved.payload;
+	const errors = validateStructure(payload);
+
+	if (errors.length > 0) {
+		return { valid: false, errors };
+	}
+
+	const data: ShareImageData = {
+		...(payload.collectionId
+			? { collectionId: payload.collectionId }
+			: { clubId: payload.clubId }),
+		categories: payload.categories.map((category: any) => ({
+			name: category.name,
+			color: category.color.trim(),
+			slots: category.slots,
+		})),
+		categorizedPlayerIds: payload.categorizedPlayerIds,
+		// Подписи берутся только из шаблона, переданного через templateId
+		...(payload.templateId ? { playerCaption: payload.playerCaption } : {}),
+	};
+
+	const allPlayerIds = Object.values(data.categorizedPlayerIds).flat();
+
+	const [pool, players] = await Promise.all([
+		data.collectionId
+			? prisma.playerCollection.findUnique({
+					where: { id: data.collectionId },
+					select: { id: true, items: { select: { playerId: true } } },
+			  })
+			: prisma.club.findFirst({
+					// Тир-лист собирается только по клубу, который видят пользователи
+					where: { id: data.clubId, ...PUBLISHED_CLUB_WHERE },
+					select: { id: true },
+			  }),
+		allPlayerIds.length > 0
+			? prisma.players.findMany({
+					// Игроки клубов в черновике и архиве не попадают и в тир-листы по подборкам
+					where: {
+						id: { in: allPlayerIds },
+						deletedAt: null,
+						club: PUBLISHED_CLUB_WHERE,
+					},
+					select: { id: true, clubId: true },
+			  })
+			: Promise.resolve([]),
+	]);
+
+	if (!pool) {
+		return {
+			valid: false,
+			errors: [
+				data.collectionId
+					? {
+							field: 'collectionId',
+							code: ShareDataErrorCode.COLLECTION_NOT_FOUND,
+							message: 'Подборка игроков не найдена',
+					  }
+					: {
+							field: 'clubId',
+							code: ShareDataErrorCode.CLUB_NOT_FOUND,
+							message: 'Клуб не найден',
+					  },
+			],
+		};
+	}
+
+	// Для подборки проверяем участие игрока в ней, а не его текущий клуб
+	const collectionPlayerIds =
+		'items' in pool ? new Set(pool.items.map((item) => item.playerId)) : null;
+
+	const playersMap = new Map(players.map((player) => [player.id, player]));
+
+	for (const [categoryName, playerIds] of Object.entries(
+		data.categorizedPlayerIds,
+	)) {
+		playerIds.forEach((playerId, index) => {
+			const player = playersMap.get(playerId);
+			const field = `categorizedPlayerIds.${categoryName}[${index}]`;
+
+			if (!player) {
+				errors.push({
+					field,
+					code: ShareDataErrorCode.PLAYER_NOT_FOUND,
+					message: `Игрок ${playerId} не найден`,
+				});
+			} else if (collectionPlayerIds) {
+				if (!collectionPlayerIds.has(playerId)) {
+					errors.push({
+						field,
+						code: ShareDataErrorCode.PLAYER_NOT_IN_COLLECTION,
+						message: `Игрок ${playerId} не входит в выбранную подборку`,
+					});
+				}
+			} else if (player.clubId !== data.clubId) {
+				errors.push({
+					field,
+					code: ShareDataErrorCode.PLAYER_NOT_IN_CLUB,
+					message: `Игрок ${playerId} не относится к выбранному клубу`,
+				});
+			}
+		});
+	}
+
+	if (errors.length > 0) {
+		return { valid: false, errors };
+	}
+
+	return { valid: true, data };
+}
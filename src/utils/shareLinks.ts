@@ -0,0 +1,51 @@
+import crypto from 'crypto';
+import { config } from '../config/env';
+
+const SHARE_CODE_ALPHABET =
+	'ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz23456789';
+const SHARE_CODE_LENGTH = 8;
+
+// Префикс параметра /start для открытия тир-листа в боте
+export const TIER_LIST_START_PREFIX = 'tl_';
+
+/**
+ * Генерирует короткий код для публичной ссылки на тир-лист
+ * Алфавит без похожих символов (0/O, 1/l/I)
+ */
+export function generateShareCode(): string {
+	const bytes = crypto.randomBytes(SHARE_CODE_LENGTH);
+	let code = '';
+
+	for (const byte of bytes) {
+		code += SHARE_CODE_ALPHABET[byte % SHARE_CODE_ALPHABET.length];
+	}
+
+	return code;
+}
+
+/**
+ * Проверяет формат кода публичной ссылки
+ */
+export function isValidShareCode(code: string): boolean {
+	return (
+		typeof code === 'string' &&
+		code.length === SHARE_CODE_LENGTH &&
+		[...code].every((char) => SHARE_CODE_ALPHABET.includes(char))
+	);
+}
+
+/**
+ * Ссылка вида t.me/<bot>/<app>?startapp=<code>, открывающая тир-лист в Mini App
+ */
+export function buildTierListDeepLink(code: string): string {
+	return `https://t.me/${config.telegram.botUsername}/${config.telegram.webAppShortName}?startapp=${code}`;
+}
+
+/**
+ * URL веб-приложения с открытым тир-листом (для WebApp кнопки)
+ */
+export function buildTierListWebAppUrl(code: string): string {
+	const url = new URL(config.webApp.url);
+	url.searchParams.set('tierList', code);
+	return url.toString();
+}
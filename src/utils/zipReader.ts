@@ -0,0 +1,168 @@
+import zlib from 'zlib';
+
+// Сигнатуры записей ZIP архива
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+
+export interface ZipEntry {
+	path: string;
+	size: number;
+	compressedSize: number;
+	method: number;
+	encrypted: boolean;
+	localHeaderOffset: number;
+}
+
+/**
+ * Минимальный читатель ZIP архивов (без ZIP64 и шифрования)
+ * Содержимое файлов распаковывается только по запросу
+ */
+export class ZipArchive {
+	private entries = new Map<string, ZipEntry>();
+	private entriesByBasename = new Map<string, ZipEntry>();
+
+	constructor(private buffer: Buffer) {
+		this.readCentralDirectory();
+	}
+
+	/**
+	 * Находит файл по пути внутри архива или, если путь не совпал, по имени файла
+	 */
+	findEntry(filePath: string): ZipEntry | null {
+		const normalized = normalizeZipPath(filePath);
+
+		return (
+			this.entries.get(normalized) ||
+			this.entriesByBasename.get(getBasename(normalized)) ||
+			null
+		);
+	}
+
+	/**
+	 * Распаковывает содержимое файла
+	 */
+	extract(entry: ZipEntry): Buffer {
+		if (entry.encrypted) {
+			throw new Error(`Файл ${entry.path} зашифрован`);
+		}
+
+		const offset = entry.localHeaderOffset;
+		if (this.buffer.readUInt32LE(offset) !== LOCAL_FILE_HEADER) {
+			throw new Error(`Поврежденный заголовок файла ${entry.path}`);
+		}
+
+		const nameLength = this.buffer.readUInt16LE(offset + 26);
+		const extraLength = this.buffer.readUInt16LE(offset + 28);
+		const dataStart = offset + 30 + nameLength + extraLength;
+		const data = this.buffer.subarray(
+			dataStart,
+			dataStart + entry.compressedSize,
+		);
+
+		if (entry.method === METHOD_STORED) {
+			return Buffer.from(data);
+		}
+
+		if (entry.method === METHOD_DEFLATE) {
+			// Ограничиваем размер распаковки заявленным размером файла
+			return zlib.inflateRawSync(data, {
+				maxOutputLength: Math.max(entry.size, 1),
+			});
+		}
+
+		throw new Error(`Неподдерживаемый метод сжатия файла ${entry.path}`);
+	}
+
+	private readCentralDirectory(): void {
+		const eocdOffset = this.findEndOfCentralDirectory();
+		const entriesCount = this.buffer.readUInt16LE(eocdOffset + 10);
+		let offset = this.buffer.readUInt32LE(eocdOffset + 16);
+		const ambiguousBasenames = new Set<string>();
+
+		for (let i = 0; i < entriesCount; i++) {
+			if (
+				offset + 46 > this.buffer.length ||
+				this.buffer.readUInt32LE(offset) !== CENTRAL_DIRECTORY_HEADER
+			) {
+				throw new Error('Поврежденный ZIP архив');
+			}
+
+			const flags = this.buffer.readUInt16LE(offset + 8);
+			const compressedSize = this.buffer.readUInt32LE(offset + 20);
+			const size = this.buffer.readUInt32LE(offset + 24);
+			const nameLength = this.buffer.readUInt16LE(offset + 28);
+			const extraLength = this.buffer.readUInt16LE(offset + 30);
+			const commentLength = this.buffer.readUInt16LE(offset + 32);
+
+			if (compressedSize === 0xffffffff || size === 0xffffffff) {
+				throw new Error('ZIP64 архивы не поддерживаются');
+			}
+
+			const path = normalizeZipPath(
+				this.buffer.toString('utf8', offset + 46, offset + 46 + nameLength),
+			);
+
+			const isDirectory = path.endsWith('/') || !path;
+			const isServiceFile =
+				path.startsWith('__macosx/') || getBasename(path).startsWith('._');
+
+			if (!isDirectory && !isServiceFile) {
+				const entry: ZipEntry = {
+					path,
+					size,
+					compressedSize,
+					method: this.buffer.readUInt16LE(offset + 10),
+					encrypted: (flags & 0x1) !== 0,
+					localHeaderOffset: this.buffer.readUInt32LE(offset + 42),
+				};
+
+				this.entries.set(path, entry);
+
+				// По имени файла ищем только однозначные совпадения
+				const basename = getBasename(path);
+				if (this.entriesByBasename.has(basename)) {
+					ambiguousBasenames.add(basename);
+				} else {
+					this.entriesByBasename.set(basename, entry);
+				}
+			}
+
+			offset += 46 + nameLength + extraLength + commentLength;
+		}
+
+		for (const basename of ambiguousBasenames) {
+			this.entriesByBasename.delete(basename);
+		}
+	}
+
+	private findEndOfCentralDirectory(): number {
+		// Запись находится в конце архива, перед ней может быть комментарий до 64 КБ
+		const minOffset = Math.max(0, this.buffer.length - 22 - 0xffff);
+
+		for (let offset = this.buffer.length - 22; offset >= minOffset; offset--) {
+			if (this.buffer.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY) {
+				return offset;
+			}
+		}
+
+		throw new Error('Файл не является ZIP архивом');
+	}
+}
+
+/**
+ * Приводит путь внутри архива к единому виду для сравнения
+ */
+function normalizeZipPath(filePath: string): string {
+	return filePath
+		.replace(/\\/g, '/')
+		.replace(/^\.?\//, '')
+		.toLowerCase();
+}
+
+function getBasename(filePath: string): string {
+	return filePath.slice(filePath.lastIndexOf('/') + 1);
+}
@@ -0,0 +1,73 @@
+import zlib from 'zlib';
+
+// Сигнатуры записей ZIP архива
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+const METHOD_DEFLATE = 8;
+// Бит 11: имена файлов в UTF-8
+const FLAG_UTF8 = 0x0800;
+const ZIP_VERSION = 20;
+
+export interface ZipFile {
+	path: string;
+	data: Buffer;
+}
+
+/**
+ * Собирает ZIP архив в памяти (без ZIP64: до 65535 файлов и 4 ГБ)
+ * Файлы сжимаются deflate и читаются ZipArchive из zipReader
+ */
+export function createZipArchive(files: ZipFile[]): Buffer {
+	if (files.length > 0xffff) {
+		throw new Error('Слишком много файлов для ZIP архива');
+	}
+
+	const localParts: Buffer[] = [];
+	const centralParts: Buffer[] = [];
+	let offset = 0;
+
+	for (const file of files) {
+		const name = Buffer.from(file.path, 'utf8');
+		const compressed = zlib.deflateRawSync(file.data);
+		const crc = zlib.crc32(file.data);
+
+		const localHeader = Buffer.alloc(30);
+		localHeader.writeUInt32LE(LOCAL_FILE_HEADER, 0);
+		localHeader.writeUInt16LE(ZIP_VERSION, 4);
+		localHeader.writeUInt16LE(FLAG_UTF8, 6);
+		localHeader.writeUInt16LE(METHOD_DEFLATE, 8);
+		localHeader.writeUInt32LE(crc, 14);
+		localHeader.writeUInt32LE(compressed.length, 18);
+		localHeader.writeUInt32LE(file.data.length, 22);
+		localHeader.writeUInt16LE(name.length, 26);
+
+		const centralHeader = Buffer.alloc(46);
+		centralHeader.writeUInt32LE(CENTRAL_DIRECTORY_HEADER, 0);
+		centralHeader.writeUInt16LE(ZIP_VERSION, 4);
+		centralHeader.writeUInt16LE(ZIP_VERSION, 6);
+		centralHeader.writeUInt16LE(FLAG_UTF8, 8);
+		centralHeader.writeUInt16LE(METHOD_DEFLATE, 10);
+		centralHeader.writeUInt32LE(crc, 16);
+		centralHeader.writeUInt32LE(compressed.length, 20);
+		centralHeader.writeUInt32LE(file.data.length, 24);
+		centralHeader.writeUInt16LE(name.length, 28);
+		centralHeader.writeUInt32LE(offset, 42);
+
+		localParts.push(localHeader, name, compressed);
+		centralParts.push(centralHeader, name);
+		offset += localHeader.length + name.length + compressed.length;
+	}
+
+	const centralDirectory = Buffer.concat(centralParts);
+
+	const end = Buffer.alloc(22);
+	end.writeUInt32LE(END_OF_CENTRAL_DIRECTORY, 0);
+	end.writeUInt16LE(files.length, 8);
+	end.writeUInt16LE(files.length, 10);
+	end.writeUInt32LE(centralDirectory.length, 12);
+	end.writeUInt32LE(offset, 16);
+
+	return Buffer.concat([...localParts, centralDirectory, end]);
+}